@@ -0,0 +1,73 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import { loadGlobalConfig, loadProjectConfig, validateConfig } from '../../core/config';
+import { ReviewResponder } from '../../core/review-responder';
+import { Logger } from '../../utils/logger';
+
+interface AddressReviewOptions {
+  all?: boolean;
+}
+
+export async function addressReviewCommand(prArg: string, options: AddressReviewOptions): Promise<void> {
+  const spinner = ora();
+
+  try {
+    // Accept "123", "#123" or a PR URL
+    const match = prArg.match(/(?:^#?|\/pull\/)(\d+)\/?$/);
+    if (!match) {
+      console.log(chalk.red(`Not a pull request number or URL: ${prArg}`));
+      process.exit(1);
+    }
+    const prNumber = parseInt(match[1], 10);
+
+    // Load configuration
+    spinner.start('Loading configuration...');
+    const globalConfig = loadGlobalConfig();
+    const projectConfig = loadProjectConfig();
+
+    if (!projectConfig) {
+      spinner.fail('No project configuration found');
+      console.log(chalk.yellow('Run "jira-claude-bot init" to create a configuration file.'));
+      process.exit(1);
+    }
+
+    // Validate configuration
+    const errors = validateConfig(globalConfig, projectConfig);
+    if (errors.length > 0) {
+      spinner.fail('Configuration errors:');
+      errors.forEach(e => console.log(chalk.red(`  - ${e}`)));
+      process.exit(1);
+    }
+
+    spinner.succeed('Configuration loaded');
+
+    const logger = new Logger('info', `PR #${prNumber}`);
+    const responder = new ReviewResponder(globalConfig, projectConfig, process.cwd(), logger);
+
+    console.log(chalk.blue(`\n🤖 Addressing review comments on PR #${prNumber}...\n`));
+
+    const result = await responder.address(prNumber, { all: options.all });
+
+    if (!result.success) {
+      console.log(chalk.red(`\n✗ Failed to address review on PR #${prNumber}`));
+      console.log(chalk.red(`  Error: ${result.error}`));
+      process.exit(1);
+    }
+
+    if (result.addressed === 0) {
+      console.log(chalk.yellow(`\nNo new review comments on PR #${prNumber}`));
+      if (!options.all) {
+        console.log(chalk.gray('  Use --all to include comments that were already addressed.'));
+      }
+    } else if (result.pushed) {
+      console.log(chalk.green(`\n✓ Addressed ${result.addressed} comment(s) and pushed the changes`));
+    } else {
+      console.log(chalk.yellow(`\n⊘ Looked at ${result.addressed} comment(s) but made no changes`));
+    }
+
+  } catch (error) {
+    spinner.fail('Error');
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,109 @@
+import chalk from 'chalk';
+import { loadGlobalConfig } from '../../core/config';
+import { RunHistory, RunRecord } from '../../core/history';
+
+interface HistoryOptions {
+  ticket?: string;
+  since?: string;
+  failed?: boolean;
+  json?: boolean;
+  limit?: string;
+}
+
+export async function historyCommand(options: HistoryOptions): Promise<void> {
+  try {
+    const globalConfig = loadGlobalConfig();
+    const history = new RunHistory(globalConfig.bot.dataDir);
+
+    const since = options.since ? parseSince(options.since) : undefined;
+    const limit = options.limit ? parseInt(options.limit, 10) : 20;
+
+    const records = history.read({
+      ticketKey: options.ticket,
+      since,
+      failedOnly: options.failed,
+    });
+    const shown = limit > 0 ? records.slice(-limit) : records;
+
+    if (options.json) {
+      process.stdout.write(JSON.stringify(shown, null, 2) + '\n');
+      return;
+    }
+
+    console.log(chalk.blue('\n📜 Run History\n'));
+
+    if (shown.length === 0) {
+      console.log(chalk.gray('  No runs match the criteria.\n'));
+      return;
+    }
+
+    for (const record of [...shown].reverse()) {
+      printRecord(record);
+    }
+
+    if (records.length > shown.length) {
+      console.log(chalk.gray(`  Showing ${shown.length} of ${records.length} runs. Use --limit 0 to show all.`));
+    }
+    console.log('');
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    process.exit(1);
+  }
+}
+
+/**
+ * Accepts an ISO date/time ("2024-05-01", "2024-05-01T09:00") or a
+ * relative duration ("30m", "12h", "7d").
+ */
+function parseSince(value: string): Date {
+  const relative = value.trim().match(/^(\d+)\s*([mhdw])$/i);
+  if (relative) {
+    const amount = parseInt(relative[1], 10);
+    const unitMs: Record<string, number> = {
+      m: 60 * 1000,
+      h: 60 * 60 * 1000,
+      d: 24 * 60 * 60 * 1000,
+      w: 7 * 24 * 60 * 60 * 1000,
+    };
+    return new Date(Date.now() - amount * unitMs[relative[2].toLowerCase()]);
+  }
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid --since value "${value}". Use a date (2024-05-01) or a duration (12h, 7d).`);
+  }
+  return date;
+}
+
+function printRecord(record: RunRecord): void {
+  const status = record.success ? chalk.green('✓') : record.skipped ? chalk.yellow('⊘') : chalk.red('✗');
+  const time = new Date(record.startedAt).toLocaleString();
+  const trigger = chalk.gray(`[${record.trigger}${record.task && record.task !== 'ticket' ? `, ${record.task.replace('_', '-')}` : ''}]`);
+  const cost = record.costUsd !== undefined ? `, $${record.costUsd.toFixed(2)}` : '';
+  const details = chalk.gray(`${formatDuration(record.durationMs)}, ${record.model}${cost}`);
+
+  console.log(`  ${status} ${chalk.cyan(record.ticketKey)} - ${time} ${trigger} ${details}`);
+  if (record.branchName) {
+    console.log(chalk.gray(`      Branch: ${record.branchName}`));
+  }
+  if (record.prUrl) {
+    console.log(chalk.gray(`      PR: ${record.prUrl}`));
+  }
+  if (record.previewUrl) {
+    console.log(chalk.gray(`      Preview: ${record.previewUrl}`));
+  }
+  if (record.skipped) {
+    console.log(chalk.yellow(`      Skipped: ${record.error}`));
+  } else if (record.error) {
+    console.log(chalk.red(`      Error: ${record.error}`));
+  }
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${seconds % 60}s`;
+}
@@ -3,6 +3,8 @@ import * as path from 'path';
 import * as readline from 'readline';
 import chalk from 'chalk';
 import { saveProjectConfig, ProjectConfig } from '../../core/config';
+import { GitHostName } from '../../clients/git-host';
+import { detectRemote, DetectedRemote } from '../../utils/git-remote';
 
 interface InitOptions {
   force?: boolean;
@@ -34,31 +36,31 @@ export async function initCommand(options: InitOptions): Promise<void> {
     const jiraKey = await question('JIRA project key (e.g., CW2): ');
 
     // Try to detect host + repo from git remote
-    let detectedHost: 'github' | 'bitbucket' | '' = '';
-    let defaultRepo = '';
+    let detected: DetectedRemote | null = null;
     try {
       const gitRemote = require('child_process')
         .execSync('git remote get-url origin', { encoding: 'utf8' })
         .trim();
-      const ghMatch = gitRemote.match(/github\.com[:/](.+?)(?:\.git)?$/);
-      const bbMatch = gitRemote.match(/bitbucket\.org[:/](.+?)(?:\.git)?$/);
-      if (ghMatch) {
-        detectedHost = 'github';
-        defaultRepo = ghMatch[1];
-      } else if (bbMatch) {
-        detectedHost = 'bitbucket';
-        defaultRepo = bbMatch[1];
-      }
+      detected = detectRemote(gitRemote);
     } catch {
       // Ignore
     }
 
+    const detectedHost = detected?.host || '';
     const hostAnswer = (await question(
-      `Git host (github/bitbucket)${detectedHost ? ` [${detectedHost}]` : ''}: `
+      `Git host (github/bitbucket/gitlab)${detectedHost ? ` [${detectedHost}]` : ''}: `
     )).trim().toLowerCase() || detectedHost;
-    const host: 'github' | 'bitbucket' = hostAnswer === 'bitbucket' ? 'bitbucket' : 'github';
+    const host: GitHostName = hostAnswer === 'bitbucket' || hostAnswer === 'gitlab' ? hostAnswer : 'github';
 
-    const repoLabel = host === 'bitbucket' ? 'workspace/repo-slug' : 'owner/repo';
+    let hostUrl: string | undefined;
+    if (host === 'gitlab') {
+      const defaultUrl = detected?.host === 'gitlab' && detected.hostUrl ? detected.hostUrl : 'https://gitlab.com';
+      const url = (await question(`GitLab URL [${defaultUrl}]: `)).trim().replace(/\/+$/, '') || defaultUrl;
+      hostUrl = url === 'https://gitlab.com' ? undefined : url;
+    }
+
+    const defaultRepo = detected?.host === host ? detected.repo : '';
+    const repoLabel = host === 'bitbucket' ? 'workspace/repo-slug' : host === 'gitlab' ? 'group/project' : 'owner/repo';
     const repo = (await question(
       `Repo in "${repoLabel}" form (not a URL)${defaultRepo ? ` [${defaultRepo}]` : ''}: `
     )).trim() || defaultRepo;
@@ -68,11 +70,7 @@ export async function initCommand(options: InitOptions): Promise<void> {
     const statusToDo = await question('Status to fetch (To Do): ') || 'To Do';
     const labelsInput = (await question('Label(s) to filter tickets by, comma-separated (leave blank for none): ')).trim();
     const labels = labelsInput ? labelsInput.split(',').map(l => l.trim()).filter(Boolean) : undefined;
-    const transitionPrompt = host === 'bitbucket'
-      ? 'Status after branch pushed (In Progress): '
-      : 'Status after PR created (PR to develop open): ';
-    const transitionDefault = host === 'bitbucket' ? 'In Progress' : 'PR to develop open';
-    const statusOnPr = await question(transitionPrompt) || transitionDefault;
+    const statusOnPr = await question('Status after PR created (PR to develop open): ') || 'PR to develop open';
 
     // Get deployment platform
     const deployment = await question('Deployment platform (vercel/netlify/none) [vercel]: ') || 'vercel';
@@ -82,6 +80,8 @@ export async function initCommand(options: InitOptions): Promise<void> {
       project: {
         jiraKey,
         repo,
+        ...(host !== 'github' ? { host } : {}),
+        ...(hostUrl ? { hostUrl } : {}),
       },
       tickets: {
         statuses: [statusToDo],
@@ -90,7 +90,7 @@ export async function initCommand(options: InitOptions): Promise<void> {
       workflow: {
         branchPattern: 'feature/{ticket_key}',
         commitPattern: '{ticket_key}: {summary}',
-        skipPullRequest: host === 'bitbucket',
+        skipPullRequest: false,
         pr: {
           baseBranch,
           titlePattern: '{ticket_key}: {summary}',
@@ -126,6 +126,11 @@ export async function initCommand(options: InitOptions): Promise<void> {
     console.log(chalk.gray('\nNext steps:'));
     console.log(chalk.gray('1. Review and customize .jira-claude-bot.yaml'));
     console.log(chalk.gray('2. Set environment variables: JIRA_HOST, JIRA_EMAIL, JIRA_API_TOKEN'));
+    if (host === 'bitbucket') {
+      console.log(chalk.gray('   and BITBUCKET_USERNAME, BITBUCKET_APP_PASSWORD'));
+    } else if (host === 'gitlab') {
+      console.log(chalk.gray('   and GITLAB_TOKEN'));
+    }
     console.log(chalk.gray('3. Run: jira-claude-bot validate'));
     console.log(chalk.gray('4. Run: jira-claude-bot work TICKET-123'));
 
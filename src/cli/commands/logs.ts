@@ -0,0 +1,186 @@
+import chalk from 'chalk';
+import * as fs from 'fs';
+import * as path from 'path';
+import { loadGlobalConfig } from '../../core/config';
+import {
+  RunLogRecord,
+  listRuns,
+  runDir,
+  readTranscript,
+  renderTranscript,
+  PROMPT_FILE,
+  TRANSCRIPT_FILE,
+  DIFF_FILE,
+  RECORD_FILE,
+} from '../../core/run-log';
+
+interface LogsOptions {
+  run?: string;
+  transcript?: boolean;
+  prompt?: boolean;
+  diff?: boolean;
+  follow?: boolean;
+  raw?: boolean;
+}
+
+const FOLLOW_INTERVAL_MS = 500;
+
+export async function logsCommand(ticketKey: string, options: LogsOptions): Promise<void> {
+  try {
+    const globalConfig = loadGlobalConfig();
+    const dataDir = globalConfig.bot.dataDir;
+    const runs = listRuns(dataDir, ticketKey);
+
+    if (runs.length === 0) {
+      console.log(chalk.yellow(`No recorded runs for ${ticketKey.toUpperCase()}`));
+      return;
+    }
+
+    const showRun = options.transcript || options.prompt || options.diff || options.follow;
+    if (!showRun) {
+      printRuns(ticketKey, runs);
+      return;
+    }
+
+    const run = selectRun(runs, options.run);
+    const dir = runDir(dataDir, run.ticketKey, run.id);
+
+    if (options.prompt) {
+      printFile(dir, PROMPT_FILE, 'No prompt recorded for this run (Claude Code never started).');
+    }
+    if (options.diff) {
+      printFile(dir, DIFF_FILE, 'No diff recorded for this run.');
+    }
+    if (options.follow) {
+      await followTranscript(dir, options.raw);
+    } else if (options.transcript) {
+      if (options.raw) {
+        printFile(dir, TRANSCRIPT_FILE, 'No transcript recorded for this run.');
+      } else {
+        const transcript = readTranscript(dir);
+        console.log(transcript ?? chalk.gray('No transcript recorded for this run.'));
+      }
+    }
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    process.exit(1);
+  }
+}
+
+/**
+ * A run id, or its number in the list (1 is the latest). Defaults to the latest.
+ */
+function selectRun(runs: RunLogRecord[], selector?: string): RunLogRecord {
+  if (!selector) {
+    return runs[runs.length - 1];
+  }
+
+  const byId = runs.find(r => r.id === selector);
+  if (byId) {
+    return byId;
+  }
+
+  const index = /^\d+$/.test(selector) ? parseInt(selector, 10) : NaN;
+  if (index >= 1 && index <= runs.length) {
+    return runs[runs.length - index];
+  }
+
+  throw new Error(`No run "${selector}". Run "jira-claude-bot logs <ticket>" to list them.`);
+}
+
+function printRuns(ticketKey: string, runs: RunLogRecord[]): void {
+  console.log(chalk.blue(`\n📜 Runs for ${ticketKey.toUpperCase()}\n`));
+
+  [...runs].reverse().forEach((run, i) => {
+    const status = run.finishedAt === undefined
+      ? chalk.blue('…')
+      : run.success ? chalk.green('✓') : chalk.red('✗');
+    const time = new Date(run.startedAt).toLocaleString();
+    const details: string[] = [];
+    if (run.finishedAt) {
+      details.push(formatDuration(new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime()));
+    } else {
+      details.push('in progress');
+    }
+    if (run.metrics?.numTurns !== undefined) details.push(`${run.metrics.numTurns} turns`);
+    if (run.metrics?.costUsd !== undefined) details.push(`$${run.metrics.costUsd.toFixed(2)}`);
+
+    console.log(`  ${chalk.gray(`${i + 1}.`)} ${status} ${time} ${chalk.gray(`(${details.join(', ')})`)}`);
+    console.log(chalk.gray(`      ${run.id}`));
+    if (run.steps.length > 0) {
+      const steps = run.steps.map(s => `${s.name} ${s.durationMs === undefined ? '…' : formatDuration(s.durationMs)}`);
+      console.log(chalk.gray(`      Steps: ${steps.join(', ')}`));
+    }
+    if (run.error) {
+      console.log(chalk.red(`      Error: ${run.error}`));
+    }
+  });
+
+  console.log('');
+  console.log(chalk.gray('  Use --transcript, --prompt or --diff to inspect a run (--run <n> picks one, default latest).'));
+  console.log('');
+}
+
+function printFile(dir: string, file: string, missing: string): void {
+  const filePath = path.join(dir, file);
+  if (!fs.existsSync(filePath)) {
+    console.log(chalk.gray(missing));
+    return;
+  }
+  process.stdout.write(fs.readFileSync(filePath, 'utf8'));
+}
+
+/**
+ * Print the transcript as it grows until the run finishes.
+ */
+async function followTranscript(dir: string, raw?: boolean): Promise<void> {
+  const filePath = path.join(dir, TRANSCRIPT_FILE);
+  let offset = 0;
+  let partial = '';
+
+  for (;;) {
+    // Check before reading, so the last lines written before finishing are still printed
+    const finished = isFinished(dir);
+
+    if (fs.existsSync(filePath)) {
+      const size = fs.statSync(filePath).size;
+      if (size > offset) {
+        const fd = fs.openSync(filePath, 'r');
+        const buffer = Buffer.alloc(size - offset);
+        fs.readSync(fd, buffer, 0, buffer.length, offset);
+        fs.closeSync(fd);
+        offset = size;
+
+        const lines = (partial + buffer.toString('utf8')).split('\n');
+        partial = lines.pop() || '';
+        const chunk = raw ? lines.join('\n') : renderTranscript(lines.join('\n'));
+        if (chunk) {
+          console.log(chunk);
+        }
+      }
+    }
+
+    if (finished) {
+      return;
+    }
+    await new Promise(resolve => setTimeout(resolve, FOLLOW_INTERVAL_MS));
+  }
+}
+
+function isFinished(dir: string): boolean {
+  try {
+    const record = JSON.parse(fs.readFileSync(path.join(dir, RECORD_FILE), 'utf8')) as RunLogRecord;
+    return record.finishedAt !== undefined;
+  } catch {
+    return false;
+  }
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${seconds % 60}s`;
+}
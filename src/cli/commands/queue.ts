@@ -0,0 +1,187 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import { loadGlobalConfig, loadProjectConfig } from '../../core/config';
+import { TicketQueue, QueueEntry, QueueStatus } from '../../core/queue';
+import { JiraClient } from '../../clients/jira';
+
+interface QueueListOptions {
+  status?: string;
+  project?: string;
+}
+
+const QUEUE_STATUSES: QueueStatus[] = ['pending', 'in_progress', 'completed', 'failed', 'skipped'];
+
+function openQueue(): TicketQueue {
+  const globalConfig = loadGlobalConfig();
+  return new TicketQueue(globalConfig.bot.dataDir);
+}
+
+function fail(error: unknown): never {
+  console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+  process.exit(1);
+}
+
+export async function queueListCommand(options: QueueListOptions): Promise<void> {
+  try {
+    if (options.status && !QUEUE_STATUSES.includes(options.status as QueueStatus)) {
+      fail(`Unknown status "${options.status}". Expected one of: ${QUEUE_STATUSES.join(', ')}`);
+    }
+
+    const queue = openQueue();
+    const entries = (await queue.list(options.project))
+      .filter(e => !options.status || e.status === options.status);
+
+    console.log(chalk.blue('\n📋 Ticket Queue\n'));
+
+    if (await queue.isPaused()) {
+      console.log(chalk.yellow('  Queue is paused — the daemon will not start new tickets.\n'));
+    }
+
+    if (entries.length === 0) {
+      console.log(chalk.gray('  Queue is empty.\n'));
+      return;
+    }
+
+    const maxKeyLen = Math.max(...entries.map(e => e.ticketKey.length));
+
+    for (const entry of entries) {
+      const key = chalk.cyan(entry.ticketKey.padEnd(maxKeyLen));
+      const status = formatStatus(entry.status);
+      const attempts = chalk.gray(`attempts: ${entry.attempts}`);
+      const priority = chalk.gray(`priority: ${entry.priority}`);
+      console.log(`  ${key}  ${status}  ${priority}  ${attempts}  ${entry.summary}`);
+      if (entry.lastError) {
+        console.log(chalk.red(`      Last error: ${entry.lastError}`));
+      }
+      if (entry.status === 'pending' && entry.retryAt) {
+        console.log(chalk.gray(`      Retrying at ${new Date(entry.retryAt).toLocaleString()} (ladder step ${(entry.retryStep || 0) + 1})`));
+      }
+    }
+
+    console.log('');
+  } catch (error) {
+    fail(error);
+  }
+}
+
+export async function queueAddCommand(ticketKey: string): Promise<void> {
+  const spinner = ora();
+
+  try {
+    const globalConfig = loadGlobalConfig();
+    const projectConfig = loadProjectConfig();
+    const queue = new TicketQueue(globalConfig.bot.dataDir);
+
+    const existing = await queue.get(ticketKey);
+    if (existing) {
+      if (existing.status === 'pending' || existing.status === 'in_progress') {
+        console.log(chalk.yellow(`${ticketKey} is already queued (${existing.status}).`));
+        return;
+      }
+      await queue.retry(ticketKey);
+      console.log(chalk.green(`✓ ${ticketKey} was ${existing.status}, returned to pending`));
+      return;
+    }
+
+    spinner.start(`Fetching ${ticketKey}...`);
+    const jira = new JiraClient(globalConfig.jira);
+    const ticket = await jira.getTicket(ticketKey);
+    spinner.succeed(`Fetched ${ticketKey}: ${ticket.summary}`);
+
+    const projectKey = projectConfig?.project.jiraKey || ticket.key.split('-')[0];
+    await queue.enqueue(ticket, projectKey);
+    console.log(chalk.green(`✓ Added ${ticketKey} to the queue`));
+  } catch (error) {
+    spinner.stop();
+    fail(error);
+  }
+}
+
+export async function queueRemoveCommand(ticketKey: string): Promise<void> {
+  try {
+    const removed = await openQueue().remove(ticketKey);
+    if (!removed) {
+      console.log(chalk.yellow(`${ticketKey} is not in the queue.`));
+      return;
+    }
+    console.log(chalk.green(`✓ Removed ${ticketKey} from the queue`));
+  } catch (error) {
+    fail(error);
+  }
+}
+
+export async function queueSkipCommand(ticketKey: string, reason?: string): Promise<void> {
+  const spinner = ora();
+
+  try {
+    const globalConfig = loadGlobalConfig();
+    const projectConfig = loadProjectConfig();
+    const queue = new TicketQueue(globalConfig.bot.dataDir);
+
+    const existing = await queue.get(ticketKey);
+    if (existing?.status === 'in_progress') {
+      fail(`Ticket ${ticketKey} is currently in progress`);
+    }
+
+    // The entry is what keeps the daemon from queueing the ticket, so a
+    // ticket it hasn't seen yet is added first
+    if (!existing) {
+      spinner.start(`Fetching ${ticketKey}...`);
+      const jira = new JiraClient(globalConfig.jira);
+      const ticket = await jira.getTicket(ticketKey);
+      spinner.succeed(`Fetched ${ticketKey}: ${ticket.summary}`);
+      await queue.enqueue(ticket, projectConfig?.project.jiraKey || ticket.key.split('-')[0]);
+    }
+
+    await queue.skip(ticketKey, reason || 'Skipped manually');
+    console.log(chalk.green(`✓ ${ticketKey} skipped. Use "queue retry ${ticketKey}" to work it again.`));
+  } catch (error) {
+    spinner.stop();
+    fail(error);
+  }
+}
+
+export async function queueRetryCommand(ticketKey: string): Promise<void> {
+  try {
+    const entry = await openQueue().retry(ticketKey);
+    console.log(chalk.green(`✓ ${entry.ticketKey} returned to pending (attempts so far: ${entry.attempts})`));
+  } catch (error) {
+    fail(error);
+  }
+}
+
+export async function queuePauseCommand(): Promise<void> {
+  try {
+    await openQueue().pause();
+    console.log(chalk.green('✓ Queue paused. The daemon will finish its current ticket and then wait.'));
+  } catch (error) {
+    fail(error);
+  }
+}
+
+export async function queueResumeCommand(): Promise<void> {
+  try {
+    await openQueue().resume();
+    console.log(chalk.green('✓ Queue resumed.'));
+  } catch (error) {
+    fail(error);
+  }
+}
+
+function formatStatus(status: QueueEntry['status']): string {
+  const label = status.padEnd(11);
+  switch (status) {
+    case 'pending':
+      return chalk.white(label);
+    case 'in_progress':
+      return chalk.blue(label);
+    case 'completed':
+      return chalk.green(label);
+    case 'failed':
+      return chalk.red(label);
+    case 'skipped':
+      return chalk.yellow(label);
+    default:
+      return label;
+  }
+}
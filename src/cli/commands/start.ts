@@ -1,31 +1,20 @@
 import chalk from 'chalk';
-import { loadGlobalConfig, loadProjectConfig, validateConfig } from '../../core/config';
-import { Daemon } from '../../core/daemon';
+import { loadGlobalConfig, loadProjectConfig, validateConfig, GlobalConfig } from '../../core/config';
+import { Daemon, DaemonProject } from '../../core/daemon';
 import { Logger } from '../../utils/logger';
 
 interface StartOptions {
   interval?: string;
+  all?: boolean;
 }
 
 export async function startCommand(options: StartOptions): Promise<void> {
   try {
     // Load configuration
     const globalConfig = loadGlobalConfig();
-    const projectConfig = loadProjectConfig();
-
-    if (!projectConfig) {
-      console.log(chalk.red('No project configuration found.'));
-      console.log(chalk.yellow('Run "jira-claude-bot init" to create a configuration file.'));
-      process.exit(1);
-    }
-
-    // Validate configuration
-    const errors = validateConfig(globalConfig, projectConfig);
-    if (errors.length > 0) {
-      console.log(chalk.red('Configuration errors:'));
-      errors.forEach(e => console.log(chalk.red(`  - ${e}`)));
-      process.exit(1);
-    }
+    const projects = options.all
+      ? loadConfiguredProjects(globalConfig)
+      : loadCurrentProject(globalConfig);
 
     // Parse poll interval
     const pollInterval = options.interval ? parseInt(options.interval, 10) : undefined;
@@ -37,8 +26,10 @@ export async function startCommand(options: StartOptions): Promise<void> {
     ╚╝╚╝╩╚═  ╚═╝╩═╝╩ ╩╚═╝═╩╝╚═╝  ╚═╝╚═╝ ╩
     `));
 
-    console.log(chalk.gray(`  Project: ${projectConfig.project.jiraKey}`));
-    console.log(chalk.gray(`  Repo: ${projectConfig.project.repo}`));
+    for (const { config } of projects) {
+      console.log(chalk.gray(`  Project: ${config.project.jiraKey}`));
+      console.log(chalk.gray(`  Repo: ${config.project.repo}`));
+    }
     console.log('');
 
     // Create and start daemon
@@ -48,8 +39,7 @@ export async function startCommand(options: StartOptions): Promise<void> {
 
     const daemon = new Daemon(
       globalConfig,
-      projectConfig,
-      process.cwd(),
+      projects,
       logger,
       { pollInterval }
     );
@@ -61,3 +51,73 @@ export async function startCommand(options: StartOptions): Promise<void> {
     process.exit(1);
   }
 }
+
+function loadCurrentProject(globalConfig: GlobalConfig): DaemonProject[] {
+  const projectConfig = loadProjectConfig();
+
+  if (!projectConfig) {
+    console.log(chalk.red('No project configuration found.'));
+    console.log(chalk.yellow('Run "jira-claude-bot init" to create a configuration file,'));
+    console.log(chalk.yellow('or "jira-claude-bot start --all" to run the projects listed in the global config.'));
+    process.exit(1);
+  }
+
+  // Validate configuration
+  exitOnErrors(validateConfig(globalConfig, projectConfig));
+
+  // Pick up the per-project limit if this repo is also listed globally
+  const workingDir = process.cwd();
+  const entry = globalConfig.projects?.find(p => p.path === workingDir);
+
+  return [{ config: projectConfig, workingDir, maxConcurrentWorkers: entry?.maxConcurrentWorkers }];
+}
+
+function loadConfiguredProjects(globalConfig: GlobalConfig): DaemonProject[] {
+  const entries = globalConfig.projects || [];
+
+  if (entries.length === 0) {
+    console.log(chalk.red('No projects configured.'));
+    console.log(chalk.yellow('Add a "projects:" list to ~/.jira-claude-bot/config.yaml to use --all.'));
+    process.exit(1);
+  }
+
+  const errors = validateConfig(globalConfig, null);
+  const projects: DaemonProject[] = [];
+  const seen = new Map<string, string>();
+
+  for (const entry of entries) {
+    const projectConfig = loadProjectConfig(entry.path);
+    if (!projectConfig) {
+      errors.push(`${entry.path}: no .jira-claude-bot.yaml found`);
+      continue;
+    }
+
+    const projectErrors = validateConfig(globalConfig, projectConfig)
+      .filter(e => !errors.includes(e));
+    errors.push(...projectErrors.map(e => `${entry.path}: ${e}`));
+
+    // Queue entries are keyed by project, so two repos can't share one
+    const key = projectConfig.project.jiraKey;
+    if (key && seen.has(key)) {
+      errors.push(`${entry.path}: project ${key} is already configured by ${seen.get(key)}`);
+    }
+    seen.set(key, entry.path);
+
+    projects.push({
+      config: projectConfig,
+      workingDir: entry.path,
+      maxConcurrentWorkers: entry.maxConcurrentWorkers,
+    });
+  }
+
+  exitOnErrors(errors);
+  return projects;
+}
+
+function exitOnErrors(errors: string[]): void {
+  if (errors.length > 0) {
+    console.log(chalk.red('Configuration errors:'));
+    errors.forEach(e => console.log(chalk.red(`  - ${e}`)));
+    process.exit(1);
+  }
+}
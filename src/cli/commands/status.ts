@@ -1,8 +1,7 @@
 import chalk from 'chalk';
-import * as fs from 'fs';
-import * as path from 'path';
-import * as os from 'os';
 import { loadGlobalConfig, loadProjectConfig } from '../../core/config';
+import { RunHistory } from '../../core/history';
+import { Budget, formatUsd } from '../../core/budget';
 
 export async function statusCommand(): Promise<void> {
   console.log(chalk.blue('\n🤖 JIRA Claude Bot Status\n'));
@@ -37,32 +36,25 @@ export async function statusCommand(): Promise<void> {
   console.log('');
 
   // Check for history/state
-  const dataDir = globalConfig.bot.dataDir;
-  const historyFile = path.join(dataDir, 'history.json');
+  const history = new RunHistory(globalConfig.bot.dataDir);
 
   console.log(chalk.white.bold('Recent Activity:'));
-  if (fs.existsSync(historyFile)) {
-    try {
-      const history = JSON.parse(fs.readFileSync(historyFile, 'utf8'));
-      const recent = history.slice(-5).reverse();
+  const recent = history.read().slice(-5).reverse();
 
-      if (recent.length > 0) {
-        for (const entry of recent) {
-          const status = entry.success ? chalk.green('✓') : chalk.red('✗');
-          const time = new Date(entry.timestamp).toLocaleString();
-          console.log(`  ${status} ${entry.ticketKey} - ${time}`);
-          if (entry.pr) {
-            console.log(chalk.gray(`      PR: ${entry.pr}`));
-          }
-          if (entry.error) {
-            console.log(chalk.red(`      Error: ${entry.error}`));
-          }
-        }
-      } else {
-        console.log(chalk.gray('  No recent activity.'));
+  if (recent.length > 0) {
+    for (const entry of recent) {
+      const status = entry.success ? chalk.green('✓') : chalk.red('✗');
+      const time = new Date(entry.startedAt).toLocaleString();
+      console.log(`  ${status} ${entry.ticketKey} - ${time}`);
+      if (entry.costUsd !== undefined) {
+        console.log(chalk.gray(`      Cost: ${formatUsd(entry.costUsd)}`));
+      }
+      if (entry.prUrl) {
+        console.log(chalk.gray(`      PR: ${entry.prUrl}`));
+      }
+      if (entry.error) {
+        console.log(chalk.red(`      Error: ${entry.error}`));
       }
-    } catch {
-      console.log(chalk.gray('  No recent activity.'));
     }
   } else {
     console.log(chalk.gray('  No recent activity.'));
@@ -70,8 +62,41 @@ export async function statusCommand(): Promise<void> {
 
   console.log('');
 
+  // Claude spend, against claude.budget when set
+  console.log(chalk.white.bold('Claude Spend:'));
+  const now = new Date();
+  const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+  const projectKeys = projectConfig
+    ? [projectConfig.project.jiraKey]
+    : [...new Set(history.read({ since: monthStart }).map(r => r.projectKey))];
+
+  if (projectKeys.length > 0) {
+    for (const key of projectKeys) {
+      const caps = projectConfig?.claude.budget || {};
+      const spend = new Budget(caps, globalConfig.bot.dataDir, key).spend(undefined, now);
+      const today = formatSpend(spend.today, caps.daily);
+      const month = formatSpend(spend.month, caps.monthly);
+      console.log(`  ${chalk.cyan(key)}: today ${today}, this month ${month}`);
+    }
+    if (projectConfig?.claude.budget?.perTicket !== undefined) {
+      console.log(chalk.gray(`  Per-ticket cap: ${formatUsd(projectConfig.claude.budget.perTicket)}`));
+    }
+  } else {
+    console.log(chalk.gray('  No spend recorded this month.'));
+  }
+
+  console.log('');
+
   // Bot daemon status (placeholder for future)
   console.log(chalk.white.bold('Bot Status:'));
   console.log(chalk.gray('  Daemon mode not running (not yet implemented).'));
   console.log('');
 }
+
+function formatSpend(spent: number, cap?: number): string {
+  if (cap === undefined) {
+    return formatUsd(spent);
+  }
+  const text = `${formatUsd(spent)} / ${formatUsd(cap)}`;
+  return spent >= cap ? chalk.red(text) : text;
+}
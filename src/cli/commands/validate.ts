@@ -3,6 +3,8 @@ import ora from 'ora';
 import { execSync } from 'child_process';
 import { loadGlobalConfig, loadProjectConfig, validateConfig } from '../../core/config';
 import { JiraClient } from '../../clients/jira';
+import { BitbucketClient } from '../../clients/bitbucket';
+import { GitLabClient } from '../../clients/gitlab';
 
 export async function validateCommand(): Promise<void> {
   const spinner = ora();
@@ -38,15 +40,44 @@ export async function validateCommand(): Promise<void> {
     hasErrors = true;
   }
 
-  // 3. Check GitHub CLI
-  spinner.start('Checking GitHub CLI...');
-  try {
-    execSync('gh auth status', { stdio: 'pipe' });
-    spinner.succeed('GitHub CLI authenticated');
-  } catch {
-    spinner.fail('GitHub CLI not authenticated');
-    console.log(chalk.yellow('    Run: gh auth login'));
-    hasErrors = true;
+  // 3. Check the git host: the GitHub CLI, or the Bitbucket or GitLab API
+  if (projectConfig?.project.host === 'bitbucket') {
+    spinner.start('Testing Bitbucket connection...');
+    try {
+      if (!globalConfig.bitbucket) {
+        throw new Error('BITBUCKET_USERNAME and BITBUCKET_APP_PASSWORD are not set');
+      }
+      await new BitbucketClient(globalConfig.bitbucket, projectConfig.project.repo).checkAccess();
+      spinner.succeed('Bitbucket connection successful');
+    } catch (error) {
+      spinner.fail('Bitbucket connection failed');
+      console.log(chalk.red(`    - ${error instanceof Error ? error.message : String(error)}`));
+      hasErrors = true;
+    }
+  } else if (projectConfig?.project.host === 'gitlab') {
+    spinner.start('Testing GitLab connection...');
+    try {
+      if (!globalConfig.gitlab) {
+        throw new Error('GITLAB_TOKEN is not set');
+      }
+      const url = projectConfig.project.hostUrl || globalConfig.gitlab.url;
+      await new GitLabClient({ ...globalConfig.gitlab, url }, projectConfig.project.repo).checkAccess();
+      spinner.succeed('GitLab connection successful');
+    } catch (error) {
+      spinner.fail('GitLab connection failed');
+      console.log(chalk.red(`    - ${error instanceof Error ? error.message : String(error)}`));
+      hasErrors = true;
+    }
+  } else {
+    spinner.start('Checking GitHub CLI...');
+    try {
+      execSync('gh auth status', { stdio: 'pipe' });
+      spinner.succeed('GitHub CLI authenticated');
+    } catch {
+      spinner.fail('GitHub CLI not authenticated');
+      console.log(chalk.yellow('    Run: gh auth login'));
+      hasErrors = true;
+    }
   }
 
   // 4. Check Claude CLI
@@ -49,7 +49,8 @@ export async function workCommand(ticketKey: string, options: WorkOptions): Prom
       globalConfig,
       projectConfig,
       process.cwd(),
-      logger
+      logger,
+      { trigger: 'work' }
     );
 
     console.log(chalk.blue(`\n🤖 Working on ${ticketKey}...\n`));
@@ -64,6 +65,9 @@ export async function workCommand(ticketKey: string, options: WorkOptions): Prom
       if (result.previewUrl) {
         console.log(chalk.gray(`  Preview: ${result.previewUrl}`));
       }
+    } else if (result.skipped) {
+      console.log(chalk.yellow(`\n⊘ Skipped ${ticketKey}`));
+      console.log(chalk.yellow(`  Reason: ${result.error}`));
     } else {
       console.log(chalk.red(`\n✗ Failed to process ${ticketKey}`));
       console.log(chalk.red(`  Error: ${result.error}`));
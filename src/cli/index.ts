@@ -11,6 +11,18 @@ import { validateCommand } from './commands/validate';
 import { statusCommand } from './commands/status';
 import { startCommand } from './commands/start';
 import { contextCommand } from './commands/context';
+import { historyCommand } from './commands/history';
+import { logsCommand } from './commands/logs';
+import { addressReviewCommand } from './commands/address-review';
+import {
+  queueListCommand,
+  queueAddCommand,
+  queueRemoveCommand,
+  queueRetryCommand,
+  queueSkipCommand,
+  queuePauseCommand,
+  queueResumeCommand,
+} from './commands/queue';
 
 const program = new Command();
 
@@ -31,6 +43,12 @@ program
   .option('-d, --dry-run', 'Show what would be done without making changes')
   .action(workCommand);
 
+program
+  .command('address-review <pr>')
+  .description('Re-run Claude on a PR branch to address new review comments, push and reply on the PR')
+  .option('-a, --all', 'Include review comments that were already addressed')
+  .action(addressReviewCommand);
+
 program
   .command('list-tickets')
   .alias('ls')
@@ -49,10 +67,32 @@ program
   .description('Show bot status and recent activity')
   .action(statusCommand);
 
+program
+  .command('history')
+  .description('Show past ticket runs')
+  .option('-t, --ticket <ticket>', 'Only show runs for this ticket')
+  .option('--since <when>', 'Only show runs since a date (2024-05-01) or duration (12h, 7d)')
+  .option('--failed', 'Only show failed runs')
+  .option('--json', 'Print runs as JSON')
+  .option('-n, --limit <count>', 'Maximum number of runs to show, 0 for all (default: 20)')
+  .action(historyCommand);
+
+program
+  .command('logs <ticket>')
+  .description('List recorded runs of a ticket and show their Claude transcripts')
+  .option('-r, --run <run>', 'Run id, or its number in the list (default: latest)')
+  .option('-t, --transcript', 'Print the transcript of the run')
+  .option('-f, --follow', 'Print the transcript as it grows until the run finishes')
+  .option('-p, --prompt', 'Print the prompt Claude was given')
+  .option('-d, --diff', 'Print the diff the run produced')
+  .option('--raw', 'Print the raw stream-json transcript')
+  .action(logsCommand);
+
 program
   .command('start')
   .description('Start the bot in daemon mode')
   .option('-i, --interval <seconds>', 'Poll interval in seconds (default: 300)')
+  .option('-a, --all', 'Run every project listed in the global config')
   .action(startCommand);
 
 program
@@ -71,11 +111,46 @@ program
     console.log('Bot daemon mode not yet implemented.');
   });
 
-program
+const queue = program
   .command('queue')
-  .description('Show the ticket queue')
-  .action(() => {
-    console.log('Queue management not yet implemented.');
-  });
+  .description('Inspect and manage the ticket queue');
+
+queue
+  .command('list', { isDefault: true })
+  .description('Show queued tickets with status, attempts and last error')
+  .option('-s, --status <status>', 'Filter by status (pending, in_progress, completed, failed, skipped)')
+  .option('-p, --project <key>', 'Filter by JIRA project key')
+  .action(queueListCommand);
+
+queue
+  .command('add <ticket>')
+  .description('Queue a ticket for the daemon, or re-queue a finished one')
+  .action(queueAddCommand);
+
+queue
+  .command('remove <ticket>')
+  .alias('rm')
+  .description('Forget a ticket; the daemon queues it again if it still matches')
+  .action(queueRemoveCommand);
+
+queue
+  .command('skip <ticket> [reason]')
+  .description('Mark a ticket skipped so the daemon does not work it')
+  .action(queueSkipCommand);
+
+queue
+  .command('retry <ticket>')
+  .description('Return a failed, skipped or completed ticket to pending')
+  .action(queueRetryCommand);
+
+queue
+  .command('pause')
+  .description('Stop the daemon from starting new tickets')
+  .action(queuePauseCommand);
+
+queue
+  .command('resume')
+  .description('Let the daemon start new tickets again')
+  .action(queueResumeCommand);
 
 program.parse();
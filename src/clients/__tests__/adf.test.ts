@@ -1,4 +1,4 @@
-import { adfToText, formatDescription } from '../adf';
+import { adfToText, formatDescription, findMentions } from '../adf';
 
 describe('adfToText', () => {
   describe('text node link marks', () => {
@@ -184,4 +184,26 @@ describe('adfToText', () => {
       expect(formatDescription(doc)).toContain('https://figma.com/x');
     });
   });
+
+  describe('findMentions', () => {
+    it('collects mentioned account ids from nested nodes', () => {
+      const doc = {
+        type: 'doc',
+        version: 1,
+        content: [
+          {
+            type: 'paragraph',
+            content: [
+              { type: 'mention', attrs: { id: 'abc-123', text: '@Bot' } },
+              { type: 'text', text: ' please look' },
+            ],
+          },
+          { type: 'bulletList', content: [{ type: 'listItem', content: [{ type: 'mention', attrs: { id: 'def-456' } }] }] },
+        ],
+      };
+
+      expect(findMentions(doc)).toEqual(['abc-123', 'def-456']);
+      expect(findMentions(null)).toEqual([]);
+    });
+  });
 });
@@ -0,0 +1,153 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { BitbucketClient } from '../bitbucket';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  body: any;
+  authorization?: string;
+}
+
+type Route = (request: RecordedRequest) => { status?: number; body: any };
+
+const REPO_PATH = '/repositories/acme/web';
+
+function pullRequest(overrides: Record<string, any> = {}) {
+  return {
+    id: 12,
+    title: 'PROJ-1: Fix the footer',
+    state: 'OPEN',
+    links: { html: { href: 'https://bitbucket.org/acme/web/pull-requests/12' } },
+    source: { branch: { name: 'feature/PROJ-1' }, commit: { hash: 'abc123def456' } },
+    ...overrides,
+  };
+}
+
+describe('BitbucketClient', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let routes: Record<string, Route>;
+  let requests: RecordedRequest[];
+  let client: BitbucketClient;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => { raw += chunk; });
+      req.on('end', () => {
+        const request: RecordedRequest = {
+          method: req.method || 'GET',
+          url: req.url || '',
+          body: raw ? JSON.parse(raw) : undefined,
+          authorization: req.headers.authorization,
+        };
+        requests.push(request);
+
+        const route = routes[`${request.method} ${request.url.split('?')[0]}`];
+        const response = route ? route(request) : { status: 404, body: { error: { message: 'Not found' } } };
+        res.writeHead(response.status || 200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(response.body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    routes = {};
+    requests = [];
+    client = new BitbucketClient({ username: 'bot', appPassword: 'secret', apiUrl: baseUrl }, 'acme/web', '/tmp');
+    jest.spyOn(client, 'getCurrentBranch').mockResolvedValue('feature/PROJ-1');
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  it('creates pull requests with reviewers using the app password', async () => {
+    routes[`POST ${REPO_PATH}/pullrequests`] = () => ({ status: 201, body: pullRequest() });
+
+    const pr = await client.createPullRequest('PROJ-1: Fix the footer', 'Body', 'develop', {
+      draft: true,
+      reviewers: ['557058:abc', '{d3f0-uuid}', 'acme/frontend'],
+    });
+
+    expect(pr).toEqual({
+      number: 12,
+      url: 'https://bitbucket.org/acme/web/pull-requests/12',
+      title: 'PROJ-1: Fix the footer',
+      state: 'OPEN',
+      headSha: 'abc123def456',
+      branchName: 'feature/PROJ-1',
+    });
+    expect(requests[0].authorization).toBe(`Basic ${Buffer.from('bot:secret').toString('base64')}`);
+    expect(requests[0].body).toMatchObject({
+      title: 'PROJ-1: Fix the footer',
+      description: 'Body',
+      source: { branch: { name: 'feature/PROJ-1' } },
+      destination: { branch: { name: 'develop' } },
+      draft: true,
+      reviewers: [{ account_id: '557058:abc' }, { uuid: '{d3f0-uuid}' }],
+    });
+  });
+
+  it('retries without reviewers when Bitbucket rejects them', async () => {
+    routes[`POST ${REPO_PATH}/pullrequests`] = (request) => (request.body.reviewers
+      ? { status: 400, body: { error: { message: 'unknown reviewer' } } }
+      : { status: 201, body: pullRequest() });
+
+    const pr = await client.createPullRequest('Title', 'Body', 'develop', { reviewers: ['nobody'] });
+
+    expect(pr.number).toBe(12);
+    expect(requests).toHaveLength(2);
+    expect(requests[1].body.reviewers).toBeUndefined();
+  });
+
+  it('maps declined pull requests to closed', async () => {
+    routes[`GET ${REPO_PATH}/pullrequests/12`] = () => ({ body: pullRequest({ state: 'DECLINED' }) });
+
+    expect((await client.getPullRequest(12)).state).toBe('CLOSED');
+  });
+
+  it('reads build statuses across pages and finds the preview deployment', async () => {
+    routes[`GET ${REPO_PATH}/pullrequests/12/statuses`] = (request) => (request.url.includes('page=2')
+      ? { body: { values: [
+        { key: 'vercel', name: 'Vercel Preview', state: 'SUCCESSFUL', url: 'https://web-git-proj-1.vercel.app' },
+      ] } }
+      : { body: {
+        values: [{ key: 'build', name: 'Pipeline #4', state: 'FAILED', url: 'https://ci/4' }],
+        next: `${baseUrl}${REPO_PATH}/pullrequests/12/statuses?page=2`,
+      } });
+
+    const checks = await client.getChecks(12);
+    expect(checks.map(c => [c.name, c.bucket])).toEqual([['Pipeline #4', 'fail'], ['Vercel Preview', 'pass']]);
+    expect(await client.getDeploymentUrl(12, 1)).toBe('https://web-git-proj-1.vercel.app');
+  });
+
+  it('reads and posts pull request comments', async () => {
+    routes[`GET ${REPO_PATH}/pullrequests/12/comments`] = () => ({ body: { values: [
+      {
+        id: 2,
+        content: { raw: 'Rename this' },
+        user: { display_name: 'Pat' },
+        created_on: '2024-05-01T10:05:00Z',
+        inline: { path: 'src/footer.ts', to: 14 },
+        links: { html: { href: 'https://bitbucket.org/c/2' } },
+      },
+      { id: 1, content: { raw: 'Looks good overall' }, user: { display_name: 'Sam' }, created_on: '2024-05-01T10:00:00Z' },
+      { id: 3, content: { raw: '' }, deleted: true, created_on: '2024-05-01T10:06:00Z' },
+    ] } });
+    routes[`POST ${REPO_PATH}/pullrequests/12/comments`] = () => ({ status: 201, body: {} });
+
+    const comments = await client.getReviewComments(12);
+    expect(comments.map(c => [c.id, c.kind, c.author, c.path, c.line])).toEqual([
+      [1, 'conversation', 'Sam', undefined, undefined],
+      [2, 'inline', 'Pat', 'src/footer.ts', 14],
+    ]);
+
+    await client.commentOnPullRequest(12, 'Addressed the feedback');
+    expect(requests[requests.length - 1].body).toEqual({ content: { raw: 'Addressed the feedback' } });
+  });
+});
@@ -0,0 +1,123 @@
+import { parseStreamLine, renderEvent, estimateCost } from '../claude-stream';
+
+function line(message: object): string {
+  return JSON.stringify(message);
+}
+
+describe('parseStreamLine', () => {
+  it('splits assistant messages into text and tool calls', () => {
+    const events = parseStreamLine(line({
+      type: 'assistant',
+      message: {
+        content: [
+          { type: 'text', text: 'Reading the footer first.' },
+          { type: 'tool_use', id: 'toolu_1', name: 'Read', input: { file_path: 'src/footer.tsx' } },
+        ],
+      },
+    }));
+
+    expect(events).toEqual([
+      { type: 'text', text: 'Reading the footer first.' },
+      { type: 'tool_use', id: 'toolu_1', name: 'Read', input: { file_path: 'src/footer.tsx' } },
+    ]);
+  });
+
+  it('reports token usage of assistant messages', () => {
+    const [usage] = parseStreamLine(line({
+      type: 'assistant',
+      message: {
+        id: 'msg_1',
+        model: 'claude-sonnet-4-5',
+        content: [],
+        usage: { input_tokens: 10, output_tokens: 20, cache_read_input_tokens: 1000, cache_creation_input_tokens: 0 },
+      },
+    }));
+
+    expect(usage).toEqual({
+      type: 'usage',
+      messageId: 'msg_1',
+      model: 'claude-sonnet-4-5',
+      usage: { inputTokens: 10, outputTokens: 20, cacheReadTokens: 1000, cacheCreationTokens: 0 },
+    });
+    expect(renderEvent(usage)).toBeNull();
+  });
+
+  it('reads tool results given as a string or as text blocks', () => {
+    const events = parseStreamLine(line({
+      type: 'user',
+      message: {
+        content: [
+          { type: 'tool_result', tool_use_id: 'toolu_1', content: 'export const Footer = ...' },
+          { type: 'tool_result', tool_use_id: 'toolu_2', content: [{ type: 'text', text: 'command not found' }], is_error: true },
+        ],
+      },
+    }));
+
+    expect(events).toEqual([
+      { type: 'tool_result', toolUseId: 'toolu_1', content: 'export const Footer = ...', isError: false },
+      { type: 'tool_result', toolUseId: 'toolu_2', content: 'command not found', isError: true },
+    ]);
+  });
+
+  it('reads the final summary and metrics from the result message', () => {
+    const [event] = parseStreamLine(line({
+      type: 'result',
+      subtype: 'success',
+      is_error: false,
+      result: 'Summary:\n- Made the footer sticky\n',
+      total_cost_usd: 0.4213,
+      num_turns: 12,
+      duration_ms: 95000,
+      session_id: 'abc',
+      usage: { input_tokens: 1200, output_tokens: 800 },
+    }));
+
+    expect(event).toEqual({
+      type: 'result',
+      success: true,
+      subtype: 'success',
+      summary: 'Summary:\n- Made the footer sticky',
+      metrics: {
+        costUsd: 0.4213,
+        numTurns: 12,
+        durationMs: 95000,
+        inputTokens: 1200,
+        outputTokens: 800,
+        sessionId: 'abc',
+      },
+    });
+    expect(renderEvent(event)).toBe('[claude] finished, 12 turns, $0.42');
+  });
+
+  it('marks runs that stopped early as unsuccessful', () => {
+    const [event] = parseStreamLine(line({ type: 'result', subtype: 'error_max_turns', is_error: true, num_turns: 50 }));
+
+    expect(event).toMatchObject({ type: 'result', success: false, subtype: 'error_max_turns' });
+  });
+
+  it('ignores blank lines, non-JSON output and unknown messages', () => {
+    expect(parseStreamLine('')).toEqual([]);
+    expect(parseStreamLine('Warning: something')).toEqual([]);
+    expect(parseStreamLine(line({ type: 'stream_event' }))).toEqual([]);
+  });
+});
+
+describe('renderEvent', () => {
+  it('shows tool calls with their target and hides successful tool output', () => {
+    expect(renderEvent({ type: 'tool_use', id: 't', name: 'Bash', input: { command: 'npm test\nnpm run lint' } }))
+      .toBe('→ Bash npm test');
+    expect(renderEvent({ type: 'tool_result', toolUseId: 't', content: 'ok', isError: false })).toBeNull();
+    expect(renderEvent({ type: 'tool_result', toolUseId: 't', content: 'boom', isError: true })).toBe('  ✗ boom');
+  });
+});
+
+describe('estimateCost', () => {
+  it('prices tokens by model family, cache reads at a discount', () => {
+    const usage = { inputTokens: 1_000_000, outputTokens: 100_000, cacheReadTokens: 1_000_000, cacheCreationTokens: 0 };
+
+    expect(estimateCost('claude-sonnet-4-5', usage)).toBeCloseTo(3 + 1.5 + 0.3);
+    expect(estimateCost('haiku', usage)).toBeCloseTo(1 + 0.5 + 0.1);
+    // Unknown models are priced like the most expensive one
+    expect(estimateCost(undefined, usage)).toBe(estimateCost('opus', usage));
+  });
+});
@@ -0,0 +1,225 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GitError, GitRepository, formatCommitMessage, runGit, validateBranchName } from '../git';
+
+describe('validateBranchName', () => {
+  it('accepts ordinary branch names', () => {
+    expect(validateBranchName('feature/PROJ-1')).toBeNull();
+    expect(validateBranchName('bugfix/proj-1-fix-the-footer')).toBeNull();
+  });
+
+  it('rejects names that break git ref rules or look like options', () => {
+    for (const name of [
+      '', '-f', '@', 'feature/a b', 'feature/$(rm)?', 'a..b', 'a@{1}', '/feature', 'feature/', 'a//b',
+      'feature.', 'feature/.hidden', 'feature/x.lock', 'a~1', 'a^', 'a:b', 'a\\b',
+    ]) {
+      expect(validateBranchName(name)).not.toBeNull();
+    }
+  });
+});
+
+describe('formatCommitMessage', () => {
+  it('fills in workflow.commitPattern', () => {
+    expect(formatCommitMessage('[{ticket_key}] {type}: {summary}', {
+      ticketKey: 'PROJ-1',
+      summary: 'Fix the\n footer',
+      type: 'Bug',
+    })).toBe('[PROJ-1] bug: Fix the footer');
+    expect(formatCommitMessage(undefined, { ticketKey: 'PROJ-1', summary: 'Address review feedback' }))
+      .toBe('PROJ-1: Address review feedback');
+  });
+});
+
+describe('GitRepository', () => {
+  let root: string;
+  let workDir: string;
+  let repo: GitRepository;
+
+  const git = (cwd: string, ...args: string[]) => runGit(args, cwd);
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'git-test-'));
+    const remote = path.join(root, 'remote.git');
+    workDir = path.join(root, 'work');
+    git(root, 'init', '--bare', '--initial-branch=develop', remote);
+    git(root, 'clone', remote, workDir);
+    git(workDir, 'config', 'user.email', 'bot@example.com');
+    git(workDir, 'config', 'user.name', 'Bot');
+    git(workDir, 'checkout', '-b', 'develop');
+    fs.writeFileSync(path.join(workDir, 'README.md'), 'hello\n');
+    git(workDir, 'add', '-A');
+    git(workDir, 'commit', '-m', 'Initial commit');
+    git(workDir, 'push', '-u', 'origin', 'develop');
+    repo = new GitRepository(workDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('commits messages with shell syntax verbatim', async () => {
+    fs.writeFileSync(path.join(workDir, 'a.txt'), 'a\n');
+    const message = 'PROJ-1: Use `$(touch pwned)` and "quotes"';
+
+    await repo.commitChanges(message);
+
+    expect(git(workDir, 'log', '-1', '--pretty=format:%s')).toBe(message);
+    expect(fs.existsSync(path.join(workDir, 'pwned'))).toBe(false);
+  });
+
+  it('reports nothing to commit as a typed error', async () => {
+    await expect(repo.commitChanges('PROJ-1: Nothing')).rejects.toMatchObject({
+      name: 'GitError',
+      kind: 'nothing_to_commit',
+    });
+  });
+
+  it('reports rejected pushes as a typed error', async () => {
+    await repo.createBranch('feature/PROJ-1', 'develop');
+    fs.writeFileSync(path.join(workDir, 'a.txt'), 'a\n');
+    await repo.commitChanges('PROJ-1: First');
+    await repo.pushBranch('feature/PROJ-1');
+
+    git(workDir, 'reset', '--hard', 'HEAD~1');
+    fs.writeFileSync(path.join(workDir, 'b.txt'), 'b\n');
+    await repo.commitChanges('PROJ-1: Diverged');
+
+    const error = await repo.pushBranch('feature/PROJ-1').catch(e => e);
+    expect(error).toBeInstanceOf(GitError);
+    expect(error.kind).toBe('push_rejected');
+  });
+
+  it('never deletes an existing branch when creating one', async () => {
+    await repo.createBranch('feature/PROJ-1', 'develop');
+    fs.writeFileSync(path.join(workDir, 'a.txt'), 'a\n');
+    await repo.commitChanges('PROJ-1: Human fix');
+    await repo.pushBranch('feature/PROJ-1');
+
+    await expect(repo.createBranch('feature/PROJ-1', 'develop')).rejects.toBeInstanceOf(GitError);
+    expect(await repo.getRemoteBranchExists('feature/PROJ-1')).toBe(true);
+    expect(git(workDir, 'log', '-1', '--pretty=format:%s', 'feature/PROJ-1')).toBe('PROJ-1: Human fix');
+  });
+
+  it('deletes branches locally and on the remote', async () => {
+    await repo.createBranch('feature/PROJ-1', 'develop');
+    await repo.pushBranch('feature/PROJ-1');
+    await repo.checkoutBranch('develop');
+
+    await repo.deleteBranch('feature/PROJ-1');
+
+    expect(await repo.getBranchExists('feature/PROJ-1')).toBe(false);
+    expect(await repo.getRemoteBranchExists('feature/PROJ-1')).toBe(false);
+  });
+
+  it('tells whether a remote branch was merged into the base branch', async () => {
+    await repo.createBranch('feature/PROJ-1', 'develop');
+    fs.writeFileSync(path.join(workDir, 'a.txt'), 'a\n');
+    await repo.commitChanges('PROJ-1: First');
+    await repo.pushBranch('feature/PROJ-1');
+    expect(await repo.isBranchMerged('feature/PROJ-1', 'develop')).toBe(false);
+
+    git(workDir, 'push', 'origin', 'feature/PROJ-1:develop');
+    expect(await repo.isBranchMerged('feature/PROJ-1', 'develop')).toBe(true);
+  });
+
+  it('keeps unpushed commits when checking out a remote branch', async () => {
+    await repo.createBranch('feature/PROJ-1', 'develop');
+    await repo.pushBranch('feature/PROJ-1');
+    fs.writeFileSync(path.join(workDir, 'a.txt'), 'a\n');
+    await repo.commitChanges('PROJ-1: Unpushed');
+    await repo.checkoutBranch('develop');
+
+    await repo.checkoutRemoteBranch('feature/PROJ-1');
+    expect(git(workDir, 'log', '-1', '--pretty=format:%s')).toBe('PROJ-1: Unpushed');
+
+    await repo.checkoutBranch('develop');
+    fs.writeFileSync(path.join(workDir, 'b.txt'), 'b\n');
+    await repo.commitChanges('PROJ-1: Pushed elsewhere');
+    git(workDir, 'push', 'origin', '+develop:feature/PROJ-1');
+    await expect(repo.checkoutRemoteBranch('feature/PROJ-1')).rejects.toThrow(/diverged/);
+    expect(git(workDir, 'log', '-1', '--pretty=format:%s', 'feature/PROJ-1')).toBe('PROJ-1: Unpushed');
+  });
+
+  it('never stages secrets, ticket files or configured paths', async () => {
+    repo.setNeverStage(['secrets/']);
+    fs.mkdirSync(path.join(workDir, 'secrets'));
+    fs.mkdirSync(path.join(workDir, '.jira-tickets', 'PROJ-1'), { recursive: true });
+    for (const file of ['app.ts', '.env.local', 'certs.pem', 'secrets/key.txt', '.jira-tickets/PROJ-1/ticket.md']) {
+      fs.writeFileSync(path.join(workDir, file), 'x\n');
+    }
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    await repo.commitChanges('PROJ-1: Add app');
+
+    expect(git(workDir, 'show', '--name-only', '--pretty=format:', 'HEAD').trim()).toBe('app.ts');
+    expect(fs.existsSync(path.join(workDir, '.env.local'))).toBe(true);
+  });
+
+  it('does not count never-stage paths as committable changes', async () => {
+    fs.writeFileSync(path.join(workDir, '.env.local'), 'TOKEN=x\n');
+    expect(await repo.hasCommittableChanges()).toBe(false);
+
+    fs.writeFileSync(path.join(workDir, 'a.txt'), 'a\n');
+    expect(await repo.hasCommittableChanges()).toBe(true);
+  });
+
+  it('reads quoted and renamed paths from the status', async () => {
+    fs.writeFileSync(path.join(workDir, '.env'), 'TOKEN=x\n');
+    git(workDir, 'add', '-f', '.env');
+    git(workDir, 'commit', '-q', '-m', 'Add config');
+    git(workDir, 'mv', '.env', 'settings.txt');
+    fs.writeFileSync(path.join(workDir, 'notes ü.txt'), 'x\n');
+
+    const status = await repo.getStatus();
+
+    expect(status.staged).toEqual(['settings.txt', '.env']);
+    expect(status.untracked).toEqual(['notes ü.txt']);
+  });
+
+  it('refuses to push commits that touch never-stage paths', async () => {
+    await repo.createBranch('feature/PROJ-1', 'develop');
+    fs.writeFileSync(path.join(workDir, '.env'), 'TOKEN=x\n');
+    git(workDir, 'add', '-A');
+    git(workDir, 'commit', '-m', 'PROJ-1: Add config');
+    git(workDir, 'rm', '-q', '.env');
+    git(workDir, 'commit', '-m', 'PROJ-1: Remove config');
+
+    await expect(repo.pushBranch('feature/PROJ-1', 'develop')).rejects.toMatchObject({ kind: 'never_staged' });
+    expect(await repo.getRemoteBranchExists('feature/PROJ-1')).toBe(false);
+  });
+
+  it('stashes local changes and restores them by name', async () => {
+    fs.writeFileSync(path.join(workDir, 'README.md'), 'edited\n');
+    fs.writeFileSync(path.join(workDir, 'notes.txt'), 'mine\n');
+
+    expect(await repo.stash('jira-claude-bot: before PROJ-1')).toBe(true);
+    expect((await repo.getStatus()).untracked).toEqual([]);
+    expect(await repo.stash('jira-claude-bot: before PROJ-2')).toBe(false);
+
+    await repo.restoreStash('jira-claude-bot: before PROJ-1');
+    expect(fs.readFileSync(path.join(workDir, 'README.md'), 'utf8')).toBe('edited\n');
+    expect(fs.existsSync(path.join(workDir, 'notes.txt'))).toBe(true);
+  });
+
+  it('detects an unfinished merge', async () => {
+    expect(await repo.getOperationInProgress()).toBeNull();
+
+    await repo.createBranch('feature/PROJ-1', 'develop');
+    fs.writeFileSync(path.join(workDir, 'README.md'), 'ours\n');
+    await repo.commitChanges('PROJ-1: Ours');
+    await repo.checkoutBranch('develop');
+    fs.writeFileSync(path.join(workDir, 'README.md'), 'theirs\n');
+    await repo.commitChanges('Theirs');
+    expect(() => git(workDir, 'merge', 'feature/PROJ-1')).toThrow(GitError);
+
+    expect(await repo.getOperationInProgress()).toBe('merge');
+  });
+
+  it('refuses invalid branch names before running git', async () => {
+    await expect(repo.createBranch('feature/$(touch pwned)', 'develop')).rejects.toMatchObject({
+      kind: 'invalid_branch',
+    });
+    expect(git(workDir, 'rev-parse', '--abbrev-ref', 'HEAD').trim()).toBe('develop');
+  });
+});
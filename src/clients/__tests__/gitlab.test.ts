@@ -0,0 +1,207 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { GitLabClient } from '../gitlab';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  body: any;
+  token?: string;
+}
+
+type Route = (request: RecordedRequest) => { status?: number; body: any; headers?: Record<string, string> };
+
+const PROJECT_PATH = '/api/v4/projects/acme%2Fplatform%2Fweb';
+
+function mergeRequest(overrides: Record<string, any> = {}) {
+  return {
+    iid: 7,
+    title: 'PROJ-1: Fix the footer',
+    state: 'opened',
+    web_url: 'https://gitlab.acme.com/acme/platform/web/-/merge_requests/7',
+    sha: 'abc123def456',
+    source_branch: 'feature/PROJ-1',
+    ...overrides,
+  };
+}
+
+describe('GitLabClient', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let routes: Record<string, Route>;
+  let requests: RecordedRequest[];
+  let client: GitLabClient;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => { raw += chunk; });
+      req.on('end', () => {
+        const request: RecordedRequest = {
+          method: req.method || 'GET',
+          url: req.url || '',
+          body: raw ? JSON.parse(raw) : undefined,
+          token: req.headers['private-token'] as string | undefined,
+        };
+        requests.push(request);
+
+        const route = routes[`${request.method} ${request.url.split('?')[0]}`];
+        const response = route ? route(request) : { status: 404, body: { message: '404 Not found' } };
+        res.writeHead(response.status || 200, { 'Content-Type': 'application/json', ...response.headers });
+        res.end(JSON.stringify(response.body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    routes = {};
+    requests = [];
+    client = new GitLabClient({ token: 'glpat-secret', url: `${baseUrl}/` }, 'acme/platform/web', '/tmp');
+    jest.spyOn(client, 'getCurrentBranch').mockResolvedValue('feature/PROJ-1');
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  it('opens draft merge requests with labels, reviewers and assignees', async () => {
+    routes['GET /api/v4/users'] = (request) => {
+      if (request.url.includes('username=pat')) return { body: [{ id: 41, username: 'pat' }] };
+      if (request.url.includes('username=locked')) return { status: 403, body: { message: '403 Forbidden' } };
+      return { body: [] };
+    };
+    routes[`POST ${PROJECT_PATH}/merge_requests`] = () => ({ status: 201, body: mergeRequest() });
+
+    const pr = await client.createPullRequest('PROJ-1: Fix the footer', 'Body', 'develop', {
+      draft: true,
+      labels: ['bot', 'frontend'],
+      reviewers: ['pat', 'ghost', 'locked', 'acme/frontend'],
+      assignees: ['pat'],
+    });
+
+    expect(pr).toEqual({
+      number: 7,
+      url: 'https://gitlab.acme.com/acme/platform/web/-/merge_requests/7',
+      title: 'PROJ-1: Fix the footer',
+      state: 'OPEN',
+      headSha: 'abc123def456',
+      branchName: 'feature/PROJ-1',
+    });
+    const create = requests.find(r => r.method === 'POST')!;
+    expect(create.token).toBe('glpat-secret');
+    expect(create.body).toMatchObject({
+      source_branch: 'feature/PROJ-1',
+      target_branch: 'develop',
+      title: 'Draft: PROJ-1: Fix the footer',
+      description: 'Body',
+      labels: 'bot,frontend',
+      reviewer_ids: [41],
+      assignee_ids: [41],
+    });
+  });
+
+  it('finds the open merge request for a branch', async () => {
+    routes[`GET ${PROJECT_PATH}/merge_requests`] = (request) => ({
+      body: request.url.includes('source_branch=feature%2FPROJ-1') ? [mergeRequest()] : [],
+    });
+
+    expect((await client.findOpenPullRequest('feature/PROJ-1'))?.number).toBe(7);
+    expect(await client.findOpenPullRequest('feature/PROJ-2')).toBeNull();
+    expect(requests[0].url).toContain('state=opened');
+  });
+
+  it('maps closed merge requests to closed and ones being merged to open', async () => {
+    routes[`GET ${PROJECT_PATH}/merge_requests/7`] = () => ({ body: mergeRequest({ state: 'closed' }) });
+    expect((await client.getPullRequest(7)).state).toBe('CLOSED');
+
+    routes[`GET ${PROJECT_PATH}/merge_requests/7`] = () => ({ body: mergeRequest({ state: 'locked' }) });
+    expect((await client.getPullRequest(7)).state).toBe('OPEN');
+  });
+
+  it('reads head pipeline jobs across pages', async () => {
+    routes[`GET ${PROJECT_PATH}/merge_requests/7`] = () => ({ body: mergeRequest({ head_pipeline: { id: 90 } }) });
+    routes[`GET ${PROJECT_PATH}/pipelines/90/jobs`] = (request) => (request.url.includes('page=2')
+      ? { body: [{ name: 'lint', status: 'failed', allow_failure: true, web_url: 'https://ci/3' }] }
+      : {
+        body: [
+          { name: 'build', status: 'success', web_url: 'https://ci/1' },
+          { name: 'test', status: 'running', web_url: 'https://ci/2' },
+        ],
+        headers: { 'x-next-page': '2' },
+      });
+
+    const checks = await client.getChecks(7);
+    expect(checks.map(c => [c.name, c.bucket])).toEqual([['build', 'pass'], ['test', 'pending'], ['lint', 'fail']]);
+
+    const required = await client.getRequiredChecks(7);
+    expect(required.map(c => c.name)).toEqual(['build', 'test']);
+  });
+
+  it('has no checks without a pipeline', async () => {
+    routes[`GET ${PROJECT_PATH}/merge_requests/7`] = () => ({ body: mergeRequest({ head_pipeline: null }) });
+
+    expect(await client.getChecks(7)).toEqual([]);
+  });
+
+  it('resolves the Review App URL for the source branch', async () => {
+    routes[`GET ${PROJECT_PATH}/merge_requests/7`] = () => ({ body: mergeRequest() });
+    routes[`GET ${PROJECT_PATH}/deployments`] = () => ({ body: [
+      { ref: 'develop', environment: { name: 'staging', external_url: 'https://staging.acme.com' } },
+      { ref: 'feature/PROJ-1', environment: { name: 'review/feature-proj-1', external_url: 'https://proj-1.review.acme.com' } },
+    ] });
+
+    expect(await client.getDeploymentUrl(7, 1)).toBe('https://proj-1.review.acme.com');
+  });
+
+  it('reads notes without system notes and posts comments', async () => {
+    routes[`GET ${PROJECT_PATH}/merge_requests/7`] = () => ({ body: mergeRequest() });
+    routes[`GET ${PROJECT_PATH}/merge_requests/7/notes`] = () => ({ body: [
+      { id: 1, body: 'Looks good overall', author: { username: 'sam' }, created_at: '2024-05-01T10:00:00Z' },
+      { id: 2, body: 'added 1 commit', system: true, author: { username: 'bot' }, created_at: '2024-05-01T10:01:00Z' },
+      {
+        id: 3,
+        type: 'DiffNote',
+        body: 'Rename this',
+        author: { username: 'pat' },
+        created_at: '2024-05-01T10:05:00Z',
+        position: { new_path: 'src/footer.ts', new_line: 14 },
+      },
+    ] });
+    routes[`POST ${PROJECT_PATH}/merge_requests/7/notes`] = () => ({ status: 201, body: {} });
+
+    const comments = await client.getReviewComments(7);
+    expect(comments.map(c => [c.id, c.kind, c.author, c.path, c.line])).toEqual([
+      [1, 'conversation', 'sam', undefined, undefined],
+      [3, 'inline', 'pat', 'src/footer.ts', 14],
+    ]);
+    expect(comments[1].url).toBe('https://gitlab.acme.com/acme/platform/web/-/merge_requests/7#note_3');
+
+    await client.commentOnPullRequest(7, 'Addressed the feedback');
+    expect(requests[requests.length - 1].body).toEqual({ body: 'Addressed the feedback' });
+  });
+
+  it('marks merge requests ready by dropping the draft prefix', async () => {
+    routes[`GET ${PROJECT_PATH}/merge_requests/7`] = () => ({ body: mergeRequest({ title: 'Draft: PROJ-1: Fix the footer' }) });
+    routes[`PUT ${PROJECT_PATH}/merge_requests/7`] = () => ({ body: mergeRequest() });
+
+    await client.markReady(7);
+    expect(requests[requests.length - 1].body).toEqual({ title: 'PROJ-1: Fix the footer' });
+  });
+
+  it('marks merge requests draft by adding the draft prefix once', async () => {
+    let title = 'PROJ-1: Fix the footer';
+    routes[`GET ${PROJECT_PATH}/merge_requests/7`] = () => ({ body: mergeRequest({ title }) });
+    routes[`PUT ${PROJECT_PATH}/merge_requests/7`] = () => ({ body: mergeRequest() });
+
+    await client.markDraft(7);
+    expect(requests[requests.length - 1].body).toEqual({ title: 'Draft: PROJ-1: Fix the footer' });
+
+    title = 'Draft: PROJ-1: Fix the footer';
+    const sent = requests.length;
+    await client.markDraft(7);
+    expect(requests.slice(sent).map(r => r.method)).toEqual(['GET']);
+  });
+});
@@ -16,6 +16,22 @@ export function formatDescription(description: any, options: AdfRenderOptions =
   return JSON.stringify(description, null, 2);
 }
 
+/**
+ * Account ids of everyone @mentioned in an ADF document.
+ */
+export function findMentions(node: any): string[] {
+  if (!node || typeof node !== 'object') return [];
+
+  const ids: string[] = [];
+  if (node.type === 'mention' && node.attrs?.id) {
+    ids.push(node.attrs.id);
+  }
+  for (const child of Array.isArray(node.content) ? node.content : []) {
+    ids.push(...findMentions(child));
+  }
+  return ids;
+}
+
 export function adfToText(content: any[], options: AdfRenderOptions = {}): string {
   if (!Array.isArray(content)) return '';
 
@@ -0,0 +1,223 @@
+import axios, { AxiosInstance } from 'axios';
+import { BitbucketConfig } from '../core/config';
+import { GitRepository } from './git';
+import { GitHost, PullRequest, PullRequestOptions, ReviewComment, CheckRun, CheckBucket } from './git-host';
+
+const DEFAULT_API_URL = 'https://api.bitbucket.org/2.0';
+
+// Build statuses that carry a preview deployment link
+const PREVIEW_STATUS = /preview|deploy|vercel|netlify/i;
+
+const CHECK_BUCKETS: Record<string, CheckBucket> = {
+  SUCCESSFUL: 'pass',
+  FAILED: 'fail',
+  INPROGRESS: 'pending',
+  STOPPED: 'cancel',
+};
+
+/**
+ * Bitbucket Cloud through its REST API, authenticated with an app password.
+ * Reviewers are account IDs or `{uuid}`s; Bitbucket has no labels, team
+ * reviewers or assignees on pull requests.
+ */
+export class BitbucketClient extends GitRepository implements GitHost {
+  readonly name = 'bitbucket';
+  private client: AxiosInstance;
+  private repo: string;
+
+  constructor(config: BitbucketConfig, repo: string, cwd: string = process.cwd()) {
+    super(cwd);
+    this.repo = repo;
+    const auth = Buffer.from(`${config.username}:${config.appPassword}`).toString('base64');
+
+    this.client = axios.create({
+      baseURL: config.apiUrl || DEFAULT_API_URL,
+      headers: {
+        'Authorization': `Basic ${auth}`,
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+
+  /**
+   * Fails unless the app password can read the repository.
+   */
+  async checkAccess(): Promise<void> {
+    await this.client.get(`/repositories/${this.repo}`);
+  }
+
+  async createPullRequest(
+    title: string,
+    body: string,
+    baseBranch: string = 'develop',
+    options: PullRequestOptions = {}
+  ): Promise<PullRequest> {
+    const request = {
+      title,
+      description: body,
+      source: { branch: { name: await this.getCurrentBranch() } },
+      destination: { branch: { name: baseBranch } },
+      draft: options.draft === true,
+      close_source_branch: true,
+    };
+
+    const reviewers = (options.reviewers || []).filter(r => !r.includes('/'));
+    if (reviewers.length < (options.reviewers || []).length) {
+      console.log('Warning: Bitbucket has no team reviewers, skipping them');
+    }
+    if (options.labels && options.labels.length > 0) {
+      console.log('Warning: Bitbucket pull requests have no labels, skipping them');
+    }
+    if (options.assignees && options.assignees.length > 0) {
+      console.log('Warning: Bitbucket pull requests have no assignees, skipping them');
+    }
+
+    let data: any;
+    try {
+      ({ data } = await this.client.post(this.path('pullrequests'), {
+        ...request,
+        reviewers: reviewers.map(r => (r.startsWith('{') ? { uuid: r } : { account_id: r })),
+      }));
+    } catch (error) {
+      // An unknown reviewer fails the whole request, so open the PR without them
+      if (reviewers.length === 0 || !axios.isAxiosError(error) || error.response?.status !== 400) {
+        throw error;
+      }
+      console.log(`Warning: Bitbucket rejected the reviewers (${errorDetail(error)}), creating the PR without them`);
+      ({ data } = await this.client.post(this.path('pullrequests'), request));
+    }
+
+    return mapPullRequest(data);
+  }
+
+  async getPullRequest(prNumber: number): Promise<PullRequest> {
+    const { data } = await this.client.get(this.path(`pullrequests/${prNumber}`));
+    return mapPullRequest(data);
+  }
+
+  async findOpenPullRequest(branchName: string): Promise<PullRequest | null> {
+    const { data } = await this.client.get(this.path('pullrequests'), {
+      params: { q: `source.branch.name="${branchName}" AND state="OPEN"`, pagelen: 1 },
+    });
+    const [pr] = data.values || [];
+    return pr ? mapPullRequest(pr) : null;
+  }
+
+  async getReviewComments(prNumber: number): Promise<ReviewComment[]> {
+    const comments = await this.getPaged(this.path(`pullrequests/${prNumber}/comments`));
+
+    return comments
+      .filter(c => !c.deleted)
+      .map((c): ReviewComment => ({
+        id: c.id,
+        kind: c.inline ? 'inline' : 'conversation',
+        author: c.user?.display_name || c.user?.nickname || 'unknown',
+        body: c.content?.raw || '',
+        createdAt: c.created_on,
+        url: c.links?.html?.href || '',
+        path: c.inline?.path,
+        line: c.inline ? (c.inline.to ?? c.inline.from ?? undefined) : undefined,
+        inReplyTo: c.parent?.id,
+      }))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async commentOnPullRequest(prNumber: number, body: string): Promise<void> {
+    await this.client.post(this.path(`pullrequests/${prNumber}/comments`), { content: { raw: body } });
+  }
+
+  /**
+   * Build statuses reported on the PR's head commit. Bitbucket does not say
+   * which are required, so `requiredOnly` makes no difference.
+   */
+  async getChecks(prNumber: number, _requiredOnly: boolean = false): Promise<CheckRun[]> {
+    const statuses = await this.getPaged(this.path(`pullrequests/${prNumber}/statuses`));
+    return statuses.map(s => ({
+      name: s.name || s.key,
+      state: s.state,
+      bucket: CHECK_BUCKETS[s.state] || 'pending',
+      link: s.url || '',
+    }));
+  }
+
+  async getRequiredChecks(prNumber: number): Promise<CheckRun[]> {
+    return this.getChecks(prNumber, true);
+  }
+
+  /**
+   * Poll the PR's build statuses for a successful preview deployment and
+   * return its link.
+   */
+  async getDeploymentUrl(prNumber: number, maxAttempts: number = 18): Promise<string | null> {
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      try {
+        const statuses = await this.getPaged(this.path(`pullrequests/${prNumber}/statuses`));
+        const preview = statuses.find(s =>
+          s.state === 'SUCCESSFUL' && s.url && PREVIEW_STATUS.test(`${s.key} ${s.name}`)
+        );
+        if (preview) {
+          return preview.url;
+        }
+      } catch {
+        // Statuses not reported yet
+      }
+
+      if (attempt < maxAttempts - 1) {
+        await this.sleep(5000);
+      }
+    }
+
+    return null;
+  }
+
+  async markReady(prNumber: number): Promise<void> {
+    const pr = await this.getPullRequest(prNumber);
+    await this.client.put(this.path(`pullrequests/${prNumber}`), { title: pr.title, draft: false });
+  }
+
+  async markDraft(prNumber: number): Promise<void> {
+    const pr = await this.getPullRequest(prNumber);
+    await this.client.put(this.path(`pullrequests/${prNumber}`), { title: pr.title, draft: true });
+  }
+
+  private path(endpoint: string): string {
+    return `/repositories/${this.repo}/${endpoint}`;
+  }
+
+  /**
+   * Every value of a paginated list, following `next` links.
+   */
+  private async getPaged(url: string): Promise<any[]> {
+    const values: any[] = [];
+    let next: string | undefined = url;
+    // `next` links already carry the query string
+    let params: Record<string, number> | undefined = { pagelen: 100 };
+    while (next) {
+      const response: { data: any } = await this.client.get(next, { params });
+      values.push(...(response.data.values || []));
+      next = response.data.next;
+      params = undefined;
+    }
+    return values;
+  }
+}
+
+function mapPullRequest(data: any): PullRequest {
+  const state = String(data.state || '').toUpperCase();
+  return {
+    number: data.id,
+    url: data.links?.html?.href || '',
+    title: data.title,
+    // Declined and superseded PRs are closed without merging
+    state: state === 'OPEN' || state === 'MERGED' ? state : 'CLOSED',
+    headSha: data.source?.commit?.hash || '',
+    branchName: data.source?.branch?.name,
+  };
+}
+
+function errorDetail(error: unknown): string {
+  if (axios.isAxiosError(error) && error.response?.data?.error?.message) {
+    return error.response.data.error.message;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,212 @@
+/**
+ * Typed view of `claude --print --output-format stream-json` output. The CLI
+ * writes one JSON message per line; assistant and user messages can carry
+ * several content blocks, so one line may become several events.
+ */
+
+export interface ClaudeMetrics {
+  costUsd?: number;
+  numTurns?: number;
+  durationMs?: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  sessionId?: string;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+}
+
+export type ClaudeStreamEvent =
+  | { type: 'init'; sessionId?: string; model?: string }
+  | { type: 'usage'; messageId?: string; model?: string; usage: TokenUsage }
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, any> }
+  | { type: 'tool_result'; toolUseId: string; content: string; isError: boolean }
+  | { type: 'result'; success: boolean; subtype: string; summary: string; metrics: ClaudeMetrics };
+
+export type ClaudeResultEvent = Extract<ClaudeStreamEvent, { type: 'result' }>;
+
+// Tool results are often whole files; only the start is worth showing
+const MAX_RESULT_PREVIEW = 200;
+
+// List prices in USD per million tokens, used to estimate spend while a run
+// is going. The final cost comes from the CLI's own result message.
+const PRICING: Array<{ match: string; input: number; output: number }> = [
+  { match: 'opus', input: 5, output: 25 },
+  { match: 'sonnet', input: 3, output: 15 },
+  { match: 'haiku', input: 1, output: 5 },
+];
+const CACHE_READ_RATE = 0.1;
+const CACHE_WRITE_RATE = 1.25;
+
+/**
+ * Events in one line of stream-json output. Blank lines and anything that is
+ * not a message the bot cares about yield no events.
+ */
+export function parseStreamLine(line: string): ClaudeStreamEvent[] {
+  const trimmed = line.trim();
+  if (!trimmed) return [];
+
+  let message: any;
+  try {
+    message = JSON.parse(trimmed);
+  } catch {
+    return [];
+  }
+  if (!message || typeof message !== 'object') return [];
+
+  switch (message.type) {
+    case 'system':
+      return message.subtype === 'init'
+        ? [{ type: 'init', sessionId: message.session_id, model: message.model }]
+        : [];
+
+    case 'assistant': {
+      const events: ClaudeStreamEvent[] = [];
+      const usage = message.message?.usage;
+      if (usage) {
+        events.push({
+          type: 'usage',
+          messageId: message.message.id,
+          model: message.message.model,
+          usage: {
+            inputTokens: usage.input_tokens || 0,
+            outputTokens: usage.output_tokens || 0,
+            cacheReadTokens: usage.cache_read_input_tokens || 0,
+            cacheCreationTokens: usage.cache_creation_input_tokens || 0,
+          },
+        });
+      }
+      for (const block of contentBlocks(message)) {
+        if (block.type === 'text' && block.text) {
+          events.push({ type: 'text', text: block.text });
+        } else if (block.type === 'tool_use') {
+          events.push({ type: 'tool_use', id: block.id, name: block.name, input: block.input || {} });
+        }
+      }
+      return events;
+    }
+
+    case 'user':
+      return contentBlocks(message)
+        .filter(block => block.type === 'tool_result')
+        .map((block): ClaudeStreamEvent => ({
+          type: 'tool_result',
+          toolUseId: block.tool_use_id,
+          content: toolResultText(block.content),
+          isError: block.is_error === true,
+        }));
+
+    case 'result':
+      return [{
+        type: 'result',
+        success: message.subtype === 'success' && message.is_error !== true,
+        subtype: message.subtype || 'unknown',
+        summary: typeof message.result === 'string' ? message.result.trim() : '',
+        metrics: {
+          costUsd: message.total_cost_usd ?? message.cost_usd,
+          numTurns: message.num_turns,
+          durationMs: message.duration_ms,
+          inputTokens: message.usage?.input_tokens,
+          outputTokens: message.usage?.output_tokens,
+          sessionId: message.session_id,
+        },
+      }];
+
+    default:
+      return [];
+  }
+}
+
+/**
+ * Human-readable rendering for the terminal, or null for events not worth
+ * showing.
+ */
+export function renderEvent(event: ClaudeStreamEvent): string | null {
+  switch (event.type) {
+    case 'init':
+      return event.model ? `[claude] session started (${event.model})` : null;
+
+    case 'usage':
+      return null;
+
+    case 'text':
+      return event.text;
+
+    case 'tool_use':
+      return `→ ${event.name}${describeToolInput(event.input)}`;
+
+    case 'tool_result': {
+      if (!event.isError) return null;
+      const preview = event.content.length > MAX_RESULT_PREVIEW
+        ? `${event.content.slice(0, MAX_RESULT_PREVIEW)}…`
+        : event.content;
+      return `  ✗ ${preview}`;
+    }
+
+    case 'result': {
+      const parts = [event.success ? '[claude] finished' : `[claude] stopped (${event.subtype})`];
+      if (event.metrics.numTurns !== undefined) parts.push(`${event.metrics.numTurns} turns`);
+      if (event.metrics.costUsd !== undefined) parts.push(`$${event.metrics.costUsd.toFixed(2)}`);
+      return parts.join(', ');
+    }
+  }
+}
+
+/**
+ * Estimated USD cost of the given usage at list prices. Unknown models are
+ * priced like the most expensive one so budget checks err on the safe side.
+ */
+export function estimateCost(model: string | undefined, usage: TokenUsage): number {
+  const name = (model || '').toLowerCase();
+  const price = PRICING.find(p => name.includes(p.match)) || PRICING[0];
+  const input = usage.inputTokens
+    + usage.cacheReadTokens * CACHE_READ_RATE
+    + usage.cacheCreationTokens * CACHE_WRITE_RATE;
+  return (input * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Totals of two runs, e.g. a pre-flight assessment and the implementation.
+ */
+export function addMetrics(a: ClaudeMetrics | undefined, b: ClaudeMetrics | undefined): ClaudeMetrics | undefined {
+  if (!a || !b) {
+    return a || b;
+  }
+  const add = (x?: number, y?: number) => (x === undefined && y === undefined ? undefined : (x || 0) + (y || 0));
+  return {
+    costUsd: add(a.costUsd, b.costUsd),
+    numTurns: add(a.numTurns, b.numTurns),
+    durationMs: add(a.durationMs, b.durationMs),
+    inputTokens: add(a.inputTokens, b.inputTokens),
+    outputTokens: add(a.outputTokens, b.outputTokens),
+    sessionId: b.sessionId || a.sessionId,
+  };
+}
+
+function contentBlocks(message: any): any[] {
+  const content = message.message?.content;
+  return Array.isArray(content) ? content.filter(block => block && typeof block === 'object') : [];
+}
+
+function toolResultText(content: any): string {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content
+      .map(part => (part?.type === 'text' ? part.text : ''))
+      .filter(Boolean)
+      .join('\n');
+  }
+  return '';
+}
+
+function describeToolInput(input: Record<string, any>): string {
+  const target = input.file_path || input.path || input.command || input.pattern || input.url;
+  if (typeof target !== 'string') return '';
+  const line = target.split('\n')[0];
+  return ` ${line.length > 80 ? `${line.slice(0, 80)}…` : line}`;
+}
@@ -1,33 +1,115 @@
 import { spawn, ChildProcess } from 'child_process';
+import * as readline from 'readline';
 import { ClaudeConfig } from '../core/config';
 import { JiraTicket } from './jira';
+import { ReviewComment } from './git-host';
 import { formatDescription } from './adf';
+import { formatCommitMessage } from './git';
+import { Logger, defaultLogger } from '../utils/logger';
+import {
+  ClaudeMetrics,
+  ClaudeResultEvent,
+  TokenUsage,
+  estimateCost,
+  parseStreamLine,
+  renderEvent,
+} from './claude-stream';
 
 export interface ClaudeResult {
   success: boolean;
   output: string;
   error?: string;
+  summary?: string;        // Claude's own closing summary of the run
+  metrics?: ClaudeMetrics;
 }
 
+/**
+ * Receives the exact prompt and every raw stream-json line of a headless run.
+ */
+export interface TranscriptSink {
+  prompt(prompt: string): void;
+  line(line: string): void;
+}
+
+export interface RunOptions {
+  transcript?: TranscriptSink;
+  // Stop the run once its estimated cost passes this many USD
+  maxCostUsd?: number;
+  // Only allow tools that read the repository
+  readOnly?: boolean;
+  // Where Claude's progress is printed (default: stdout without a prefix)
+  logger?: Logger;
+}
+
+export interface ReviewContext {
+  prNumber: number;
+  prUrl: string;
+  branchName: string;
+  ticketKey?: string;
+  ticketSummary?: string;
+  comments: ReviewComment[];
+}
+
+// Tools a read-only run may use, and the ones it must not
+const READ_ONLY_TOOLS = ['Read', 'Glob', 'Grep', 'LS'];
+const WRITE_TOOLS = ['Bash', 'Edit', 'MultiEdit', 'Write', 'NotebookEdit'];
+
 // Default timeout: 30 minutes (configure via claude.timeout in yaml, value in ms)
 const DEFAULT_TIMEOUT_MS = 30 * 60 * 1000;
 
 export class ClaudeClient {
   private config: ClaudeConfig;
+  // workflow.commitPattern, for the commit messages the prompts ask for
+  private commitPattern?: string;
 
-  constructor(config: ClaudeConfig) {
+  constructor(config: ClaudeConfig, commitPattern?: string) {
     this.config = config;
+    this.commitPattern = commitPattern;
   }
 
   async workTicket(
     ticket: JiraTicket,
     ticketUrl: string,
     workingDir: string,
-    additionalContext?: string
+    additionalContext?: string,
+    options: RunOptions = {}
   ): Promise<ClaudeResult> {
     const prompt = this.buildPrompt(ticket, ticketUrl, additionalContext);
 
-    return this.runClaude(prompt, workingDir);
+    return this.runClaude(prompt, workingDir, options);
+  }
+
+  /**
+   * Judge whether the ticket is clear enough to implement, without changing
+   * anything. Claude's final message holds the assessment as JSON.
+   */
+  async assessTicket(
+    ticket: JiraTicket,
+    ticketUrl: string,
+    workingDir: string,
+    options: RunOptions = {}
+  ): Promise<ClaudeResult> {
+    return this.runClaude(this.buildAssessmentPrompt(ticket, ticketUrl), workingDir, { ...options, readOnly: true });
+  }
+
+  /**
+   * Fix the project's verification commands after an implementation run.
+   * `failures` is the failing commands with the tail of their output.
+   */
+  async fixVerification(
+    ticket: JiraTicket,
+    failures: string,
+    workingDir: string,
+    options: RunOptions = {}
+  ): Promise<ClaudeResult> {
+    return this.runClaude(this.buildVerifyFixPrompt(ticket, failures), workingDir, options);
+  }
+
+  /**
+   * Address review feedback on a PR branch that is already checked out.
+   */
+  async addressReview(review: ReviewContext, workingDir: string, options: RunOptions = {}): Promise<ClaudeResult> {
+    return this.runClaude(this.buildReviewPrompt(review), workingDir, options);
   }
 
   buildContextPromptPublic(
@@ -80,9 +162,16 @@ export class ClaudeClient {
     });
   }
 
-  async runClaude(prompt: string, workingDir: string): Promise<ClaudeResult> {
+  async runClaude(prompt: string, workingDir: string, options: RunOptions = {}): Promise<ClaudeResult> {
+    const { transcript, maxCostUsd, readOnly } = options;
+    const logger = options.logger || defaultLogger;
+    transcript?.prompt(prompt);
+
     return new Promise((resolve) => {
-      const args = ['--print', '--dangerously-skip-permissions'];
+      const args = readOnly
+        ? ['--print', '--allowedTools', READ_ONLY_TOOLS.join(','), '--disallowedTools', WRITE_TOOLS.join(',')]
+        : ['--print', '--dangerously-skip-permissions'];
+      args.push('--output-format', 'stream-json', '--verbose');
 
       if (this.config.model) {
         args.push('--model', this.config.model);
@@ -96,17 +185,11 @@ export class ClaudeClient {
 
       const childProcess = spawn('claude', args, {
         cwd: workingDir,
-        stdio: 'inherit',  // Let Claude use the terminal directly
+        stdio: ['ignore', 'pipe', 'inherit'],
         env: { ...process.env },
       });
 
-      // Set up timeout
-      const timeoutMs = this.config.timeout || DEFAULT_TIMEOUT_MS;
-      const timeoutDisplay = timeoutMs >= 60000
-        ? `${Math.round(timeoutMs / 1000 / 60)} minutes`
-        : `${Math.round(timeoutMs / 1000)} seconds`;
-      const timeout = setTimeout(() => {
-        console.error(`\n\nClaude Code timed out after ${timeoutDisplay}. Killing process...`);
+      const kill = () => {
         childProcess.kill('SIGTERM');
         // Force kill after 5 seconds if still running
         setTimeout(() => {
@@ -114,20 +197,77 @@ export class ClaudeClient {
             childProcess.kill('SIGKILL');
           }
         }, 5000);
+      };
+
+      // Parse the stream and echo a readable version of it
+      const texts: string[] = [];
+      let final: ClaudeResultEvent | null = null;
+      // Latest usage per assistant message; a message spans several lines
+      const usage = new Map<string, { model?: string; usage: TokenUsage }>();
+      let estimatedCost = 0;
+      let overBudget = false;
+      const lines = readline.createInterface({ input: childProcess.stdout! });
+      lines.on('line', (line) => {
+        transcript?.line(line);
+        for (const event of parseStreamLine(line)) {
+          if (event.type === 'text') texts.push(event.text);
+          if (event.type === 'result') final = event;
+          if (event.type === 'usage') {
+            usage.set(event.messageId || `line-${usage.size}`, { model: event.model, usage: event.usage });
+            estimatedCost = [...usage.values()].reduce((sum, u) => sum + estimateCost(u.model || this.config.model, u.usage), 0);
+            if (maxCostUsd !== undefined && estimatedCost > maxCostUsd && !overBudget) {
+              overBudget = true;
+              logger.error(`Claude Code reached the budget cap ($${maxCostUsd.toFixed(2)}). Killing process...`);
+              kill();
+            }
+          }
+
+          const rendered = renderEvent(event);
+          if (rendered !== null) {
+            logger.output(rendered);
+          }
+        }
+      });
+      const linesClosed = new Promise<void>(done => lines.on('close', done));
+
+      // Set up timeout
+      const timeoutMs = this.config.timeout || DEFAULT_TIMEOUT_MS;
+      const timeoutDisplay = timeoutMs >= 60000
+        ? `${Math.round(timeoutMs / 1000 / 60)} minutes`
+        : `${Math.round(timeoutMs / 1000)} seconds`;
+      const timeout = setTimeout(() => {
+        logger.error(`Claude Code timed out after ${timeoutDisplay}. Killing process...`);
+        kill();
       }, timeoutMs);
 
-      childProcess.on('close', (code: number | null) => {
+      childProcess.on('close', async (code: number | null) => {
         clearTimeout(timeout);
-        if (code === 0) {
-          resolve({
-            success: true,
-            output: 'Claude completed successfully',
-          });
+        await linesClosed;
+
+        const result: ClaudeResultEvent | null = final;
+        const summary = result?.summary || texts[texts.length - 1]?.trim() || '';
+        // A killed run never reports its cost, so fall back to the estimate
+        const totals = [...usage.values()];
+        const metrics: ClaudeMetrics = {
+          ...result?.metrics,
+          inputTokens: result?.metrics.inputTokens ?? totals.reduce((sum, u) => sum + u.usage.inputTokens, 0),
+          outputTokens: result?.metrics.outputTokens ?? totals.reduce((sum, u) => sum + u.usage.outputTokens, 0),
+          costUsd: result?.metrics.costUsd ?? (totals.length > 0 ? estimatedCost : undefined),
+        };
+
+        if (code === 0 && !overBudget && (!result || result.success)) {
+          resolve({ success: true, output: summary, summary, metrics });
         } else {
           resolve({
             success: false,
-            output: '',
-            error: `Claude exited with code ${code}`,
+            output: summary,
+            error: overBudget
+              ? `Stopped at the budget cap of $${maxCostUsd!.toFixed(2)}`
+              : result && !result.success
+              ? `Claude stopped: ${result.subtype}`
+              : `Claude exited with code ${code}`,
+            summary,
+            metrics,
           });
         }
       });
@@ -242,7 +382,8 @@ ${additionalContext}
 1. Understand the requirements from the ticket description and any recent comments
 2. Make the necessary code changes
 3. Ensure TypeScript/lint checks pass
-4. Commit your changes with message: "${ticket.key}: [brief description]"
+4. Commit your changes with message: "${this.commitMessage(ticket.key, '[brief description]', ticket.type)}"
+5. End your final message with a "Summary:" line followed by a bullet list of the changes you made
 
 Do not create a PR - that will be handled separately.
 `;
@@ -250,6 +391,128 @@ Do not create a PR - that will be handled separately.
     return prompt;
   }
 
+  private buildAssessmentPrompt(ticket: JiraTicket, ticketUrl: string): string {
+    let prompt = `Assess whether JIRA ticket ${ticket.key} is ready to be implemented: ${ticket.summary}
+
+## Ticket Details
+- **Key**: ${ticket.key}
+- **Type**: ${ticket.type}
+- **Priority**: ${ticket.priority}
+- **URL**: ${ticketUrl}
+
+## Description
+${this.formatDescription(ticket.description, ticket.key)}
+
+`;
+
+    if (ticket.attachments.length > 0) {
+      prompt += `## Attachments
+${ticket.attachments.map(a => `- ${a.filename}`).join('\n')}
+
+`;
+    }
+
+    if (ticket.comments.length > 0) {
+      prompt += `## Recent Comments
+${ticket.comments.slice(-5).map(c => `**${c.author}** (${c.created}):\n${this.formatDescription(c.body, ticket.key)}`).join('\n\n')}
+
+`;
+    }
+
+    prompt += `## Task
+Look at the repository only as much as you need to judge the ticket. Do not change any files.
+
+Reply with a single JSON object and nothing else:
+{
+  "clarity": <1-5, where 1 means nobody could implement this and 5 means the expected behaviour is fully specified>,
+  "size": "<XS | S | M | L | XL>",
+  "missingInformation": ["<what the ticket does not say but an implementation needs>"],
+  "questions": ["<a question for the reporter that would fill the gap>"]
+}
+`;
+
+    return prompt;
+  }
+
+  private buildVerifyFixPrompt(ticket: JiraTicket, failures: string): string {
+    let prompt = `You implemented JIRA ticket ${ticket.key}: ${ticket.summary}
+
+The project's verification commands fail on the current branch:
+
+\`\`\`
+${failures}
+\`\`\`
+
+`;
+
+    if (this.config.instructions) {
+      prompt += `## Project Instructions
+${this.config.instructions}
+
+`;
+    }
+
+    prompt += `## Task
+1. Fix the code so these commands pass; fix the cause, do not skip or weaken checks or tests
+2. Run the failing commands again to confirm
+3. Commit your changes with message: "${this.commitMessage(ticket.key, 'Fix verification failures', ticket.type)}"
+`;
+
+    return prompt;
+  }
+
+  private buildReviewPrompt(review: ReviewContext): string {
+    const subject = review.ticketKey
+      ? `JIRA ticket ${review.ticketKey}${review.ticketSummary ? `: ${review.ticketSummary}` : ''}`
+      : `pull request #${review.prNumber}`;
+    const commitPrefix = review.ticketKey || `PR #${review.prNumber}`;
+
+    let prompt = `Address review feedback on pull request #${review.prNumber} (${review.prUrl}) for ${subject}.
+
+The branch ${review.branchName} is checked out and already contains the earlier implementation.
+
+## Review Comments
+`;
+
+    for (const comment of review.comments) {
+      if (comment.kind === 'inline') {
+        const location = comment.line ? `${comment.path}:${comment.line}` : comment.path;
+        prompt += `
+### ${location} (**${comment.author}**${comment.inReplyTo ? ', reply in thread' : ''})
+${comment.diffHunk ? `\`\`\`diff\n${comment.diffHunk}\n\`\`\`\n` : ''}${comment.body}
+`;
+      } else {
+        prompt += `
+### ${comment.kind === 'review' ? 'Review' : 'Comment'} from **${comment.author}**
+${comment.body}
+`;
+      }
+    }
+
+    if (this.config.instructions) {
+      prompt += `
+## Project Instructions
+${this.config.instructions}
+`;
+    }
+
+    prompt += `
+## Task
+1. Make the code changes the reviewers asked for
+2. If a comment is a question or needs no change, leave the code as it is
+3. Ensure TypeScript/lint checks pass
+4. Commit your changes with message: "${this.commitMessage(commitPrefix, 'Address review feedback')}"
+
+Do not push and do not comment on the PR - that will be handled separately.
+`;
+
+    return prompt;
+  }
+
+  private commitMessage(ticketKey: string, summary: string, type?: string): string {
+    return formatCommitMessage(this.commitPattern, { ticketKey, summary, type });
+  }
+
   private formatDescription(description: any, ticketKey?: string): string {
     return formatDescription(description, { ticketKey });
   }
@@ -0,0 +1,104 @@
+import { GlobalConfig, ProjectConfig } from '../core/config';
+import { GitRepository } from './git';
+import { GitHubClient } from './github';
+import { BitbucketClient } from './bitbucket';
+import { GitLabClient } from './gitlab';
+
+export interface PullRequest {
+  number: number;
+  url: string;
+  title: string;
+  state: string;  // OPEN, MERGED or CLOSED
+  headSha: string;
+  branchName?: string;
+}
+
+export type ReviewCommentKind = 'inline' | 'review' | 'conversation';
+
+export interface ReviewComment {
+  id: number;
+  kind: ReviewCommentKind;
+  author: string;
+  body: string;
+  createdAt: string;
+  url: string;
+  // Inline comments only
+  path?: string;
+  line?: number;
+  diffHunk?: string;
+  inReplyTo?: number;
+}
+
+export type CheckBucket = 'pass' | 'fail' | 'pending' | 'skipping' | 'cancel';
+
+export interface CheckRun {
+  name: string;
+  state: string;
+  bucket: CheckBucket;
+  link: string;
+}
+
+export interface PullRequestOptions {
+  draft?: boolean;
+  labels?: string[];
+  reviewers?: string[];  // logins, or org/team slugs for teams
+  assignees?: string[];
+}
+
+export type GitHostName = 'github' | 'bitbucket' | 'gitlab';
+
+/**
+ * The pull request side of a git host. Options a host has no equivalent
+ * for, such as labels on Bitbucket, are skipped with a warning.
+ */
+export interface GitHost {
+  readonly name: GitHostName;
+  createPullRequest(title: string, body: string, baseBranch: string, options?: PullRequestOptions): Promise<PullRequest>;
+  getPullRequest(prNumber: number): Promise<PullRequest>;
+  findOpenPullRequest(branchName: string): Promise<PullRequest | null>;
+  getReviewComments(prNumber: number): Promise<ReviewComment[]>;
+  commentOnPullRequest(prNumber: number, body: string): Promise<void>;
+  getChecks(prNumber: number, requiredOnly?: boolean): Promise<CheckRun[]>;
+  getRequiredChecks(prNumber: number): Promise<CheckRun[]>;
+  getDeploymentUrl(prNumber: number, maxAttempts?: number): Promise<string | null>;
+  markReady(prNumber: number): Promise<void>;
+  markDraft(prNumber: number): Promise<void>;
+}
+
+export type GitHostClient = GitRepository & GitHost;
+
+/**
+ * The client for the project's git host (`project.host`, default github),
+ * working in the given checkout with `workflow.neverStage` applied.
+ */
+export function createGitHost(
+  globalConfig: GlobalConfig,
+  projectConfig: ProjectConfig,
+  workingDir: string
+): GitHostClient {
+  const client = createClient(globalConfig, projectConfig, workingDir);
+  client.setNeverStage(projectConfig.workflow?.neverStage || []);
+  return client;
+}
+
+function createClient(
+  globalConfig: GlobalConfig,
+  projectConfig: ProjectConfig,
+  workingDir: string
+): GitHostClient {
+  const { host = 'github', repo } = projectConfig.project;
+  if (host === 'bitbucket') {
+    if (!globalConfig.bitbucket) {
+      throw new Error('BITBUCKET_USERNAME and BITBUCKET_APP_PASSWORD are required for Bitbucket projects');
+    }
+    return new BitbucketClient(globalConfig.bitbucket, repo, workingDir);
+  }
+  if (host === 'gitlab') {
+    if (!globalConfig.gitlab) {
+      throw new Error('GITLAB_TOKEN is required for GitLab projects');
+    }
+    const url = projectConfig.project.hostUrl || globalConfig.gitlab.url;
+    return new GitLabClient({ ...globalConfig.gitlab, url }, repo, workingDir);
+  }
+  return new GitHubClient(repo, workingDir);
+}
@@ -0,0 +1,492 @@
+import { execFile, execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { matchesAnyGlob } from '../utils/glob';
+
+export interface DiffFileStat {
+  path: string;
+  additions: number;
+  deletions: number;
+}
+
+export interface DiffStats {
+  files: DiffFileStat[];
+  fileCount: number;
+  linesAdded: number;
+  linesDeleted: number;
+  linesChanged: number;
+}
+
+// Paths that are never committed, whatever workflow.neverStage adds
+export const DEFAULT_NEVER_STAGE = ['.env*', '*.pem', '.jira-tickets/'];
+
+export type GitOperation = 'merge' | 'rebase' | 'cherry-pick' | 'revert' | 'bisect';
+
+// Files git leaves in the git dir while an operation is unfinished
+const OPERATION_MARKERS: [GitOperation, string][] = [
+  ['merge', 'MERGE_HEAD'],
+  ['rebase', 'rebase-merge'],
+  ['rebase', 'rebase-apply'],
+  ['cherry-pick', 'CHERRY_PICK_HEAD'],
+  ['revert', 'REVERT_HEAD'],
+  ['bisect', 'BISECT_LOG'],
+];
+
+/**
+ * What went wrong in a git command:
+ *   nothing_to_commit - `git commit` found no changes
+ *   push_rejected     - the remote refused the push (non-fast-forward, hooks, protected branch)
+ *   auth_failed       - the remote refused our credentials
+ *   invalid_branch    - the branch name breaks git's ref rules
+ *   never_staged      - commits about to be pushed touch never-stage paths
+ *   failed            - anything else
+ */
+export type GitErrorKind = 'nothing_to_commit' | 'push_rejected' | 'auth_failed' | 'invalid_branch' | 'never_staged' | 'failed';
+
+export class GitError extends Error {
+  readonly kind: GitErrorKind;
+  readonly args: string[];
+  readonly output: string;
+
+  constructor(message: string, kind: GitErrorKind, args: string[] = [], output: string = '') {
+    super(message);
+    this.name = 'GitError';
+    this.kind = kind;
+    this.args = args;
+    this.output = output;
+  }
+}
+
+const ERROR_PATTERNS: [GitErrorKind, RegExp][] = [
+  ['nothing_to_commit', /nothing to commit|nothing added to commit|no changes added to commit/i],
+  ['auth_failed', /authentication failed|permission denied \(publickey|could not read (username|password)|invalid username or password|terminal prompts disabled|returned error: 40[13]/i],
+  ['push_rejected', /\[(remote )?rejected\]|failed to push some refs|pre-receive hook declined|protected branch/i],
+];
+
+/**
+ * Run git with an argument list, never through a shell. Failures become a
+ * `GitError` whose kind is worked out from git's output.
+ */
+export function runGit(args: string[], cwd: string): string {
+  try {
+    return execFileSync('git', args, {
+      cwd,
+      encoding: 'utf8',
+      maxBuffer: 50 * 1024 * 1024,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    }).toString();
+  } catch (error) {
+    throw toGitError(args, error);
+  }
+}
+
+/**
+ * `runGit` without blocking the event loop, for slow commands such as
+ * fetches that run while other workers are busy.
+ */
+export function runGitAsync(args: string[], cwd: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile('git', args, { cwd, encoding: 'utf8', maxBuffer: 50 * 1024 * 1024 }, (error, stdout, stderr) => {
+      if (error) {
+        reject(toGitError(args, Object.assign(error, { stdout, stderr })));
+      } else {
+        resolve(stdout);
+      }
+    });
+  });
+}
+
+function toGitError(args: string[], error: unknown): GitError {
+  const { stdout, stderr } = error as { stdout?: string | Buffer; stderr?: string | Buffer };
+  const output = `${stderr || ''}\n${stdout || ''}`.trim();
+  const kind = ERROR_PATTERNS.find(([, pattern]) => pattern.test(output))?.[0] || 'failed';
+  const detail = output || (error instanceof Error ? error.message : String(error));
+  return new GitError(`git ${args[0]} failed: ${detail}`, kind, args, output);
+}
+
+/**
+ * Why the name can't be used as a branch (per `git check-ref-format`), or
+ * null when it can.
+ */
+export function validateBranchName(name: string): string | null {
+  if (!name) return 'branch name is empty';
+  if (name.startsWith('-')) return 'branch name starts with "-"';
+  if (name === '@') return 'branch name is "@"';
+  if (/[\x00-\x20\x7f~^:?*[\\]/.test(name)) return 'branch name contains a space, control character or one of ~^:?*[\\';
+  if (name.includes('..')) return 'branch name contains ".."';
+  if (name.includes('@{')) return 'branch name contains "@{"';
+  if (name.startsWith('/') || name.endsWith('/') || name.includes('//')) return 'branch name has an empty path component';
+  if (name.endsWith('.')) return 'branch name ends with "."';
+  for (const component of name.split('/')) {
+    if (component.startsWith('.')) return `"${component}" starts with "."`;
+    if (component.endsWith('.lock')) return `"${component}" ends with ".lock"`;
+  }
+  return null;
+}
+
+export const DEFAULT_COMMIT_PATTERN = '{ticket_key}: {summary}';
+
+/**
+ * A commit message from `workflow.commitPattern`. `{summary}` is what the
+ * commit does, the ticket summary for the main implementation commit.
+ */
+export function formatCommitMessage(
+  pattern: string | undefined,
+  values: { ticketKey: string; summary: string; type?: string }
+): string {
+  return (pattern || DEFAULT_COMMIT_PATTERN)
+    .replace(/{ticket_key}/g, values.ticketKey)
+    .replace(/{summary}/g, values.summary.replace(/\s+/g, ' ').trim())
+    .replace(/{type}/g, (values.type || '').toLowerCase())
+    .trim();
+}
+
+/**
+ * Git operations on the local checkout. Shared by every git host client,
+ * which add the pull request side on top.
+ */
+export class GitRepository {
+  protected cwd: string;
+  private neverStage: string[] = DEFAULT_NEVER_STAGE;
+
+  constructor(cwd: string = process.cwd()) {
+    this.cwd = cwd;
+  }
+
+  /**
+   * Globs (on top of the defaults) that `commitChanges` never stages.
+   */
+  setNeverStage(patterns: string[]): void {
+    this.neverStage = [...DEFAULT_NEVER_STAGE, ...patterns];
+  }
+
+  isNeverStaged(file: string): boolean {
+    return matchesAnyGlob(file, this.neverStage);
+  }
+
+  /**
+   * Whether the working tree has changes outside the never-stage paths.
+   */
+  async hasCommittableChanges(): Promise<boolean> {
+    const status = await this.getStatus();
+    return [...status.staged, ...status.unstaged, ...status.untracked].some(f => !this.isNeverStaged(f));
+  }
+
+  async createBranch(branchName: string, baseBranch: string = 'develop'): Promise<void> {
+    this.checkBranchName(branchName);
+    this.checkBranchName(baseBranch);
+    this.git('checkout', baseBranch);
+    this.git('pull', 'origin', baseBranch);
+    this.git('checkout', '-b', branchName);
+  }
+
+  /**
+   * Create the branch straight from the remote base branch without checking
+   * the base out locally. Used in worktrees, where the base branch is usually
+   * already checked out by the main working tree.
+   */
+  async createBranchFromRemote(branchName: string, baseBranch: string = 'develop'): Promise<void> {
+    this.checkBranchName(branchName);
+    this.checkBranchName(baseBranch);
+    this.git('fetch', 'origin', baseBranch);
+    this.git('checkout', '-b', branchName, `origin/${baseBranch}`);
+  }
+
+  /**
+   * Delete the branch locally and on the remote. The host closes any pull
+   * request open for it.
+   */
+  async deleteBranch(branchName: string): Promise<void> {
+    this.checkBranchName(branchName);
+    if (await this.getBranchExists(branchName)) {
+      this.git('branch', '-D', branchName);
+    }
+    if (await this.getRemoteBranchExists(branchName)) {
+      this.git('push', 'origin', '--delete', branchName);
+    }
+  }
+
+  /**
+   * Stage the given files (everything by default) and commit them, leaving
+   * never-stage paths out. Throws a `GitError` of kind `nothing_to_commit`
+   * when there was nothing to stage.
+   */
+  async commitChanges(message: string, files?: string[]): Promise<void> {
+    if (files && files.length > 0) {
+      this.git('add', '--', ...files);
+    } else {
+      this.git('add', '-A');
+    }
+
+    const denied = this.git('diff', '--cached', '--name-only', '-z')
+      .split('\0')
+      .filter(f => f && this.isNeverStaged(f));
+    if (denied.length > 0) {
+      console.log(`Warning: leaving never-stage paths out of the commit: ${denied.join(', ')}`);
+      this.git('reset', '-q', '--', ...denied);
+    }
+
+    this.git('commit', '-m', message);
+  }
+
+  /**
+   * Stash tracked and untracked changes under the given message. Returns
+   * false when there was nothing to stash.
+   */
+  async stash(message: string): Promise<boolean> {
+    const output = this.git('stash', 'push', '--include-untracked', '-m', message);
+    return !/no local changes to save/i.test(output);
+  }
+
+  /**
+   * Re-apply and drop the stash saved under the given message. A conflicting
+   * pop throws and leaves the stash in place.
+   */
+  async restoreStash(message: string): Promise<void> {
+    const entry = this.git('stash', 'list', '--format=%gd %gs')
+      .split('\n')
+      .find(line => line.endsWith(`: ${message}`));
+    if (!entry) {
+      throw new GitError(`No stash named "${message}"`, 'failed');
+    }
+    this.git('stash', 'pop', entry.split(' ')[0]);
+  }
+
+  /**
+   * A merge, rebase or similar left unfinished in the working tree, if any.
+   */
+  async getOperationInProgress(): Promise<GitOperation | null> {
+    for (const [operation, marker] of OPERATION_MARKERS) {
+      const markerPath = this.git('rev-parse', '--git-path', marker).trim();
+      if (fs.existsSync(path.resolve(this.cwd, markerPath))) {
+        return operation;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Push the branch. With `since`, refuses (a `GitError` of kind
+   * `never_staged`) when any commit after that ref touches a never-stage
+   * path, since `commitChanges` only guards the commits it makes itself.
+   */
+  async pushBranch(branchName: string, since?: string): Promise<void> {
+    this.checkBranchName(branchName);
+    if (since) {
+      const denied = await this.getNeverStagedCommits(since);
+      if (denied.length > 0) {
+        throw new GitError(
+          `Refusing to push ${branchName}: commits touch never-stage paths (${denied.join(', ')})`,
+          'never_staged'
+        );
+      }
+    }
+    this.git('push', '-u', 'origin', branchName);
+  }
+
+  /**
+   * Never-stage paths added, changed or deleted by any commit after `since`.
+   */
+  async getNeverStagedCommits(since: string): Promise<string[]> {
+    const files = this.git('log', '--format=', '--name-only', '--no-renames', '-z', `${since}..HEAD`)
+      .split('\0')
+      .map(f => f.trim())
+      .filter(f => f && this.isNeverStaged(f));
+    return [...new Set(files)];
+  }
+
+  /**
+   * Check out an existing remote branch, keeping its history. A local copy
+   * that is behind is fast-forwarded and one that is ahead keeps its
+   * unpushed commits; one that has diverged from the remote is refused
+   * rather than thrown away.
+   */
+  async checkoutRemoteBranch(branchName: string): Promise<void> {
+    this.checkBranchName(branchName);
+    this.git('fetch', 'origin', branchName);
+    const remoteRef = `origin/${branchName}`;
+
+    if (!await this.getBranchExists(branchName) || this.isAncestor(branchName, remoteRef)) {
+      this.git('checkout', '-B', branchName, remoteRef);
+    } else if (this.isAncestor(remoteRef, branchName)) {
+      this.git('checkout', branchName);
+    } else {
+      throw new GitError(
+        `Local branch ${branchName} has diverged from ${remoteRef}; push or delete the local commits first`,
+        'failed'
+      );
+    }
+  }
+
+  async getHeadSha(): Promise<string> {
+    return this.git('rev-parse', 'HEAD').trim();
+  }
+
+  async getCurrentBranch(): Promise<string> {
+    return this.git('rev-parse', '--abbrev-ref', 'HEAD').trim();
+  }
+
+  async checkoutBranch(branchName: string): Promise<void> {
+    this.checkBranchName(branchName);
+    this.git('checkout', branchName);
+  }
+
+  async detachHead(): Promise<void> {
+    this.git('checkout', '--detach');
+  }
+
+  async deleteLocalBranch(branchName: string): Promise<void> {
+    this.checkBranchName(branchName);
+    this.git('branch', '-D', branchName);
+  }
+
+  async getBranchExists(branchName: string): Promise<boolean> {
+    try {
+      this.git('rev-parse', '--verify', '--quiet', `refs/heads/${branchName}`);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async getRemoteBranchExists(branchName: string): Promise<boolean> {
+    this.checkBranchName(branchName);
+    return this.git('ls-remote', '--heads', 'origin', `refs/heads/${branchName}`).trim().length > 0;
+  }
+
+  /**
+   * Whether the remote branch is contained in the remote base branch.
+   * Squash and rebase merges are not recognised.
+   */
+  async isBranchMerged(branchName: string, baseBranch: string): Promise<boolean> {
+    this.checkBranchName(branchName);
+    this.checkBranchName(baseBranch);
+    this.git('fetch', 'origin', branchName, baseBranch);
+    return this.isAncestor(`origin/${branchName}`, `origin/${baseBranch}`);
+  }
+
+  async hasNewCommits(baseBranch: string): Promise<boolean> {
+    try {
+      // Check if current branch has commits that aren't in base branch
+      const result = this.git('log', `${baseBranch}..HEAD`, '--oneline');
+      return result.trim().length > 0;
+    } catch {
+      return false;
+    }
+  }
+
+  async getCommitSummary(baseBranch: string): Promise<string> {
+    try {
+      // Get commit messages
+      const commits = this.git('log', `${baseBranch}..HEAD`, '--pretty=format:- %s').trim();
+
+      // Get changed files with stats
+      const files = this.git('diff', `${baseBranch}..HEAD`, '--stat', '--stat-width=60').trim();
+
+      let summary = '';
+
+      if (commits) {
+        summary += `**Commits:**\n${commits}\n\n`;
+      }
+
+      if (files) {
+        summary += `**Files changed:**\n\`\`\`\n${files}\n\`\`\``;
+      }
+
+      return summary || '- See PR for details';
+    } catch {
+      return '- See PR for details';
+    }
+  }
+
+  /**
+   * Full patch of this branch since it left the base branch.
+   */
+  async getDiff(baseBranch: string): Promise<string> {
+    return this.git('diff', `${baseBranch}...HEAD`);
+  }
+
+  async getDiffStats(baseBranch: string): Promise<DiffStats> {
+    // Three dots: changes on this branch since it left the base branch
+    const result = this.git('diff', '--numstat', `${baseBranch}...HEAD`);
+    const files = result
+      .split('\n')
+      .filter(l => l.trim())
+      .map(line => {
+        const [added, deleted, ...rest] = line.split('\t');
+        // Binary files report "-" for both counts
+        return {
+          path: rest.join('\t'),
+          additions: added === '-' ? 0 : parseInt(added, 10),
+          deletions: deleted === '-' ? 0 : parseInt(deleted, 10),
+        };
+      });
+
+    const linesAdded = files.reduce((sum, f) => sum + f.additions, 0);
+    const linesDeleted = files.reduce((sum, f) => sum + f.deletions, 0);
+
+    return {
+      files,
+      fileCount: files.length,
+      linesAdded,
+      linesDeleted,
+      linesChanged: linesAdded + linesDeleted,
+    };
+  }
+
+  async getStatus(): Promise<{ staged: string[]; unstaged: string[]; untracked: string[] }> {
+    // -z keeps paths unquoted and puts a rename's original path in its own record
+    const records = this.git('status', '--porcelain', '-z').split('\0');
+
+    const staged: string[] = [];
+    const unstaged: string[] = [];
+    const untracked: string[] = [];
+
+    for (let i = 0; i < records.length; i++) {
+      const record = records[i];
+      if (!record) {
+        continue;
+      }
+      const status = record.substring(0, 2);
+      const file = record.substring(3);
+      // A rename also changes the path it came from; a copy leaves it alone
+      const original = /[RC]/.test(status) ? records[++i] : undefined;
+      const files = original && status.includes('R') ? [file, original] : [file];
+
+      if (status.startsWith('?')) {
+        untracked.push(file);
+      } else if (status[0] !== ' ') {
+        staged.push(...files);
+      }
+      if (status[1] !== ' ' && status[1] !== '?') {
+        unstaged.push(...files);
+      }
+    }
+
+    return { staged, unstaged, untracked };
+  }
+
+  protected git(...args: string[]): string {
+    return runGit(args, this.cwd);
+  }
+
+  private isAncestor(ancestor: string, ref: string): boolean {
+    try {
+      this.git('merge-base', '--is-ancestor', ancestor, ref);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private checkBranchName(branchName: string): void {
+    const problem = validateBranchName(branchName);
+    if (problem) {
+      throw new GitError(`Invalid branch "${branchName}": ${problem}`, 'invalid_branch');
+    }
+  }
+
+  protected sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
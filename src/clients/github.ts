@@ -1,15 +1,9 @@
-import { execSync, spawn } from 'child_process';
+import { execSync } from 'child_process';
 import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
-
-export interface PullRequest {
-  number: number;
-  url: string;
-  title: string;
-  state: string;
-  headSha: string;
-}
+import { GitRepository } from './git';
+import { GitHost, PullRequest, PullRequestOptions, ReviewComment, CheckRun } from './git-host';
 
 export interface Deployment {
   id: number;
@@ -18,63 +12,33 @@ export interface Deployment {
   state: string;
 }
 
-export class GitHubClient {
+/**
+ * GitHub through the `gh` CLI, which must be installed and authenticated.
+ */
+export class GitHubClient extends GitRepository implements GitHost {
+  readonly name = 'github';
   private repo: string;
 
-  constructor(repo: string) {
+  constructor(repo: string, cwd: string = process.cwd()) {
+    super(cwd);
     this.repo = repo;
   }
 
-  async createBranch(branchName: string, baseBranch: string = 'develop'): Promise<void> {
-    this.exec(`git checkout ${baseBranch}`);
-    this.exec(`git pull origin ${baseBranch}`);
-
-    // Check if branch already exists locally
-    const branchExists = await this.getBranchExists(branchName);
-    if (branchExists) {
-      // Delete the existing branch and start fresh
-      this.exec(`git branch -D ${branchName}`);
-    }
-
-    // Also check for remote branch and delete if exists
-    try {
-      this.exec(`git push origin --delete ${branchName}`);
-    } catch {
-      // Remote branch doesn't exist, that's fine
-    }
-
-    this.exec(`git checkout -b ${branchName}`);
-  }
-
-  async commitChanges(message: string, files?: string[]): Promise<void> {
-    if (files && files.length > 0) {
-      this.exec(`git add ${files.join(' ')}`);
-    } else {
-      this.exec('git add -A');
-    }
-
-    // Use heredoc for commit message to handle special characters
-    const commitCmd = `git commit -m "${message.replace(/"/g, '\\"')}"`;
-    this.exec(commitCmd);
-  }
-
-  async pushBranch(branchName: string): Promise<void> {
-    this.exec(`git push -u origin ${branchName}`);
-  }
-
   async createPullRequest(
     title: string,
     body: string,
-    baseBranch: string = 'develop'
+    baseBranch: string = 'develop',
+    options: PullRequestOptions = {}
   ): Promise<PullRequest> {
     const escapedTitle = title.replace(/"/g, '\\"');
+    const draftFlag = options.draft ? ' --draft' : '';
     const bodyFile = path.join(os.tmpdir(), `gh-pr-body-${Date.now()}-${process.pid}.md`);
     fs.writeFileSync(bodyFile, body, 'utf8');
 
     let result: string;
     try {
       result = this.exec(
-        `gh pr create --base ${baseBranch} --title "${escapedTitle}" --body-file "${bodyFile}"`
+        `gh pr create --base ${baseBranch} --title "${escapedTitle}" --body-file "${bodyFile}"${draftFlag}`
       );
     } finally {
       try { fs.unlinkSync(bodyFile); } catch { /* best-effort cleanup */ }
@@ -85,9 +49,33 @@ export class GitHubClient {
     if (urlMatch) {
       const prNumber = parseInt(urlMatch[0].split('/').pop() || '0');
 
+      if (options.labels && options.labels.length > 0) {
+        try {
+          await this.addLabels(prNumber, options.labels);
+        } catch (error) {
+          console.log(`Warning: Failed to label PR #${prNumber}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+
+      if (options.reviewers && options.reviewers.length > 0) {
+        try {
+          await this.requestReviewers(prNumber, options.reviewers);
+        } catch (error) {
+          console.log(`Warning: Failed to request reviewers on PR #${prNumber}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+
+      if (options.assignees && options.assignees.length > 0) {
+        try {
+          await this.addAssignees(prNumber, options.assignees);
+        } catch (error) {
+          console.log(`Warning: Failed to assign PR #${prNumber}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+
       // Get full PR details
       try {
-        const prDetails = this.exec(`gh pr view ${prNumber} --json number,url,title,state,headRefOid`);
+        const prDetails = this.exec(`gh pr view ${prNumber} --json number,url,title,state,headRefOid,headRefName`);
         const pr = JSON.parse(prDetails);
         return {
           number: pr.number,
@@ -95,6 +83,7 @@ export class GitHubClient {
           title: pr.title,
           state: pr.state,
           headSha: pr.headRefOid,
+          branchName: pr.headRefName,
         };
       } catch {
         return {
@@ -110,9 +99,46 @@ export class GitHubClient {
     throw new Error(`Failed to create PR: ${result}`);
   }
 
+  async addLabels(prNumber: number, labels: string[]): Promise<void> {
+    for (const label of labels) {
+      const escapedLabel = label.replace(/"/g, '\\"');
+      try {
+        this.exec(`gh pr edit ${prNumber} --add-label "${escapedLabel}"`);
+      } catch {
+        // gh refuses labels that don't exist yet, so create it and try once more
+        this.exec(`gh label create "${escapedLabel}"`);
+        this.exec(`gh pr edit ${prNumber} --add-label "${escapedLabel}"`);
+      }
+    }
+  }
+
+  async requestReviewers(prNumber: number, reviewers: string[]): Promise<void> {
+    const list = reviewers.map(r => r.replace(/"/g, '\\"')).join(',');
+    this.exec(`gh pr edit ${prNumber} --add-reviewer "${list}"`);
+  }
+
+  async addAssignees(prNumber: number, assignees: string[]): Promise<void> {
+    const list = assignees.map(a => a.replace(/"/g, '\\"')).join(',');
+    this.exec(`gh pr edit ${prNumber} --add-assignee "${list}"`);
+  }
+
+  /**
+   * Take a PR out of draft.
+   */
+  async markReady(prNumber: number): Promise<void> {
+    this.exec(`gh pr ready ${prNumber}`);
+  }
+
+  /**
+   * Put a PR back into draft.
+   */
+  async markDraft(prNumber: number): Promise<void> {
+    this.exec(`gh pr ready ${prNumber} --undo`);
+  }
+
   async getPullRequest(prNumber: number): Promise<PullRequest> {
     const result = this.exec(
-      `gh pr view ${prNumber} --json number,url,title,state,headRefOid`
+      `gh pr view ${prNumber} --json number,url,title,state,headRefOid,headRefName`
     );
 
     const pr = JSON.parse(result);
@@ -122,9 +148,103 @@ export class GitHubClient {
       title: pr.title,
       state: pr.state,
       headSha: pr.headRefOid,
+      branchName: pr.headRefName,
     };
   }
 
+  async findOpenPullRequest(branchName: string): Promise<PullRequest | null> {
+    const result = this.exec(
+      `gh pr list --head "${branchName}" --state open --limit 1 --json number,url,title,state,headRefOid,headRefName`
+    );
+
+    const [pr] = JSON.parse(result || '[]');
+    if (!pr) {
+      return null;
+    }
+    return {
+      number: pr.number,
+      url: pr.url,
+      title: pr.title,
+      state: pr.state,
+      headSha: pr.headRefOid,
+      branchName: pr.headRefName,
+    };
+  }
+
+  /**
+   * Everything reviewers said on a PR: inline comments, review summaries and
+   * conversation comments, oldest first. Comments from bot accounts (CI,
+   * deployment previews) are left out.
+   */
+  async getReviewComments(prNumber: number): Promise<ReviewComment[]> {
+    const inline = this.apiLines(
+      `repos/${this.repo}/pulls/${prNumber}/comments`,
+      '.[] | {id, body, path, line: (.line // .original_line), diffHunk: .diff_hunk, inReplyTo: .in_reply_to_id, ' +
+      'author: .user.login, bot: (.user.type == \\"Bot\\"), createdAt: .created_at, url: .html_url}'
+    ).map(c => ({ ...c, kind: 'inline' as const }));
+
+    const reviews = this.apiLines(
+      `repos/${this.repo}/pulls/${prNumber}/reviews`,
+      '.[] | select(.body | length > 0) | {id, body, ' +
+      'author: .user.login, bot: (.user.type == \\"Bot\\"), createdAt: .submitted_at, url: .html_url}'
+    ).map(c => ({ ...c, kind: 'review' as const }));
+
+    const conversation = this.apiLines(
+      `repos/${this.repo}/issues/${prNumber}/comments`,
+      '.[] | {id, body, ' +
+      'author: .user.login, bot: (.user.type == \\"Bot\\"), createdAt: .created_at, url: .html_url}'
+    ).map(c => ({ ...c, kind: 'conversation' as const }));
+
+    return [...inline, ...reviews, ...conversation]
+      .filter(c => !c.bot)
+      .map(({ bot, ...comment }) => ({
+        ...comment,
+        line: comment.line ?? undefined,
+        inReplyTo: comment.inReplyTo ?? undefined,
+      }))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async commentOnPullRequest(prNumber: number, body: string): Promise<void> {
+    const bodyFile = path.join(os.tmpdir(), `gh-pr-comment-${Date.now()}-${process.pid}.md`);
+    fs.writeFileSync(bodyFile, body, 'utf8');
+    try {
+      this.exec(`gh pr comment ${prNumber} --body-file "${bodyFile}"`);
+    } finally {
+      try { fs.unlinkSync(bodyFile); } catch { /* best-effort cleanup */ }
+    }
+  }
+
+  /**
+   * Required status checks on a PR. Empty when the base branch requires none.
+   */
+  async getRequiredChecks(prNumber: number): Promise<CheckRun[]> {
+    return this.getChecks(prNumber, true);
+  }
+
+  /**
+   * Status checks on a PR, all of them unless `requiredOnly`. Empty when
+   * there are none.
+   */
+  async getChecks(prNumber: number, requiredOnly: boolean = false): Promise<CheckRun[]> {
+    let result: string;
+    try {
+      result = this.exec(`gh pr checks ${prNumber}${requiredOnly ? ' --required' : ''} --json name,state,bucket,link`);
+    } catch (error) {
+      // gh exits non-zero while checks are failing or pending, but still prints them
+      const stdout = (error as { stdout?: string }).stdout;
+      if (stdout && stdout.trim().startsWith('[')) {
+        result = stdout;
+      } else if (/no (required )?checks/i.test(String((error as { stderr?: string }).stderr))) {
+        return [];
+      } else {
+        throw error;
+      }
+    }
+
+    return JSON.parse(result || '[]');
+  }
+
   async getDeploymentUrl(prNumber: number, maxAttempts: number = 18): Promise<string | null> {
     const pr = await this.getPullRequest(prNumber);
     const headSha = pr.headSha;
@@ -165,90 +285,21 @@ export class GitHubClient {
     return null;
   }
 
-  async getCurrentBranch(): Promise<string> {
-    return this.exec('git rev-parse --abbrev-ref HEAD').trim();
-  }
-
-  async checkoutBranch(branchName: string): Promise<void> {
-    this.exec(`git checkout ${branchName}`);
-  }
-
-  async getBranchExists(branchName: string): Promise<boolean> {
-    try {
-      this.exec(`git rev-parse --verify ${branchName}`);
-      return true;
-    } catch {
-      return false;
-    }
-  }
-
-  async hasNewCommits(baseBranch: string): Promise<boolean> {
-    try {
-      // Check if current branch has commits that aren't in base branch
-      const result = this.exec(`git log ${baseBranch}..HEAD --oneline`);
-      return result.trim().length > 0;
-    } catch {
-      return false;
-    }
-  }
-
-  async getCommitSummary(baseBranch: string): Promise<string> {
-    try {
-      // Get commit messages
-      const commits = this.exec(`git log ${baseBranch}..HEAD --pretty=format:"- %s"`).trim();
-
-      // Get changed files with stats
-      const files = this.exec(`git diff ${baseBranch}..HEAD --stat --stat-width=60`).trim();
-
-      let summary = '';
-
-      if (commits) {
-        summary += `**Commits:**\n${commits}\n\n`;
-      }
-
-      if (files) {
-        summary += `**Files changed:**\n\`\`\`\n${files}\n\`\`\``;
-      }
-
-      return summary || '- See PR for details';
-    } catch {
-      return '- See PR for details';
-    }
-  }
-
-  async getStatus(): Promise<{ staged: string[]; unstaged: string[]; untracked: string[] }> {
-    const result = this.exec('git status --porcelain');
-    const lines = result.split('\n').filter(l => l.trim());
-
-    const staged: string[] = [];
-    const unstaged: string[] = [];
-    const untracked: string[] = [];
-
-    for (const line of lines) {
-      const status = line.substring(0, 2);
-      const file = line.substring(3);
-
-      if (status.startsWith('?')) {
-        untracked.push(file);
-      } else if (status[0] !== ' ') {
-        staged.push(file);
-      }
-      if (status[1] !== ' ' && status[1] !== '?') {
-        unstaged.push(file);
-      }
-    }
-
-    return { staged, unstaged, untracked };
+  /**
+   * Run a paginated `gh api` GET and parse one JSON object per output line.
+   */
+  private apiLines(endpoint: string, jq: string): any[] {
+    return this.exec(`gh api "${endpoint}" --paginate --jq "${jq}"`)
+      .split('\n')
+      .filter(l => l.trim())
+      .map(l => JSON.parse(l));
   }
 
   private exec(command: string): string {
     return execSync(command, {
+      cwd: this.cwd,
       encoding: 'utf8',
       maxBuffer: 50 * 1024 * 1024,
     }).toString();
   }
-
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
 }
@@ -0,0 +1,244 @@
+import axios, { AxiosInstance } from 'axios';
+import { GitLabConfig } from '../core/config';
+import { GitRepository } from './git';
+import { GitHost, PullRequest, PullRequestOptions, ReviewComment, CheckRun, CheckBucket } from './git-host';
+
+const DEFAULT_URL = 'https://gitlab.com';
+
+const CHECK_BUCKETS: Record<string, CheckBucket> = {
+  success: 'pass',
+  failed: 'fail',
+  canceled: 'cancel',
+  skipped: 'skipping',
+  manual: 'skipping',
+};
+
+const PULL_REQUEST_STATES: Record<string, string> = {
+  opened: 'OPEN',
+  // A merge is in progress; it becomes merged shortly
+  locked: 'OPEN',
+  merged: 'MERGED',
+};
+
+// Title prefixes GitLab treats as marking a merge request draft
+const DRAFT_PREFIX = /^(draft:|\[draft\]|\(draft\))\s*/i;
+
+/**
+ * GitLab (gitlab.com or self-hosted) through its REST API, authenticated with
+ * a personal or project access token. Merge requests stand in for pull
+ * requests, pipeline jobs for checks and Review App environments for
+ * preview deployments.
+ */
+export class GitLabClient extends GitRepository implements GitHost {
+  readonly name = 'gitlab';
+  private client: AxiosInstance;
+  private project: string;
+
+  constructor(config: GitLabConfig, repo: string, cwd: string = process.cwd()) {
+    super(cwd);
+    // Nested groups are allowed, so the whole path is the project ID
+    this.project = encodeURIComponent(repo);
+
+    this.client = axios.create({
+      baseURL: `${(config.url || DEFAULT_URL).replace(/\/+$/, '')}/api/v4`,
+      headers: {
+        'PRIVATE-TOKEN': config.token,
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+
+  /**
+   * Fails unless the token can read the project.
+   */
+  async checkAccess(): Promise<void> {
+    await this.client.get(`/projects/${this.project}`);
+  }
+
+  async createPullRequest(
+    title: string,
+    body: string,
+    baseBranch: string = 'develop',
+    options: PullRequestOptions = {}
+  ): Promise<PullRequest> {
+    const reviewers = (options.reviewers || []).filter(r => !r.includes('/'));
+    if (reviewers.length < (options.reviewers || []).length) {
+      console.log('Warning: GitLab has no team reviewers, skipping them');
+    }
+
+    const { data } = await this.client.post(this.path('merge_requests'), {
+      source_branch: await this.getCurrentBranch(),
+      target_branch: baseBranch,
+      title: options.draft ? `Draft: ${title}` : title,
+      description: body,
+      remove_source_branch: true,
+      ...(options.labels && options.labels.length > 0 ? { labels: options.labels.join(',') } : {}),
+      reviewer_ids: await this.userIds(reviewers),
+      assignee_ids: await this.userIds(options.assignees || []),
+    });
+
+    return mapMergeRequest(data);
+  }
+
+  async getPullRequest(prNumber: number): Promise<PullRequest> {
+    const { data } = await this.client.get(this.path(`merge_requests/${prNumber}`));
+    return mapMergeRequest(data);
+  }
+
+  async findOpenPullRequest(branchName: string): Promise<PullRequest | null> {
+    const { data } = await this.client.get(this.path('merge_requests'), {
+      params: { source_branch: branchName, state: 'opened', per_page: 1 },
+    });
+    return data.length > 0 ? mapMergeRequest(data[0]) : null;
+  }
+
+  async getReviewComments(prNumber: number): Promise<ReviewComment[]> {
+    const pr = await this.getPullRequest(prNumber);
+    const notes = await this.getPaged(this.path(`merge_requests/${prNumber}/notes`), {
+      sort: 'asc',
+      order_by: 'created_at',
+    });
+
+    return notes
+      // System notes record pushes, label changes and the like
+      .filter(n => !n.system)
+      .map((n): ReviewComment => ({
+        id: n.id,
+        kind: n.type === 'DiffNote' ? 'inline' : 'conversation',
+        author: n.author?.username || 'unknown',
+        body: n.body || '',
+        createdAt: n.created_at,
+        url: `${pr.url}#note_${n.id}`,
+        path: n.position?.new_path || n.position?.old_path,
+        line: n.position ? (n.position.new_line ?? n.position.old_line ?? undefined) : undefined,
+      }))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async commentOnPullRequest(prNumber: number, body: string): Promise<void> {
+    await this.client.post(this.path(`merge_requests/${prNumber}/notes`), { body });
+  }
+
+  /**
+   * Jobs of the merge request's head pipeline. Jobs allowed to fail are left
+   * out when `requiredOnly` is set.
+   */
+  async getChecks(prNumber: number, requiredOnly: boolean = false): Promise<CheckRun[]> {
+    const { data: mr } = await this.client.get(this.path(`merge_requests/${prNumber}`));
+    if (!mr.head_pipeline) {
+      return [];
+    }
+
+    const jobs = await this.getPaged(this.path(`pipelines/${mr.head_pipeline.id}/jobs`));
+    return jobs
+      .filter(j => !(requiredOnly && j.allow_failure))
+      .map(j => ({
+        name: j.name,
+        state: j.status,
+        bucket: CHECK_BUCKETS[j.status] || 'pending',
+        link: j.web_url || '',
+      }));
+  }
+
+  async getRequiredChecks(prNumber: number): Promise<CheckRun[]> {
+    return this.getChecks(prNumber, true);
+  }
+
+  /**
+   * Poll for a successful Review App deployment of the merge request's source
+   * branch and return its environment URL.
+   */
+  async getDeploymentUrl(prNumber: number, maxAttempts: number = 18): Promise<string | null> {
+    const pr = await this.getPullRequest(prNumber);
+
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      try {
+        const { data: deployments } = await this.client.get(this.path('deployments'), {
+          params: { status: 'success', order_by: 'created_at', sort: 'desc', per_page: 50 },
+        });
+        const deployment = (deployments as any[]).find(d =>
+          d.ref === pr.branchName && d.environment?.external_url
+        );
+        if (deployment) {
+          return deployment.environment.external_url;
+        }
+      } catch {
+        // No deployments yet
+      }
+
+      if (attempt < maxAttempts - 1) {
+        await this.sleep(5000);
+      }
+    }
+
+    return null;
+  }
+
+  async markReady(prNumber: number): Promise<void> {
+    const pr = await this.getPullRequest(prNumber);
+    await this.client.put(this.path(`merge_requests/${prNumber}`), {
+      title: pr.title.replace(DRAFT_PREFIX, ''),
+    });
+  }
+
+  async markDraft(prNumber: number): Promise<void> {
+    const pr = await this.getPullRequest(prNumber);
+    if (!DRAFT_PREFIX.test(pr.title)) {
+      await this.client.put(this.path(`merge_requests/${prNumber}`), { title: `Draft: ${pr.title}` });
+    }
+  }
+
+  private path(endpoint: string): string {
+    return `/projects/${this.project}/${endpoint}`;
+  }
+
+  /**
+   * GitLab user IDs for the given usernames. Users that are unknown or can't
+   * be looked up are skipped with a warning rather than failing the merge
+   * request.
+   */
+  private async userIds(usernames: string[]): Promise<number[]> {
+    const ids: number[] = [];
+    for (const username of usernames) {
+      try {
+        const { data } = await this.client.get('/users', { params: { username } });
+        if (data.length > 0) {
+          ids.push(data[0].id);
+        } else {
+          console.log(`Warning: GitLab user "${username}" not found, skipping`);
+        }
+      } catch (error) {
+        console.log(`Warning: Failed to look up GitLab user "${username}", skipping: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    return ids;
+  }
+
+  /**
+   * Every item of a paginated list, following the `x-next-page` header.
+   */
+  private async getPaged(url: string, params: Record<string, string | number> = {}): Promise<any[]> {
+    const items: any[] = [];
+    let page: string | undefined = '1';
+    while (page) {
+      const response: { data: any[]; headers: any } = await this.client.get(url, {
+        params: { ...params, per_page: 100, page },
+      });
+      items.push(...response.data);
+      page = response.headers['x-next-page'] || undefined;
+    }
+    return items;
+  }
+}
+
+function mapMergeRequest(data: any): PullRequest {
+  return {
+    number: data.iid,
+    url: data.web_url || '',
+    title: data.title,
+    // Only closed merge requests are left: closed without merging
+    state: PULL_REQUEST_STATES[data.state] || 'CLOSED',
+    headSha: data.sha || '',
+    branchName: data.source_branch,
+  };
+}
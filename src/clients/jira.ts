@@ -17,6 +17,7 @@ export interface JiraTicket {
   comments: JiraComment[];
   labels: string[];
   customFields: Record<string, any>;
+  updated?: string;  // last change to the ticket, by JIRA's clock
 }
 
 export interface JiraAttachment {
@@ -29,10 +30,16 @@ export interface JiraAttachment {
 export interface JiraComment {
   id: string;
   author: string;
+  authorAccountId?: string;
   body: any;
   created: string;
 }
 
+export interface JiraUser {
+  accountId: string;
+  displayName: string;
+}
+
 export interface JiraTransition {
   id: string;
   name: string;
@@ -78,14 +85,32 @@ export class JiraClient {
         url: a.content,
         mimeType: a.mimeType,
       })),
-      comments: (fields.comment?.comments || []).map((c: any) => ({
-        id: c.id,
-        author: c.author?.displayName || 'Unknown',
-        body: c.body,
-        created: c.created,
-      })),
+      comments: (fields.comment?.comments || []).map((c: any) => this.mapComment(c)),
       labels: fields.labels || [],
       customFields: this.extractCustomFields(fields),
+      updated: fields.updated,
+    };
+  }
+
+  /**
+   * The newest comments on a ticket, oldest first.
+   */
+  async getComments(ticketKey: string, maxResults: number = 50): Promise<JiraComment[]> {
+    const response = await this.client.get(`/issue/${ticketKey}/comment`, {
+      params: { orderBy: '-created', maxResults },
+    });
+
+    return (response.data.comments || []).map((c: any) => this.mapComment(c)).reverse();
+  }
+
+  /**
+   * The account the bot authenticates as.
+   */
+  async getCurrentUser(): Promise<JiraUser> {
+    const response = await this.client.get('/myself');
+    return {
+      accountId: response.data.accountId,
+      displayName: response.data.displayName,
     };
   }
 
@@ -102,6 +127,7 @@ export class JiraClient {
         'assignee',
         'reporter',
         'labels',
+        'updated',
       ],
     });
 
@@ -118,6 +144,7 @@ export class JiraClient {
       comments: [],
       labels: issue.fields.labels || [],
       customFields: {},
+      updated: issue.fields.updated,
     }));
   }
 
@@ -198,6 +225,12 @@ export class JiraClient {
     });
   }
 
+  async addLabels(ticketKey: string, labels: string[]): Promise<void> {
+    await this.client.put(`/issue/${ticketKey}`, {
+      update: { labels: labels.map(label => ({ add: label })) },
+    });
+  }
+
   private textToAdf(text: string): any {
     const lines = text.split('\n');
     const content = lines.map(line => {
@@ -241,6 +274,16 @@ export class JiraClient {
     return content;
   }
 
+  private mapComment(c: any): JiraComment {
+    return {
+      id: c.id,
+      author: c.author?.displayName || 'Unknown',
+      authorAccountId: c.author?.accountId,
+      body: c.body,
+      created: c.created,
+    };
+  }
+
   private extractCustomFields(fields: any): Record<string, any> {
     const customFields: Record<string, any> = {};
 
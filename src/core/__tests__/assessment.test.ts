@@ -0,0 +1,56 @@
+import { parseAssessment, needsInfo, formatNeedsInfoComment, validateAssessmentConfig } from '../assessment';
+
+describe('parseAssessment', () => {
+  it('parses a bare JSON reply', () => {
+    const assessment = parseAssessment(JSON.stringify({
+      clarity: 2,
+      size: 'l',
+      missingInformation: ['Which page the button goes on'],
+      questions: ['Should the export include archived rows?'],
+    }));
+
+    expect(assessment).toEqual({
+      clarity: 2,
+      size: 'L',
+      missingInformation: ['Which page the button goes on'],
+      questions: ['Should the export include archived rows?'],
+    });
+  });
+
+  it('finds the object inside a fenced block with prose around it', () => {
+    const output = 'Here is my assessment:\n```json\n{"clarity": 4.6, "size": "huge", "questions": []}\n```\nDone.';
+    expect(parseAssessment(output)).toEqual({ clarity: 5, size: 'M', missingInformation: [], questions: [] });
+  });
+
+  it('returns null without a clarity score', () => {
+    expect(parseAssessment('The ticket looks fine to me.')).toBeNull();
+    expect(parseAssessment('{"size": "S"}')).toBeNull();
+    expect(parseAssessment('{not json}')).toBeNull();
+  });
+});
+
+describe('needsInfo', () => {
+  const assessment = { clarity: 2, size: 'S' as const, missingInformation: [], questions: ['Which API version?'] };
+
+  it('compares clarity with minClarity', () => {
+    expect(needsInfo(assessment, {})).toBe(true);
+    expect(needsInfo(assessment, { minClarity: 2 })).toBe(false);
+  });
+
+  it('lists the gaps and questions in the JIRA comment', () => {
+    const comment = formatNeedsInfoComment({ ...assessment, missingInformation: ['Target API version'] });
+    expect(comment).toContain('clarity 2/5, estimated size S');
+    expect(comment).toContain('Missing:\n- Target API version');
+    expect(comment).toContain('Questions:\n1. Which API version?');
+  });
+});
+
+describe('validateAssessmentConfig', () => {
+  it('reports bad settings', () => {
+    expect(validateAssessmentConfig({ model: 'haiku', maxTurns: 5, minClarity: 3 })).toEqual([]);
+    expect(validateAssessmentConfig({ maxTurns: 0, minClarity: 6 })).toEqual([
+      'claude.assessment.maxTurns must be at least 1',
+      'claude.assessment.minClarity must be between 1 and 5',
+    ]);
+  });
+});
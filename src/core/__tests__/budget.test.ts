@@ -0,0 +1,71 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Budget, validateBudgetConfig } from '../budget';
+import { RunHistory, RunRecord } from '../history';
+
+function run(ticketKey: string, startedAt: Date, costUsd: number, projectKey: string = 'PROJ'): RunRecord {
+  return {
+    ticketKey,
+    projectKey,
+    trigger: 'daemon',
+    success: true,
+    startedAt: startedAt.toISOString(),
+    finishedAt: startedAt.toISOString(),
+    durationMs: 0,
+    model: 'sonnet',
+    costUsd,
+  };
+}
+
+describe('Budget', () => {
+  const now = new Date(2024, 4, 15, 12, 0, 0);
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jcb-budget-'));
+    const history = new RunHistory(dataDir);
+    history.append(run('PROJ-1', new Date(2024, 3, 30, 12), 50));        // last month
+    history.append(run('PROJ-1', new Date(2024, 4, 2, 12), 4));          // this month
+    history.append(run('PROJ-2', new Date(2024, 4, 15, 9), 3));          // today
+    history.append(run('PROJ-2', new Date(2024, 4, 15, 10), 2.5));       // today
+    history.append(run('OTHER-1', new Date(2024, 4, 15, 10), 100, 'OTHER'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('sums spend per day, month and ticket for its project only', () => {
+    const budget = new Budget({}, dataDir, 'PROJ');
+
+    expect(budget.spend('proj-1', now)).toEqual({ today: 5.5, month: 9.5, ticket: 54 });
+    expect(budget.isEnabled()).toBe(false);
+  });
+
+  it('reports the cap that is reached', () => {
+    expect(new Budget({ daily: 5 }, dataDir, 'PROJ').exceededCap(now)).toBe('daily budget of $5.00 reached ($5.50 spent)');
+    expect(new Budget({ monthly: 9 }, dataDir, 'PROJ').exceededCap(now)).toContain('monthly budget of $9.00');
+    expect(new Budget({ daily: 10, monthly: 100 }, dataDir, 'PROJ').exceededCap(now)).toBeNull();
+
+    const perTicket = new Budget({ perTicket: 5 }, dataDir, 'PROJ');
+    expect(perTicket.exceededCap(now)).toBeNull();
+    expect(perTicket.exceededCapFor('PROJ-2', now)).toBe('per-ticket budget of $5.00 reached ($5.50 spent)');
+    expect(perTicket.exceededCapFor('PROJ-3', now)).toBeNull();
+  });
+
+  it('gives the smallest remaining allowance for the next run', () => {
+    const budget = new Budget({ perTicket: 10, daily: 8, monthly: 100 }, dataDir, 'PROJ');
+
+    expect(budget.remainingFor('PROJ-3', now)).toBe(2.5);
+    expect(budget.remainingFor('PROJ-1', now)).toBe(0);
+    expect(new Budget(undefined, dataDir, 'PROJ').remainingFor('PROJ-3', now)).toBeUndefined();
+  });
+
+  it('validates caps', () => {
+    expect(validateBudgetConfig({ daily: 10, monthly: 0, perTicket: 'x' as unknown as number })).toEqual([
+      'claude.budget.perTicket must be a positive number of USD',
+      'claude.budget.monthly must be a positive number of USD',
+    ]);
+  });
+});
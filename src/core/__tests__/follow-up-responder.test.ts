@@ -0,0 +1,185 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FollowUpResponder } from '../follow-up-responder';
+import { FollowUpTracker } from '../follow-up-tracker';
+import { RunHistory } from '../history';
+import { listRuns } from '../run-log';
+import { GlobalConfig, ProjectConfig } from '../config';
+import { GitHubClient } from '../../clients/github';
+import { PullRequest } from '../../clients/git-host';
+import { ClaudeClient } from '../../clients/claude';
+import { JiraClient, JiraComment, JiraTicket } from '../../clients/jira';
+import { Logger } from '../../utils/logger';
+
+jest.mock('../../clients/github');
+jest.mock('../../clients/claude');
+jest.mock('../../clients/jira');
+
+const github = GitHubClient.prototype as jest.Mocked<GitHubClient>;
+const claude = ClaudeClient.prototype as jest.Mocked<ClaudeClient>;
+const jira = JiraClient.prototype as jest.Mocked<JiraClient>;
+
+const BOT = { accountId: 'bot-1', displayName: 'JIRA Claude Bot' };
+
+function comment(id: number, text: string, authorAccountId: string = 'human-1'): JiraComment {
+  return {
+    id: String(id),
+    author: authorAccountId === BOT.accountId ? BOT.displayName : 'Dana',
+    authorAccountId,
+    body: { type: 'doc', version: 1, content: [{ type: 'paragraph', content: [{ type: 'text', text }] }] },
+    created: '2024-05-03T12:00:00Z',
+  };
+}
+
+function mention(id: number, accountId: string, text: string): JiraComment {
+  return {
+    ...comment(id, ''),
+    body: {
+      type: 'doc',
+      version: 1,
+      content: [{
+        type: 'paragraph',
+        content: [
+          { type: 'mention', attrs: { id: accountId, text: '@JIRA Claude Bot' } },
+          { type: 'text', text: ` ${text}` },
+        ],
+      }],
+    },
+  };
+}
+
+describe('FollowUpResponder', () => {
+  let dataDir: string;
+  let tracker: FollowUpTracker;
+
+  function responder(followUps: ProjectConfig['workflow']['followUps'] = {}): FollowUpResponder {
+    const globalConfig = { bot: { dataDir }, jira: {} } as GlobalConfig;
+    const projectConfig = {
+      project: { jiraKey: 'PROJ', repo: 'acme/web' },
+      tickets: { statuses: ['To Do'] },
+      workflow: { followUps, transitions: { onPrCreated: 'In Review' }, pr: { baseBranch: 'develop' } },
+      claude: {},
+    } as ProjectConfig;
+    return new FollowUpResponder(globalConfig, projectConfig, dataDir, new Logger('error'), { isolated: true });
+  }
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jcb-follow-up-'));
+    tracker = new FollowUpTracker(dataDir);
+
+    await tracker.track({
+      ticketKey: 'PROJ-1',
+      projectKey: 'PROJ',
+      branchName: 'feature/PROJ-1',
+      lastSeenCommentId: '100',
+      trackedAt: '2024-05-01T00:00:00Z',
+      prUrl: 'https://github.com/acme/web/pull/7',
+    });
+
+    jira.getCurrentUser.mockResolvedValue(BOT);
+    jira.getTicket.mockResolvedValue({
+      key: 'PROJ-1',
+      summary: 'Update the footer',
+      status: 'In Review',
+      comments: [],
+    } as unknown as JiraTicket);
+    jira.getTicketUrl.mockReturnValue('https://acme.atlassian.net/browse/PROJ-1');
+    github.getRemoteBranchExists.mockResolvedValue(true);
+    github.findOpenPullRequest.mockResolvedValue({ number: 7 } as PullRequest);
+    github.hasCommittableChanges.mockResolvedValue(true);
+    github.hasNewCommits.mockResolvedValue(true);
+    github.getCommitSummary.mockResolvedValue('**Commits:**\n- PROJ-1: Address follow-up comments');
+    github.getDiff.mockResolvedValue('diff --git a/src/footer.tsx b/src/footer.tsx');
+    claude.workTicket.mockResolvedValue({ success: true, output: '' });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('only reacts to new human comments that mention the bot or use the prefix', async () => {
+    jira.getComments.mockResolvedValue([
+      comment(99, '/claude this one was already seen'),
+      comment(101, 'Looks good to me'),
+      comment(102, '/claude done', BOT.accountId),
+    ]);
+    expect(await responder().findPending()).toEqual([]);
+    // The chatter is not read again
+    expect(await tracker.get('PROJ-1')).toMatchObject({ lastSeenCommentId: '101' });
+
+    jira.getComments.mockResolvedValue([mention(103, BOT.accountId, 'please also fix the header')]);
+    expect((await responder().findPending()).map(t => t.ticketKey)).toEqual(['PROJ-1']);
+
+    jira.getComments.mockResolvedValue([comment(103, 'Any comment counts')]);
+    expect((await responder({ trigger: 'any' }).findPending()).map(t => t.ticketKey)).toEqual(['PROJ-1']);
+  });
+
+  it('stops following tickets that left the configured statuses or whose branch is gone', async () => {
+    jira.getComments.mockResolvedValue([comment(101, '/claude make the footer sticky')]);
+    await tracker.track({
+      ticketKey: 'PROJ-2',
+      projectKey: 'PROJ',
+      branchName: 'feature/PROJ-2',
+      lastSeenCommentId: '100',
+      trackedAt: '2024-05-01T00:00:00Z',
+    });
+    github.isBranchMerged.mockResolvedValue(true);
+
+    jira.getTicket.mockResolvedValueOnce({ key: 'PROJ-1', status: 'Done', comments: [] } as unknown as JiraTicket);
+    expect(await responder().findPending()).toEqual([]);
+    expect(await tracker.list()).toEqual([]);
+    expect(github.isBranchMerged).toHaveBeenCalledWith('feature/PROJ-2', 'develop');
+
+    await tracker.track({
+      ticketKey: 'PROJ-1',
+      projectKey: 'PROJ',
+      branchName: 'feature/PROJ-1',
+      lastSeenCommentId: '100',
+      trackedAt: '2024-05-01T00:00:00Z',
+      prUrl: 'https://github.com/acme/web/pull/7',
+    });
+    github.findOpenPullRequest.mockResolvedValue(null);
+    expect(await responder().findPending()).toEqual([]);
+    expect(await tracker.get('PROJ-1')).toBeNull();
+  });
+
+  it('resumes the existing branch with the comment as context, pushes and replies in JIRA', async () => {
+    jira.getComments.mockResolvedValue([comment(101, '/claude make the footer sticky')]);
+
+    const result = await responder().respond('PROJ-1');
+
+    expect(result).toMatchObject({ success: true, addressed: 1, pushed: true });
+    expect(github.checkoutRemoteBranch).toHaveBeenCalledWith('feature/PROJ-1');
+    expect(github.createBranch).not.toHaveBeenCalled();
+    const context = claude.workTicket.mock.calls[0][3];
+    expect(context).toContain('make the footer sticky');
+    expect(context).not.toContain('/claude');
+    expect(github.commitChanges).toHaveBeenCalledWith('PROJ-1: Address follow-up comments');
+    expect(github.pushBranch).toHaveBeenCalledWith('feature/PROJ-1', 'origin/feature/PROJ-1');
+    expect(jira.addComment.mock.calls[0][1]).toContain('https://github.com/acme/web/pull/7');
+    expect(github.detachHead).toHaveBeenCalled();
+    expect(await tracker.get('PROJ-1')).toMatchObject({ lastSeenCommentId: '101' });
+  });
+
+  it('reports a failure in JIRA and does not retry the same comments', async () => {
+    jira.getComments.mockResolvedValue([comment(101, '/claude make the footer sticky')]);
+    claude.workTicket.mockResolvedValue({ success: false, output: '', error: 'Claude exited with code 1' });
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const result = await responder().respond('PROJ-1');
+
+    expect(result.success).toBe(false);
+    expect(github.pushBranch).not.toHaveBeenCalled();
+    expect(jira.addComment.mock.calls[0][1]).toContain('could not act on the follow-up comments');
+    expect(await responder().findPending()).toEqual([]);
+
+    const [run] = listRuns(dataDir, 'PROJ-1');
+    expect(run).toMatchObject({ success: false, error: 'Claude Code failed: Claude exited with code 1' });
+    expect(new RunHistory(dataDir).read()).toEqual([
+      expect.objectContaining({ ticketKey: 'PROJ-1', task: 'follow_up', success: false, runId: run.id }),
+    ]);
+  });
+});
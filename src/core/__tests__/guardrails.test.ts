@@ -0,0 +1,190 @@
+import {
+  parseRule,
+  findMatchingRule,
+  validateTicketRules,
+  evaluateReviewRules,
+  validateReviewRules,
+  resolveSensitivePaths,
+} from '../guardrails';
+import { JiraTicket } from '../../clients/jira';
+import { DiffStats } from '../../clients/git';
+
+function ticket(overrides: Partial<JiraTicket> = {}): JiraTicket {
+  return {
+    key: 'PROJ-1',
+    summary: 'Update the footer',
+    description: 'Change the copyright year in the footer.',
+    status: 'To Do',
+    type: 'Task',
+    priority: 'Medium',
+    assignee: null,
+    reporter: 'Pat Smith',
+    attachments: [],
+    comments: [],
+    labels: [],
+    customFields: {},
+    ...overrides,
+  };
+}
+
+describe('parseRule', () => {
+  it('parses comparison strings', () => {
+    expect(parseRule('story_points > 5')).toMatchObject({
+      field: 'story_points',
+      operator: '>',
+      value: 5,
+    });
+  });
+
+  it('parses colon shorthand as equality', () => {
+    expect(parseRule('has_label: "needs-design"')).toMatchObject({
+      field: 'has_label',
+      operator: '==',
+      value: 'needs-design',
+    });
+  });
+
+  it('parses YAML mapping rules', () => {
+    expect(parseRule({ has_label: 'blocked' })).toMatchObject({
+      field: 'has_label',
+      operator: '==',
+      value: 'blocked',
+      source: 'has_label: blocked',
+    });
+    expect(parseRule({ attachment_count: '>= 3' })).toMatchObject({
+      field: 'attachment_count',
+      operator: '>=',
+      value: 3,
+    });
+  });
+
+  it('treats a bare field name as true', () => {
+    expect(parseRule('modifies_auth')).toMatchObject({ field: 'modifies_auth', value: true });
+  });
+
+  it('rejects malformed rules', () => {
+    expect(() => parseRule('story points are big')).toThrow('Invalid guardrail rule');
+    expect(() => parseRule({ a: 1, b: 2 })).toThrow('single condition');
+  });
+});
+
+describe('findMatchingRule', () => {
+  it('matches labels case-insensitively', () => {
+    const rule = findMatchingRule(ticket({ labels: ['Needs-Design'] }), [{ has_label: 'needs-design' }]);
+    expect(rule?.source).toBe('has_label: needs-design');
+  });
+
+  it('reads story points from the configured custom field', () => {
+    const t = ticket({ customFields: { customfield_10026: 8 } });
+
+    expect(findMatchingRule(t, ['story_points > 5'])).toBeNull();
+    expect(findMatchingRule(t, ['story_points > 5'], { storyPointsField: 'customfield_10026' })).not.toBeNull();
+  });
+
+  it('never matches story point rules on unestimated tickets', () => {
+    expect(findMatchingRule(ticket(), ['story_points < 100'])).toBeNull();
+  });
+
+  it('matches issue type, priority, reporter and counts', () => {
+    const t = ticket({
+      type: 'Bug',
+      priority: 'Highest',
+      attachments: [{ id: '1', filename: 'a.png', url: '', mimeType: 'image/png' }],
+    });
+
+    expect(findMatchingRule(t, ['issue_type == bug'])).not.toBeNull();
+    expect(findMatchingRule(t, ['priority != Highest'])).toBeNull();
+    expect(findMatchingRule(t, ['reporter: "pat smith"'])).not.toBeNull();
+    expect(findMatchingRule(t, ['attachment_count >= 1'])).not.toBeNull();
+    expect(findMatchingRule(t, ['description_length < 20'])).toBeNull();
+  });
+
+  it('returns the first matching rule', () => {
+    const t = ticket({ labels: ['blocked'], customFields: { customfield_10016: 13 } });
+    const rule = findMatchingRule(t, ['has_label: needs-design', 'story_points > 5', 'has_label: blocked']);
+    expect(rule?.source).toBe('story_points > 5');
+  });
+});
+
+describe('validateTicketRules', () => {
+  it('reports unknown fields and malformed rules', () => {
+    const errors = validateTicketRules(['has_label: ok', 'modifies_auth', '???'], 'guardrails.skip');
+
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toContain('unknown field "modifies_auth"');
+    expect(errors[1]).toContain('Invalid guardrail rule');
+  });
+
+  it('rejects ordering operators on text fields and non-numeric values', () => {
+    const errors = validateTicketRules(
+      ['priority > High', { has_label: '>= blocked' }, 'story_points > lots', 'story_points >= 8'],
+      'guardrails.skip'
+    );
+
+    expect(errors).toEqual([
+      'guardrails.skip: "priority > High" uses >, but priority only supports == and !=',
+      'guardrails.skip: "has_label: >= blocked" uses >=, but has_label only supports == and !=',
+      'guardrails.skip: "story_points > lots" uses >, which needs a numeric value',
+    ]);
+  });
+});
+
+describe('evaluateReviewRules', () => {
+  function stats(files: Array<[string, number, number]>): DiffStats {
+    const added = files.reduce((sum, f) => sum + f[1], 0);
+    const deleted = files.reduce((sum, f) => sum + f[2], 0);
+    return {
+      files: files.map(([path, additions, deletions]) => ({ path, additions, deletions })),
+      fileCount: files.length,
+      linesAdded: added,
+      linesDeleted: deleted,
+      linesChanged: added + deleted,
+    };
+  }
+
+  const sensitivePaths = resolveSensitivePaths({ billing: ['src/billing/', '*.sql'] });
+
+  it('trips size rules', () => {
+    const diff = stats([['src/a.ts', 400, 150], ['src/b.ts', 1, 1]]);
+    const triggers = evaluateReviewRules(diff, ['file_count > 10', 'lines_changed > 500'], sensitivePaths);
+
+    expect(triggers).toEqual([{ rule: 'lines_changed > 500', detail: 'lines changed is 552' }]);
+  });
+
+  it('trips modifies_<category> rules with the matching files', () => {
+    const diff = stats([['src/auth/session.ts', 3, 1], ['src/components/Button.tsx', 2, 2]]);
+    const triggers = evaluateReviewRules(diff, [{ modifies_auth: true }, { modifies_payments: true }], sensitivePaths);
+
+    expect(triggers).toEqual([{ rule: 'modifies_auth: true', detail: 'touches src/auth/session.ts' }]);
+  });
+
+  it('matches auth paths as whole words only', () => {
+    const diff = stats([
+      ['src/components/Author.tsx', 1, 1],
+      ['docs/session-notes.md', 1, 1],
+      ['src/lib/auth.ts', 1, 1],
+      ['src/session/store.ts', 1, 1],
+      ['src/api/user-auth.ts', 1, 1],
+    ]);
+    const [trigger] = evaluateReviewRules(diff, ['modifies_auth'], sensitivePaths);
+
+    expect(trigger.detail).toBe('touches src/lib/auth.ts, src/session/store.ts, src/api/user-auth.ts');
+  });
+
+    it('uses configured categories', () => {
+    const diff = stats([['db/migrations/001.sql', 10, 0]]);
+    expect(evaluateReviewRules(diff, ['modifies_billing'], sensitivePaths)).toHaveLength(1);
+  });
+
+  it('validates fields and categories', () => {
+    const errors = validateReviewRules(
+      ['file_count > 10', 'modifies_auth: true', 'modifies_secrets', 'has_label: x'],
+      sensitivePaths,
+      'guardrails.requireReview'
+    );
+
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toContain('"secrets"');
+    expect(errors[1]).toContain('unknown field "has_label"');
+  });
+});
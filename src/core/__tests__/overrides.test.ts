@@ -0,0 +1,108 @@
+import { resolveClaudeSettings, describeClaudeSettings, validateOverrides } from '../overrides';
+import { ClaudeConfig } from '../config';
+import { JiraTicket } from '../../clients/jira';
+
+function ticket(overrides: Partial<JiraTicket> = {}): JiraTicket {
+  return {
+    key: 'PROJ-1',
+    summary: 'Fix the login redirect',
+    description: 'Users land on a 404 after logging in.',
+    status: 'To Do',
+    type: 'Task',
+    priority: 'Medium',
+    assignee: null,
+    reporter: 'Pat Smith',
+    attachments: [],
+    comments: [],
+    labels: [],
+    customFields: {},
+    ...overrides,
+  };
+}
+
+const claude: ClaudeConfig = {
+  model: 'sonnet',
+  maxTurns: 50,
+  instructions: 'Run the linter before finishing.',
+  overrides: [
+    { when: { has_label: 'claude-opus' }, model: 'opus' },
+    { when: 'issue_type == Bug', maxTurns: 80, instructions: 'Add a regression test.' },
+    { when: ['story_points >= 3', 'story_points <= 8'], timeout: 3_600_000 },
+    { when: 'priority: Highest', model: 'opus', maxTurns: 120 },
+  ],
+};
+
+describe('resolveClaudeSettings', () => {
+  it('keeps the project settings when nothing matches', () => {
+    const settings = resolveClaudeSettings(claude, ticket());
+    expect(settings.matched).toEqual([]);
+    expect(settings.config).toMatchObject({ model: 'sonnet', maxTurns: 50 });
+    expect(describeClaudeSettings(settings)).toBe('sonnet, 50 max turns');
+  });
+
+  it('applies every matching override in order', () => {
+    const settings = resolveClaudeSettings(claude, ticket({
+      type: 'Bug',
+      priority: 'Highest',
+      labels: ['claude-opus'],
+    }));
+
+    expect(settings.matched).toEqual(['has_label: claude-opus', 'issue_type == Bug', 'priority: Highest']);
+    expect(settings.config).toMatchObject({
+      model: 'opus',
+      maxTurns: 120,
+      instructions: 'Run the linter before finishing.\n\nAdd a regression test.',
+    });
+  });
+
+  it('matches story point ranges only when every condition holds', () => {
+    const inRange = resolveClaudeSettings(claude, ticket({ customFields: { customfield_10016: 5 } }));
+    expect(inRange.config.timeout).toBe(3_600_000);
+    expect(describeClaudeSettings(inRange)).toBe(
+      'sonnet, 50 max turns, 60 min timeout (overrides: story_points >= 3 and story_points <= 8)'
+    );
+
+    const tooBig = resolveClaudeSettings(claude, ticket({ customFields: { customfield_10016: 13 } }));
+    expect(tooBig.matched).toEqual([]);
+  });
+
+  it('applies overrides on top of the first retry ladder step', () => {
+    const first = resolveClaudeSettings(claude, ticket(), {}, { model: 'haiku', maxTurns: 30 });
+    expect(first.config).toMatchObject({ model: 'haiku', maxTurns: 30 });
+
+    const labelled = resolveClaudeSettings(claude, ticket({ labels: ['claude-opus'] }), {}, { model: 'haiku', maxTurns: 30 });
+    expect(labelled.config).toMatchObject({ model: 'opus', maxTurns: 30 });
+  });
+
+  it('applies an escalated retry ladder step after the overrides', () => {
+    const escalated = resolveClaudeSettings(claude, ticket(), {}, { model: 'opus', maxTurns: 100 }, true);
+    expect(escalated.config).toMatchObject({ model: 'opus', maxTurns: 100 });
+
+    const labelled = resolveClaudeSettings(claude, ticket({ type: 'Bug' }), {}, { model: 'opus' }, true);
+    expect(labelled.config).toMatchObject({ model: 'opus', maxTurns: 80 });
+
+    const pinned = resolveClaudeSettings(claude, ticket({ priority: 'Highest' }), {}, { model: 'haiku', maxTurns: 30 }, true);
+    expect(pinned.config).toMatchObject({ model: 'haiku', maxTurns: 30 });
+  });
+});
+
+describe('validateOverrides', () => {
+  it('accepts valid overrides', () => {
+    expect(validateOverrides(claude.overrides!)).toEqual([]);
+  });
+
+  it('reports bad rules and settings', () => {
+    const errors = validateOverrides([
+      { when: 'colour == red' },
+      { when: [], model: 'gpt' as any },
+      { when: 'issue_type == Bug', maxTurns: 0, timeout: -1 },
+    ]);
+
+    expect(errors).toEqual([
+      expect.stringContaining('claude.overrides[0].when: unknown field "colour"'),
+      'claude.overrides[1].when is required',
+      'claude.overrides[2].maxTurns must be at least 1',
+      'claude.overrides[2].timeout must be a positive number of milliseconds',
+    ]);
+  });
+});
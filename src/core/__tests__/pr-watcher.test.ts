@@ -0,0 +1,139 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PrWatcher } from '../pr-watcher';
+import { PullRequestTracker } from '../pr-tracker';
+import { GlobalConfig, ProjectConfig } from '../config';
+import { GitHubClient } from '../../clients/github';
+import { CheckRun, PullRequest } from '../../clients/git-host';
+import { JiraClient } from '../../clients/jira';
+import { Logger } from '../../utils/logger';
+
+jest.mock('../../clients/github');
+jest.mock('../../clients/jira');
+
+const getPullRequest = GitHubClient.prototype.getPullRequest as jest.MockedFunction<GitHubClient['getPullRequest']>;
+const getRequiredChecks = GitHubClient.prototype.getRequiredChecks as jest.MockedFunction<GitHubClient['getRequiredChecks']>;
+const getChecks = GitHubClient.prototype.getChecks as jest.MockedFunction<GitHubClient['getChecks']>;
+const markReady = GitHubClient.prototype.markReady as jest.MockedFunction<GitHubClient['markReady']>;
+const transitionTicket = JiraClient.prototype.transitionTicket as jest.MockedFunction<JiraClient['transitionTicket']>;
+const addComment = JiraClient.prototype.addComment as jest.MockedFunction<JiraClient['addComment']>;
+
+function pullRequest(state: string, headSha: string = 'abc'): PullRequest {
+  return { number: 7, url: 'https://github.com/acme/web/pull/7', title: 'PROJ-1', state, headSha };
+}
+
+function check(name: string, bucket: CheckRun['bucket']): CheckRun {
+  return { name, state: bucket === 'fail' ? 'FAILURE' : 'SUCCESS', bucket, link: '' };
+}
+
+describe('PrWatcher', () => {
+  let dataDir: string;
+  let tracker: PullRequestTracker;
+  let watcher: PrWatcher;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jcb-prs-'));
+    tracker = new PullRequestTracker(dataDir);
+
+    const globalConfig = { bot: { dataDir }, jira: {} } as GlobalConfig;
+    const projectConfig = {
+      project: { jiraKey: 'PROJ', repo: 'acme/web' },
+      workflow: { transitions: { onPrMerged: 'Done', onPrFailed: 'Needs Work' } },
+    } as ProjectConfig;
+    watcher = new PrWatcher(globalConfig, projectConfig, dataDir, new Logger('error'));
+
+    await tracker.track({
+      ticketKey: 'PROJ-1',
+      projectKey: 'PROJ',
+      number: 7,
+      url: 'https://github.com/acme/web/pull/7',
+      branchName: 'feature/PROJ-1',
+      openedAt: new Date().toISOString(),
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('transitions merged PRs to onPrMerged and stops tracking them', async () => {
+    getPullRequest.mockResolvedValue(pullRequest('MERGED'));
+
+    await watcher.check();
+
+    expect(transitionTicket).toHaveBeenCalledWith('PROJ-1', 'Done');
+    expect(addComment).not.toHaveBeenCalled();
+    expect(await tracker.get('PROJ-1')).toBeNull();
+  });
+
+  it('applies onPrFailed with a comment when a PR is closed unmerged', async () => {
+    getPullRequest.mockResolvedValue(pullRequest('CLOSED'));
+
+    await watcher.check();
+
+    expect(addComment).toHaveBeenCalledWith('PROJ-1', expect.stringContaining('closed without being merged'));
+    expect(transitionTicket).toHaveBeenCalledWith('PROJ-1', 'Needs Work');
+    expect(await tracker.get('PROJ-1')).toBeNull();
+  });
+
+  it('reports failing required checks once per head commit', async () => {
+    getPullRequest.mockResolvedValue(pullRequest('OPEN', 'abc'));
+    getRequiredChecks.mockResolvedValue([check('build', 'pass'), check('test', 'fail')]);
+
+    await watcher.check();
+    await watcher.check();
+
+    expect(addComment).toHaveBeenCalledTimes(1);
+    expect(addComment).toHaveBeenCalledWith('PROJ-1', expect.stringContaining('- test: failure'));
+    expect(transitionTicket).toHaveBeenCalledWith('PROJ-1', 'Needs Work');
+    expect(await tracker.get('PROJ-1')).toMatchObject({ failureReportedFor: 'abc' });
+
+    getPullRequest.mockResolvedValue(pullRequest('OPEN', 'def'));
+    await watcher.check();
+    expect(addComment).toHaveBeenCalledTimes(2);
+  });
+
+  it('leaves open PRs with passing checks alone', async () => {
+    getPullRequest.mockResolvedValue(pullRequest('OPEN'));
+    getRequiredChecks.mockResolvedValue([check('build', 'pass'), check('deploy', 'pending')]);
+
+    await watcher.check();
+
+    expect(transitionTicket).not.toHaveBeenCalled();
+    expect(await tracker.get('PROJ-1')).toMatchObject({ lastCheckedAt: expect.any(String) });
+  });
+
+  it('marks drafts ready once all their checks pass', async () => {
+    await tracker.update('PROJ-1', { readyWhenGreen: true });
+    getPullRequest.mockResolvedValue(pullRequest('OPEN'));
+    getRequiredChecks.mockResolvedValue([]);
+    getChecks.mockResolvedValue([check('build', 'pass'), check('deploy', 'pending')]);
+
+    await watcher.check();
+    expect(markReady).not.toHaveBeenCalled();
+
+    getChecks.mockResolvedValue([check('build', 'pass'), check('deploy', 'pass')]);
+    await watcher.check();
+    await watcher.check();
+
+    expect(markReady).toHaveBeenCalledTimes(1);
+    expect(markReady).toHaveBeenCalledWith(7);
+    expect(await tracker.get('PROJ-1')).toMatchObject({ readyWhenGreen: false });
+  });
+
+  it('waits before marking a draft without checks ready', async () => {
+    await tracker.update('PROJ-1', { readyWhenGreen: true });
+    getPullRequest.mockResolvedValue(pullRequest('OPEN'));
+    getRequiredChecks.mockResolvedValue([]);
+    getChecks.mockResolvedValue([]);
+
+    await watcher.check();
+    expect(markReady).not.toHaveBeenCalled();
+
+    await tracker.update('PROJ-1', { openedAt: new Date(Date.now() - 20 * 60 * 1000).toISOString() });
+    await watcher.check();
+    expect(markReady).toHaveBeenCalledWith(7);
+  });
+});
@@ -0,0 +1,168 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TicketQueue } from '../queue';
+import { JiraTicket } from '../../clients/jira';
+
+function ticket(key: string, priority: string = 'Medium'): JiraTicket {
+  return {
+    key,
+    summary: `Summary for ${key}`,
+    description: null,
+    status: 'To Do',
+    type: 'Task',
+    priority,
+    assignee: null,
+    reporter: 'Reporter',
+    attachments: [],
+    comments: [],
+    labels: [],
+    customFields: {},
+  };
+}
+
+describe('TicketQueue', () => {
+  let dataDir: string;
+  let queue: TicketQueue;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jcb-queue-'));
+    queue = new TicketQueue(dataDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('does not enqueue the same ticket twice', async () => {
+    expect(await queue.enqueue(ticket('PROJ-1'), 'PROJ')).toBe(true);
+    expect(await queue.enqueue(ticket('PROJ-1'), 'PROJ')).toBe(false);
+    expect(await queue.list()).toHaveLength(1);
+  });
+
+  it('dequeues by priority, then by age', async () => {
+    await queue.enqueue(ticket('PROJ-1', 'Low'), 'PROJ');
+    await queue.enqueue(ticket('PROJ-2', 'Medium'), 'PROJ');
+    await queue.enqueue(ticket('PROJ-3', 'Highest'), 'PROJ');
+    await queue.enqueue(ticket('PROJ-4', 'Medium'), 'PROJ');
+
+    const order: string[] = [];
+    let entry = await queue.dequeue('PROJ');
+    while (entry) {
+      order.push(entry.ticketKey);
+      entry = await queue.dequeue('PROJ');
+    }
+
+    expect(order).toEqual(['PROJ-3', 'PROJ-2', 'PROJ-4', 'PROJ-1']);
+  });
+
+  it('passes over busy tickets', async () => {
+    await queue.enqueue(ticket('PROJ-1', 'High'), 'PROJ');
+    await queue.enqueue(ticket('PROJ-2', 'Low'), 'PROJ');
+
+    expect((await queue.dequeue('PROJ', ['PROJ-1']))?.ticketKey).toBe('PROJ-2');
+    expect(await queue.dequeue('PROJ', ['PROJ-1'])).toBeNull();
+  });
+
+  it('marks dequeued tickets in progress and counts attempts', async () => {
+    await queue.enqueue(ticket('PROJ-1'), 'PROJ');
+
+    const entry = await queue.dequeue('PROJ');
+
+    expect(entry?.status).toBe('in_progress');
+    expect(entry?.attempts).toBe(1);
+    expect(await queue.dequeue('PROJ')).toBeNull();
+  });
+
+  it('keeps finished tickets out of the pending set across instances', async () => {
+    await queue.enqueue(ticket('PROJ-1'), 'PROJ');
+    await queue.dequeue('PROJ');
+    await queue.fail('PROJ-1', 'boom');
+
+    const reopened = new TicketQueue(dataDir);
+    expect(await reopened.enqueue(ticket('PROJ-1'), 'PROJ')).toBe(false);
+    expect(await reopened.dequeue('PROJ')).toBeNull();
+    expect((await reopened.get('PROJ-1'))?.lastError).toBe('boom');
+  });
+
+  it('returns interrupted tickets to pending', async () => {
+    await queue.enqueue(ticket('PROJ-1'), 'PROJ');
+    await queue.enqueue(ticket('OTHER-1'), 'OTHER');
+    await queue.dequeue('PROJ');
+    await queue.dequeue('OTHER');
+
+    const recovered = await new TicketQueue(dataDir).recoverInterrupted('PROJ');
+
+    expect(recovered.map(e => e.ticketKey)).toEqual(['PROJ-1']);
+    expect((await queue.get('PROJ-1'))?.status).toBe('pending');
+    expect((await queue.get('OTHER-1'))?.status).toBe('in_progress');
+  });
+
+  it('retries finished tickets and refuses in-progress ones', async () => {
+    await queue.enqueue(ticket('PROJ-1'), 'PROJ');
+    await queue.dequeue('PROJ');
+
+    await expect(queue.retry('PROJ-1')).rejects.toThrow('in progress');
+
+    await queue.fail('PROJ-1', 'boom');
+    const retried = await queue.retry('PROJ-1');
+
+    expect(retried.status).toBe('pending');
+    expect(retried.lastError).toBeUndefined();
+    expect((await queue.dequeue('PROJ'))?.attempts).toBe(2);
+  });
+
+  it('queues a skipped ticket again once it changes in JIRA', async () => {
+    await queue.enqueue(ticket('PROJ-1'), 'PROJ');
+    await queue.enqueue(ticket('PROJ-2'), 'PROJ');
+    await queue.dequeue('PROJ');
+    await queue.dequeue('PROJ');
+    await queue.skip('PROJ-1', 'Needs more information', '2024-05-01T10:00:00.000+0000');
+    await queue.skip('PROJ-2', 'Skipped manually');
+
+    const updated = (key: string, at: string) => ({ ...ticket(key), updated: at });
+    expect(await queue.enqueue(updated('PROJ-1', '2024-05-01T12:00:00.000+0200'), 'PROJ')).toBe(false);
+    expect(await queue.enqueue(updated('PROJ-2', '2024-05-02T09:00:00.000+0000'), 'PROJ')).toBe(false);
+    expect(await queue.enqueue(updated('PROJ-1', '2024-05-02T09:00:00.000+0000'), 'PROJ')).toBe(true);
+
+    expect(await queue.get('PROJ-1')).toMatchObject({ status: 'pending', attempts: 0 });
+    expect((await queue.get('PROJ-2'))?.status).toBe('skipped');
+  });
+
+  it('releases a claimed ticket without counting the attempt', async () => {
+    await queue.enqueue(ticket('PROJ-1'), 'PROJ');
+    await queue.dequeue('PROJ');
+
+    await queue.release('PROJ-1', 'HEAD is detached');
+
+    expect(await queue.get('PROJ-1')).toMatchObject({ status: 'pending', attempts: 0, lastError: 'HEAD is detached' });
+    expect((await queue.dequeue('PROJ'))?.attempts).toBe(1);
+  });
+
+  it('holds deferred tickets back until their retry time', async () => {
+    await queue.enqueue(ticket('PROJ-1'), 'PROJ');
+    await queue.dequeue('PROJ');
+
+    await queue.defer('PROJ-1', 'HTTP 502', {
+      retryStep: 1,
+      transientFailures: 0,
+      retryAt: new Date(Date.now() + 60_000).toISOString(),
+    });
+    expect(await queue.dequeue('PROJ')).toBeNull();
+
+    await queue.defer('PROJ-1', 'HTTP 502', {
+      retryStep: 1,
+      transientFailures: 0,
+      retryAt: new Date(Date.now() - 1000).toISOString(),
+    });
+    expect(await queue.dequeue('PROJ')).toMatchObject({ ticketKey: 'PROJ-1', attempts: 2, retryStep: 1 });
+  });
+
+  it('pauses and resumes', async () => {
+    expect(await queue.isPaused()).toBe(false);
+    await queue.pause();
+    expect(await new TicketQueue(dataDir).isPaused()).toBe(true);
+    await queue.resume();
+    expect(await queue.isPaused()).toBe(false);
+  });
+});
@@ -0,0 +1,107 @@
+import { RetryPolicy, validateRetryConfig } from '../retry';
+import { classifyFailure } from '../failures';
+import { GitError } from '../../clients/git';
+import { GlobalConfig, ProjectConfig } from '../config';
+import { QueueEntry } from '../queue';
+import { JiraClient } from '../../clients/jira';
+import { Logger } from '../../utils/logger';
+
+jest.mock('../../clients/jira');
+
+const jira = JiraClient.prototype as jest.Mocked<JiraClient>;
+
+function policy(retry?: ProjectConfig['claude']['retry']): RetryPolicy {
+  const projectConfig = { claude: { model: 'sonnet', maxTurns: 50, retry } } as ProjectConfig;
+  return new RetryPolicy({ jira: {} } as GlobalConfig, projectConfig, new Logger('error'));
+}
+
+function entry(changes: Partial<QueueEntry> = {}): QueueEntry {
+  return {
+    ticketKey: 'PROJ-1',
+    projectKey: 'PROJ',
+    summary: 'Fix the footer',
+    priority: 'Medium',
+    status: 'in_progress',
+    attempts: 1,
+    enqueuedAt: '2024-05-01T00:00:00Z',
+    updatedAt: '2024-05-01T00:00:00Z',
+    ...changes,
+  };
+}
+
+describe('classifyFailure', () => {
+  it('separates transient, no-change, Claude and fatal failures', () => {
+    expect(classifyFailure(new Error('Request failed with status code 503'))).toBe('transient');
+    expect(classifyFailure('GraphQL: API rate limit exceeded for user')).toBe('transient');
+    expect(classifyFailure('error: failed to push some refs to github.com:acme/web.git')).toBe('transient');
+    expect(classifyFailure('No changes were made')).toBe('no_changes');
+    expect(classifyFailure('Claude Code failed: Claude stopped: error_max_turns')).toBe('claude');
+    expect(classifyFailure('Claude Code failed: Stopped at the budget cap of $5.00')).toBe('fatal');
+    expect(classifyFailure('Transition "Done" not found')).toBe('fatal');
+  });
+
+  it('uses the kind of git errors', () => {
+    const authFailed = new GitError('git push failed: fatal: Authentication failed\nerror: failed to push some refs', 'auth_failed');
+    expect(classifyFailure(authFailed)).toBe('fatal');
+    expect(classifyFailure(new GitError('git push failed: hook declined', 'push_rejected'))).toBe('transient');
+    expect(classifyFailure(new GitError('Invalid branch "feature/a..b"', 'invalid_branch'))).toBe('fatal');
+  });
+});
+
+describe('RetryPolicy', () => {
+  const now = new Date('2024-05-01T12:00:00Z');
+  const ladder = [{ model: 'sonnet' as const, maxTurns: 50 }, { model: 'opus' as const, maxTurns: 100 }];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('keeps the old behaviour without claude.retry', () => {
+    const p = policy();
+    expect(p.isEnabled()).toBe(false);
+    expect(p.decide(entry(), 'transient', now)).toEqual({ action: 'fail' });
+    expect(p.stepFor(0)).toEqual({ model: 'sonnet', maxTurns: 50 });
+    expect(p.hasLadder()).toBe(false);
+  });
+
+  it('escalates Claude failures up the ladder, then gives up', () => {
+    const p = policy({ ladder, backoffSeconds: 60 });
+
+    expect(p.decide(entry(), 'no_changes', now)).toEqual({
+      action: 'retry',
+      step: 1,
+      transientFailures: 0,
+      retryAt: '2024-05-01T12:01:00.000Z',
+    });
+    expect(p.stepFor(1)).toEqual({ model: 'opus', maxTurns: 100 });
+    expect(p.hasLadder()).toBe(true);
+    expect(p.decide(entry({ retryStep: 1, attempts: 2 }), 'claude', now)).toEqual({ action: 'give_up' });
+  });
+
+  it('retries transient failures on the same step with growing backoff', () => {
+    const p = policy({ ladder, transientRetries: 2, backoffSeconds: 60, maxBackoffSeconds: 100 });
+
+    expect(p.decide(entry({ attempts: 2, transientFailures: 1 }), 'transient', now)).toEqual({
+      action: 'retry',
+      step: 0,
+      transientFailures: 2,
+      retryAt: '2024-05-01T12:01:40.000Z',
+    });
+    expect(p.decide(entry({ transientFailures: 2 }), 'transient', now)).toEqual({ action: 'give_up' });
+    expect(p.decide(entry(), 'fatal', now)).toEqual({ action: 'give_up' });
+  });
+
+  it('labels the ticket and explains when giving up', async () => {
+    await policy({ giveUpLabel: 'bot-stuck' }).giveUp('PROJ-1', 3, 'No changes were made');
+
+    expect(jira.addLabels).toHaveBeenCalledWith('PROJ-1', ['bot-stuck']);
+    expect(jira.addComment.mock.calls[0][1]).toContain('after 3 attempt(s)');
+  });
+
+  it('validates the ladder', () => {
+    expect(validateRetryConfig({ ladder: [{ model: 'gpt' as 'opus', maxTurns: 0 }] })).toEqual([
+      'claude.retry.ladder[0].model must be one of sonnet, opus, haiku',
+      'claude.retry.ladder[0].maxTurns must be at least 1',
+    ]);
+  });
+});
@@ -0,0 +1,176 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ReviewResponder, REVIEW_REPLY_MARKER } from '../review-responder';
+import { PullRequestTracker } from '../pr-tracker';
+import { RunHistory } from '../history';
+import { GlobalConfig, ProjectConfig } from '../config';
+import { GitHubClient } from '../../clients/github';
+import { ReviewComment } from '../../clients/git-host';
+import { ClaudeClient } from '../../clients/claude';
+import { JiraClient } from '../../clients/jira';
+import { Logger } from '../../utils/logger';
+
+jest.mock('../../clients/github');
+jest.mock('../../clients/claude');
+jest.mock('../../clients/jira');
+
+const github = GitHubClient.prototype as jest.Mocked<GitHubClient>;
+const claude = ClaudeClient.prototype as jest.Mocked<ClaudeClient>;
+const jira = JiraClient.prototype as jest.Mocked<JiraClient>;
+
+function comment(id: number, createdAt: string, body: string = 'Please rename this'): ReviewComment {
+  return {
+    id,
+    kind: 'inline',
+    author: 'reviewer',
+    body,
+    createdAt,
+    url: `https://github.com/acme/web/pull/7#discussion_r${id}`,
+    path: 'src/footer.tsx',
+    line: 12,
+  };
+}
+
+describe('ReviewResponder', () => {
+  let dataDir: string;
+  let tracker: PullRequestTracker;
+  let responder: ReviewResponder;
+  let globalConfig: GlobalConfig;
+  let projectConfig: ProjectConfig;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jcb-review-'));
+    tracker = new PullRequestTracker(dataDir);
+
+    globalConfig = { bot: { dataDir }, jira: {} } as GlobalConfig;
+    projectConfig = {
+      project: { jiraKey: 'PROJ', repo: 'acme/web' },
+      workflow: { addressReviews: true, transitions: {} },
+      claude: {},
+    } as ProjectConfig;
+    responder = new ReviewResponder(globalConfig, projectConfig, dataDir, new Logger('error'), { isolated: true });
+
+    await tracker.track({
+      ticketKey: 'PROJ-1',
+      projectKey: 'PROJ',
+      number: 7,
+      url: 'https://github.com/acme/web/pull/7',
+      branchName: 'feature/PROJ-1',
+      openedAt: '2024-05-01T00:00:00Z',
+      reviewsAddressedAt: '2024-05-02T00:00:00Z',
+    });
+
+    github.getPullRequest.mockResolvedValue({
+      number: 7,
+      url: 'https://github.com/acme/web/pull/7',
+      title: 'PROJ-1: Update the footer',
+      state: 'OPEN',
+      headSha: 'abc',
+      branchName: 'feature/PROJ-1',
+    });
+    github.hasCommittableChanges.mockResolvedValue(true);
+    github.getDiff.mockResolvedValue('diff --git a/src/footer.tsx b/src/footer.tsx');
+    github.hasNewCommits.mockResolvedValue(true);
+    github.getCommitSummary.mockResolvedValue('**Commits:**\n- PROJ-1: Address review feedback');
+    claude.addressReview.mockResolvedValue({ success: true, output: '' });
+    jira.getTicket.mockRejectedValue(new Error('offline'));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('finds PRs with comments newer than the last addressed one, ignoring its own replies', async () => {
+    github.getReviewComments.mockResolvedValue([
+      comment(1, '2024-05-01T12:00:00Z'),
+      comment(2, '2024-05-03T12:00:00Z', `${REVIEW_REPLY_MARKER}\nAddressed`),
+    ]);
+    expect(await responder.findPending()).toEqual([]);
+
+    github.getReviewComments.mockResolvedValue([comment(3, '2024-05-03T12:00:00Z')]);
+    expect((await responder.findPending()).map(pr => pr.number)).toEqual([7]);
+  });
+
+  it('runs Claude on the existing branch, pushes and replies on the PR', async () => {
+    github.getReviewComments.mockResolvedValue([
+      comment(1, '2024-05-01T12:00:00Z'),
+      comment(3, '2024-05-03T12:00:00Z'),
+    ]);
+
+    const result = await responder.address(7);
+
+    expect(result).toMatchObject({ success: true, addressed: 1, pushed: true });
+    expect(github.checkoutRemoteBranch).toHaveBeenCalledWith('feature/PROJ-1');
+    expect(github.createBranch).not.toHaveBeenCalled();
+    expect(claude.addressReview.mock.calls[0][0]).toMatchObject({ ticketKey: 'PROJ-1', comments: [{ id: 3 }] });
+    expect(github.commitChanges).toHaveBeenCalledWith('PROJ-1: Address review feedback');
+    expect(github.pushBranch).toHaveBeenCalledWith('feature/PROJ-1', 'origin/feature/PROJ-1');
+    expect(github.commentOnPullRequest.mock.calls[0][1]).toContain('src/footer.tsx:12');
+    expect(github.detachHead).toHaveBeenCalled();
+    expect(await tracker.get('PROJ-1')).toMatchObject({ reviewsAddressedAt: '2024-05-03T12:00:00Z' });
+  });
+
+  it('records the run and keeps it within the ticket budget', async () => {
+    github.getReviewComments.mockResolvedValue([comment(3, '2024-05-03T12:00:00Z')]);
+    claude.addressReview.mockResolvedValue({ success: true, output: '', metrics: { costUsd: 1.5 } });
+    responder = new ReviewResponder(
+      { bot: { dataDir }, jira: {} } as GlobalConfig,
+      {
+        project: { jiraKey: 'PROJ', repo: 'acme/web' },
+        workflow: { addressReviews: true, transitions: {} },
+        claude: { model: 'sonnet', budget: { perTicket: 5 } },
+      } as ProjectConfig,
+      dataDir,
+      new Logger('error'),
+      { isolated: true, trigger: 'daemon' }
+    );
+
+    await responder.address(7);
+
+    expect(claude.addressReview.mock.calls[0][2]).toMatchObject({ maxCostUsd: 5 });
+    expect(new RunHistory(dataDir).read()).toEqual([
+      expect.objectContaining({ ticketKey: 'PROJ-1', task: 'review', trigger: 'daemon', success: true, costUsd: 1.5 }),
+    ]);
+  });
+
+  it('refuses to carry uncommitted changes onto the PR branch', async () => {
+    github.getReviewComments.mockResolvedValue([comment(3, '2024-05-03T12:00:00Z')]);
+    github.getCurrentBranch.mockResolvedValue('develop');
+    github.getStatus.mockResolvedValue({ staged: [], unstaged: ['src/mine.ts'], untracked: [] });
+    const inPlace = new ReviewResponder(globalConfig, projectConfig, dataDir, new Logger('error'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const result = await inPlace.address(7);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('uncommitted changes (src/mine.ts)');
+    expect(github.checkoutRemoteBranch).not.toHaveBeenCalled();
+    expect(github.commentOnPullRequest).not.toHaveBeenCalled();
+    expect((await inPlace.findPending()).map(pr => pr.number)).toEqual([7]);
+  });
+
+  it('does nothing without new comments', async () => {
+    github.getReviewComments.mockResolvedValue([comment(1, '2024-05-01T12:00:00Z')]);
+
+    const result = await responder.address(7);
+
+    expect(result).toMatchObject({ success: true, addressed: 0 });
+    expect(claude.addressReview).not.toHaveBeenCalled();
+  });
+
+  it('reports a failure on the PR and does not retry the same comments', async () => {
+    github.getReviewComments.mockResolvedValue([comment(3, '2024-05-03T12:00:00Z')]);
+    claude.addressReview.mockResolvedValue({ success: false, output: '', error: 'Claude exited with code 1' });
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const result = await responder.address(7);
+
+    expect(result.success).toBe(false);
+    expect(github.pushBranch).not.toHaveBeenCalled();
+    expect(github.commentOnPullRequest.mock.calls[0][1]).toContain('Could not address the review feedback');
+    expect(await responder.findPending()).toEqual([]);
+  });
+});
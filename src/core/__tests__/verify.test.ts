@@ -0,0 +1,73 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { runVerification, formatFailures, validateVerifyConfig } from '../verify';
+
+describe('runVerification', () => {
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'verify-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('runs every command and keeps the output of failures', async () => {
+    const results = await runVerification({
+      commands: [
+        { name: 'lint', run: 'node -e "process.exit(0)"' },
+        { name: 'test', run: 'node -e "console.log(\'1 failing\'); console.error(\'expected 2\'); process.exit(3)"' },
+        { name: 'typecheck', run: 'node -e "require(\'fs\').writeFileSync(\'ran\', \'\')"' },
+      ],
+    }, cwd);
+
+    expect(results.map(r => [r.name, r.success, r.exitCode])).toEqual([
+      ['lint', true, 0],
+      ['test', false, 3],
+      ['typecheck', true, 0],
+    ]);
+    expect(fs.existsSync(path.join(cwd, 'ran'))).toBe(true);
+    expect(results[1].output).toContain('1 failing');
+    expect(results[1].output).toContain('expected 2');
+
+    const failures = formatFailures(results);
+    expect(failures).toContain('(test, exited with code 3)');
+    expect(failures).not.toContain('lint');
+  });
+
+  it('stops commands that pass their timeout', async () => {
+    const [result] = await runVerification({
+      commands: [{ run: 'node -e "setTimeout(() => {}, 30000)"', timeoutSeconds: 0.5 }],
+    }, cwd);
+
+    expect(result.success).toBe(false);
+    expect(result.timedOut).toBe(true);
+    expect(formatFailures([result])).toContain('timed out');
+  });
+});
+
+describe('formatFailures', () => {
+  it('keeps only the last lines of long output', () => {
+    const output = Array.from({ length: 100 }, (_, i) => `line ${i + 1}`).join('\n');
+    const failures = formatFailures([{
+      name: 'test', command: 'npm test', success: false, timedOut: false, exitCode: 1, output, durationMs: 10,
+    }], 10);
+
+    expect(failures).toContain('... (90 earlier lines omitted)');
+    expect(failures).toContain('line 100');
+    expect(failures).not.toContain('line 90\n');
+  });
+});
+
+describe('validateVerifyConfig', () => {
+  it('reports missing commands and bad limits', () => {
+    expect(validateVerifyConfig({ commands: [{ run: 'npm test' }], fixRounds: 2 })).toEqual([]);
+    expect(validateVerifyConfig({ commands: [{ run: '' }], fixRounds: -1, timeoutSeconds: 0 })).toEqual([
+      'verify.commands[0].run is required',
+      'verify.fixRounds must be a number of at least 0',
+      'verify.timeoutSeconds must be a positive number',
+    ]);
+  });
+});
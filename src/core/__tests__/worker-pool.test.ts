@@ -0,0 +1,60 @@
+import { WorkerPool } from '../worker-pool';
+
+function deferred(): { promise: Promise<void>; resolve: () => void; reject: (error: Error) => void } {
+  let resolve: () => void = () => undefined;
+  let reject: (error: Error) => void = () => undefined;
+  const promise = new Promise<void>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe('WorkerPool', () => {
+  it('runs up to its size and frees a slot when a task finishes', async () => {
+    const pool = new WorkerPool(2);
+    const first = deferred();
+    const second = deferred();
+
+    const running = pool.run('PROJ-1', () => first.promise);
+    pool.run('PROJ-2', () => second.promise);
+    expect(pool.hasCapacity()).toBe(false);
+    expect(pool.getActiveKeys()).toEqual(['PROJ-1', 'PROJ-2']);
+
+    first.resolve();
+    await running;
+    expect(pool.hasCapacity()).toBe(true);
+    expect(pool.getActiveKeys()).toEqual(['PROJ-2']);
+  });
+
+  it('frees the slot of a task that rejects', async () => {
+    const pool = new WorkerPool(1);
+    const task = deferred();
+
+    const running = pool.run('PROJ-1', () => task.promise);
+    task.reject(new Error('boom'));
+
+    await expect(running).resolves.toBeUndefined();
+    expect(pool.hasCapacity()).toBe(true);
+  });
+
+  it('refuses a second task for the same ticket', () => {
+    const pool = new WorkerPool(2);
+    pool.run('PROJ-1', () => deferred().promise);
+
+    expect(() => pool.run('PROJ-1', async () => undefined)).toThrow('PROJ-1 is already running');
+    expect(pool.getActiveKeys()).toEqual(['PROJ-1']);
+  });
+
+  it('has at least one slot and drains every task', async () => {
+    const pool = new WorkerPool(0);
+    const task = deferred();
+    pool.run('PROJ-1', () => task.promise);
+    expect(pool.hasCapacity()).toBe(false);
+
+    const drained = pool.drain();
+    task.resolve();
+    await drained;
+    expect(pool.getActiveKeys()).toEqual([]);
+  });
+});
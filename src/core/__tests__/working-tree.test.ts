@@ -0,0 +1,60 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WorkingTreeGuard } from '../working-tree';
+import { ProjectConfig } from '../config';
+import { GitRepository, runGit } from '../../clients/git';
+import { Logger } from '../../utils/logger';
+
+describe('WorkingTreeGuard', () => {
+  let workDir: string;
+  let repo: GitRepository;
+
+  const git = (...args: string[]) => runGit(args, workDir);
+
+  function guard(dirtyTree?: ProjectConfig['workflow']['dirtyTree']): WorkingTreeGuard {
+    const projectConfig = { workflow: { dirtyTree } } as ProjectConfig;
+    return new WorkingTreeGuard(repo, projectConfig, workDir, new Logger('error'));
+  }
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jcb-working-tree-'));
+    git('init', '--initial-branch=develop');
+    git('config', 'user.email', 'bot@example.com');
+    git('config', 'user.name', 'Bot');
+    fs.writeFileSync(path.join(workDir, 'README.md'), 'hello\n');
+    git('add', '-A');
+    git('commit', '-m', 'Initial commit');
+    repo = new GitRepository(workDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('refuses uncommitted changes by default but ignores never-stage paths', async () => {
+    fs.writeFileSync(path.join(workDir, '.env'), 'TOKEN=x\n');
+    expect(await guard().prepare('PROJ-1')).toBeNull();
+
+    fs.writeFileSync(path.join(workDir, 'README.md'), 'edited\n');
+    expect(await guard().prepare('PROJ-1')).toContain('uncommitted changes (README.md)');
+  });
+
+  it('stashes changes and restores them on the branch they came from', async () => {
+    fs.writeFileSync(path.join(workDir, 'README.md'), 'edited\n');
+    const stashing = guard('stash');
+
+    expect(await stashing.prepare('review of PR #7')).toBeNull();
+    expect(fs.readFileSync(path.join(workDir, 'README.md'), 'utf8')).toBe('hello\n');
+
+    git('checkout', '-q', '-b', 'feature/PROJ-1');
+    await stashing.restore();
+    expect(git('rev-parse', '--abbrev-ref', 'HEAD').trim()).toBe('develop');
+    expect(fs.readFileSync(path.join(workDir, 'README.md'), 'utf8')).toBe('edited\n');
+  });
+
+  it('refuses a detached HEAD', async () => {
+    git('checkout', '-q', '--detach');
+    expect(await guard('stash').prepare('PROJ-1')).toContain('HEAD is detached');
+  });
+});
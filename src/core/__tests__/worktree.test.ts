@@ -0,0 +1,86 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WorktreeManager } from '../worktree';
+import { runGit } from '../../clients/git';
+import { Logger } from '../../utils/logger';
+
+describe('WorktreeManager', () => {
+  let root: string;
+  let repoDir: string;
+  let manager: WorktreeManager;
+  let logger: Logger;
+
+  const git = (cwd: string, ...args: string[]) => runGit(args, cwd);
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'jcb-worktree-'));
+    const remote = path.join(root, 'remote.git');
+    repoDir = path.join(root, 'repo');
+    git(root, 'init', '--bare', '--initial-branch=develop', remote);
+    git(root, 'clone', remote, repoDir);
+    git(repoDir, 'config', 'user.email', 'bot@example.com');
+    git(repoDir, 'config', 'user.name', 'Bot');
+    git(repoDir, 'checkout', '-b', 'develop');
+    fs.writeFileSync(path.join(repoDir, 'README.md'), 'hello\n');
+    git(repoDir, 'add', '-A');
+    git(repoDir, 'commit', '-m', 'Initial commit');
+    git(repoDir, 'push', '-u', 'origin', 'develop');
+
+    manager = new WorktreeManager(repoDir, path.join(root, 'worktrees'));
+    logger = new Logger('error');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('creates a detached worktree at the remote base branch and removes it', async () => {
+    const worktreePath = await manager.create('PROJ-1', 'develop');
+
+    expect(fs.readFileSync(path.join(worktreePath, 'README.md'), 'utf8')).toBe('hello\n');
+    expect(git(worktreePath, 'rev-parse', '--abbrev-ref', 'HEAD').trim()).toBe('HEAD');
+    expect(git(repoDir, 'worktree', 'list')).toContain(worktreePath);
+
+    await manager.remove(worktreePath);
+    expect(fs.existsSync(worktreePath)).toBe(false);
+    expect(git(repoDir, 'worktree', 'list')).not.toContain(worktreePath);
+  });
+
+  it('replaces a worktree left over from a crashed run', async () => {
+    const first = await manager.create('PROJ-1', 'develop');
+    fs.writeFileSync(path.join(first, 'stale.txt'), 'x\n');
+
+    const second = await manager.create('PROJ-1', 'develop');
+
+    expect(second).toBe(first);
+    expect(fs.existsSync(path.join(second, 'stale.txt'))).toBe(false);
+  });
+
+  it('prints the setup command output through the logger', async () => {
+    const output = jest.spyOn(logger, 'output').mockImplementation(() => undefined);
+
+    const worktreePath = await manager.create('PROJ-1', 'develop', 'echo installing && touch ready', logger);
+
+    expect(output).toHaveBeenCalledWith('installing');
+    expect(fs.existsSync(path.join(worktreePath, 'ready'))).toBe(true);
+  });
+
+  it('removes the worktree when the setup command fails', async () => {
+    jest.spyOn(logger, 'output').mockImplementation(() => undefined);
+
+    await expect(manager.create('PROJ-1', 'develop', 'exit 3', logger)).rejects.toThrow('exited with code 3');
+
+    expect(fs.existsSync(path.join(root, 'worktrees', 'PROJ-1'))).toBe(false);
+    expect(git(repoDir, 'worktree', 'list').trim().split('\n')).toHaveLength(1);
+  });
+
+  it('removes every worktree on start', async () => {
+    await manager.create('PROJ-1', 'develop');
+    await manager.create('PROJ-2', 'develop');
+
+    expect((await manager.removeAll()).sort()).toEqual(['PROJ-1', 'PROJ-2']);
+    expect(fs.readdirSync(path.join(root, 'worktrees'))).toEqual([]);
+  });
+});
@@ -0,0 +1,103 @@
+import { ClaudeConfig } from './config';
+
+export const TICKET_SIZES = ['XS', 'S', 'M', 'L', 'XL'] as const;
+
+export type TicketSize = typeof TICKET_SIZES[number];
+
+export interface AssessmentConfig {
+  model?: ClaudeConfig['model'];  // defaults to claude.model
+  maxTurns?: number;              // default: 5
+  // Clarity from 1 (unworkable) to 5 (fully specified); below this the ticket needs info (default: 3)
+  minClarity?: number;
+  // Status the ticket moves to when it needs info; no transition when empty (default: Needs Info)
+  needsInfoStatus?: string;
+}
+
+export interface Assessment {
+  clarity: number;
+  size: TicketSize;
+  missingInformation: string[];
+  questions: string[];
+}
+
+export const DEFAULT_ASSESSMENT_MAX_TURNS = 5;
+export const DEFAULT_MIN_CLARITY = 3;
+export const DEFAULT_NEEDS_INFO_STATUS = 'Needs Info';
+
+/**
+ * Read the assessment JSON from Claude's final message. Tolerates a fenced
+ * code block or prose around the object; returns null when there is no
+ * usable assessment.
+ */
+export function parseAssessment(output: string): Assessment | null {
+  const fenced = output.match(/```(?:json)?\s*\n([\s\S]*?)\n```/);
+  const text = fenced ? fenced[1] : output;
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    return null;
+  }
+
+  let raw: any;
+  try {
+    raw = JSON.parse(text.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+
+  const clarity = Number(raw?.clarity);
+  if (!raw || isNaN(clarity)) {
+    return null;
+  }
+
+  const size = String(raw.size || '').toUpperCase();
+  return {
+    clarity: Math.min(5, Math.max(1, Math.round(clarity))),
+    size: (TICKET_SIZES as readonly string[]).includes(size) ? size as TicketSize : 'M',
+    missingInformation: stringList(raw.missingInformation ?? raw.missing_information),
+    questions: stringList(raw.questions),
+  };
+}
+
+export function needsInfo(assessment: Assessment, config: AssessmentConfig): boolean {
+  return assessment.clarity < (config.minClarity ?? DEFAULT_MIN_CLARITY);
+}
+
+/**
+ * The JIRA comment asking the reporter for what is missing.
+ */
+export function formatNeedsInfoComment(assessment: Assessment): string {
+  let comment = 'JIRA Claude Bot needs more information before it can work on this ticket ' +
+    `(clarity ${assessment.clarity}/5, estimated size ${assessment.size}).`;
+
+  if (assessment.missingInformation.length > 0) {
+    comment += `\n\nMissing:\n${assessment.missingInformation.map(m => `- ${m}`).join('\n')}`;
+  }
+  if (assessment.questions.length > 0) {
+    comment += `\n\nQuestions:\n${assessment.questions.map((q, i) => `${i + 1}. ${q}`).join('\n')}`;
+  }
+
+  comment += '\n\nPlease update the ticket and move it back to a status the bot picks up.';
+  return comment;
+}
+
+export function validateAssessmentConfig(config: AssessmentConfig, prefix: string = 'claude.assessment'): string[] {
+  const errors: string[] = [];
+  if (config.model !== undefined && !['sonnet', 'opus', 'haiku'].includes(config.model)) {
+    errors.push(`${prefix}.model must be one of sonnet, opus, haiku`);
+  }
+  if (config.maxTurns !== undefined && !(config.maxTurns >= 1)) {
+    errors.push(`${prefix}.maxTurns must be at least 1`);
+  }
+  if (config.minClarity !== undefined && !(config.minClarity >= 1 && config.minClarity <= 5)) {
+    errors.push(`${prefix}.minClarity must be between 1 and 5`);
+  }
+  return errors;
+}
+
+function stringList(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.map(v => String(v).trim()).filter(Boolean);
+}
@@ -0,0 +1,114 @@
+import { RunHistory, RunRecord } from './history';
+
+export interface BudgetConfig {
+  perTicket?: number;  // USD across all runs of one ticket
+  daily?: number;      // USD per project per calendar day
+  monthly?: number;    // USD per project per calendar month
+}
+
+export interface Spend {
+  today: number;
+  month: number;
+  ticket?: number;
+}
+
+/**
+ * Checks a project's Claude spend, as recorded in the run history, against
+ * `claude.budget`. Days and months follow the machine's local time.
+ */
+export class Budget {
+  private config: BudgetConfig;
+  private history: RunHistory;
+  private projectKey: string;
+
+  constructor(config: BudgetConfig | undefined, dataDir: string, projectKey: string) {
+    this.config = config || {};
+    this.history = new RunHistory(dataDir);
+    this.projectKey = projectKey;
+  }
+
+  isEnabled(): boolean {
+    const { perTicket, daily, monthly } = this.config;
+    return perTicket !== undefined || daily !== undefined || monthly !== undefined;
+  }
+
+  spend(ticketKey?: string, now: Date = new Date()): Spend {
+    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+    const dayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+    const records = this.history.read().filter(r => r.projectKey === this.projectKey);
+    const spend: Spend = {
+      today: total(records.filter(r => new Date(r.startedAt) >= dayStart)),
+      month: total(records.filter(r => new Date(r.startedAt) >= monthStart)),
+    };
+    if (ticketKey) {
+      spend.ticket = total(records.filter(r => r.ticketKey.toUpperCase() === ticketKey.toUpperCase()));
+    }
+    return spend;
+  }
+
+  /**
+   * The project-wide cap that is used up, if any. Checked before starting
+   * new tickets.
+   */
+  exceededCap(now: Date = new Date()): string | null {
+    return this.describeExceeded(this.spend(undefined, now), false);
+  }
+
+  /**
+   * The cap, including the ticket's own, that stops this ticket from
+   * running, if any.
+   */
+  exceededCapFor(ticketKey: string, now: Date = new Date()): string | null {
+    return this.describeExceeded(this.spend(ticketKey, now), true);
+  }
+
+  /**
+   * How much one more run of the ticket may spend before a cap is hit, or
+   * undefined without caps.
+   */
+  remainingFor(ticketKey: string, now: Date = new Date()): number | undefined {
+    const spend = this.spend(ticketKey, now);
+    const { perTicket, daily, monthly } = this.config;
+    const remaining = [
+      perTicket !== undefined ? perTicket - (spend.ticket || 0) : undefined,
+      daily !== undefined ? daily - spend.today : undefined,
+      monthly !== undefined ? monthly - spend.month : undefined,
+    ].filter((value): value is number => value !== undefined);
+
+    return remaining.length > 0 ? Math.max(0, Math.min(...remaining)) : undefined;
+  }
+
+  private describeExceeded(spend: Spend, includeTicket: boolean): string | null {
+    const { perTicket, daily, monthly } = this.config;
+    if (monthly !== undefined && spend.month >= monthly) {
+      return `monthly budget of ${formatUsd(monthly)} reached (${formatUsd(spend.month)} spent)`;
+    }
+    if (daily !== undefined && spend.today >= daily) {
+      return `daily budget of ${formatUsd(daily)} reached (${formatUsd(spend.today)} spent)`;
+    }
+    if (includeTicket && perTicket !== undefined && (spend.ticket || 0) >= perTicket) {
+      return `per-ticket budget of ${formatUsd(perTicket)} reached (${formatUsd(spend.ticket || 0)} spent)`;
+    }
+    return null;
+  }
+}
+
+export function formatUsd(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+export function validateBudgetConfig(config: BudgetConfig, prefix: string = 'claude.budget'): string[] {
+  const errors: string[] = [];
+  for (const key of ['perTicket', 'daily', 'monthly'] as const) {
+    const value = config[key];
+    if (value !== undefined && !(typeof value === 'number' && value > 0)) {
+      errors.push(`${prefix}.${key} must be a positive number of USD`);
+    }
+  }
+  return errors;
+}
+
+function total(records: RunRecord[]): number {
+  return records.reduce((sum, r) => sum + (r.costUsd || 0), 0);
+}
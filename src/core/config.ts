@@ -2,6 +2,19 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as yaml from 'js-yaml';
 import * as os from 'os';
+import {
+  GuardrailRule,
+  validateTicketRules,
+  validateReviewRules,
+  resolveSensitivePaths,
+} from './guardrails';
+import { NotificationsConfig, validateNotificationsConfig } from '../notifications';
+import { BudgetConfig, validateBudgetConfig } from './budget';
+import { RetryConfig, validateRetryConfig } from './retry';
+import { ClaudeOverride, validateOverrides } from './overrides';
+import { AssessmentConfig, validateAssessmentConfig } from './assessment';
+import { VerifyConfig, validateVerifyConfig } from './verify';
+import { validateBranchName } from '../clients/git';
 
 export interface JiraConfig {
   host: string;
@@ -9,22 +22,51 @@ export interface JiraConfig {
   apiToken: string;
 }
 
+export interface BitbucketConfig {
+  username: string;
+  appPassword: string;  // needs pull request and repository read/write scopes
+  apiUrl?: string;      // default: https://api.bitbucket.org/2.0
+}
+
+export interface GitLabConfig {
+  token: string;  // personal or project access token with the api scope
+  url?: string;   // default: https://gitlab.com, overridden by project.hostUrl
+}
+
 export interface TicketCriteria {
   statuses?: string[];
   types?: string[];
   jql?: string;
   assignee?: string;
   labels?: string[];
+  storyPointsField?: string;  // Custom field holding story points (default: customfield_10016)
 }
 
 export interface WorkflowConfig {
   branchPattern: string;
   commitPattern: string;
   skipPullRequest?: boolean;
+  // What to do when the ticket branch already exists: resume it (default), use a
+  // -2/-3 suffix, fail, or delete and recreate it (closing any open PR)
+  existingBranch?: 'resume' | 'suffix' | 'fail' | 'replace';
+  // Local changes in the working directory: stash them for the run, fail the
+  // run (abort), or also hold the daemon until the tree is clean (require-clean, default)
+  dirtyTree?: 'stash' | 'abort' | 'require-clean';
+  neverStage?: string[];  // Globs never committed, on top of .env*, *.pem and .jira-tickets/
+  worktreeSetup?: string;  // Command run in each fresh worktree when workers run in parallel (e.g. "npm ci")
+  addressReviews?: boolean;  // Daemon re-runs Claude on the PR branch when reviewers comment
+  followUps?: FollowUpConfig;  // Daemon resumes work on the branch when new JIRA comments arrive
+  attachTranscriptOnFailure?: boolean;  // Attach a redacted transcript excerpt to the ticket when a run fails
   pr: {
     baseBranch: string;
     titlePattern: string;
     bodyTemplate: string;
+    draft?: boolean;                     // open every PR as a draft
+    labels?: string[];
+    reviewers?: string[] | 'codeowners'; // logins, or the CODEOWNERS of the changed files
+    teamReviewers?: string[];            // team slugs, with or without the org
+    assigneeMap?: Record<string, string>; // JIRA assignee display name -> GitHub login
+    markReadyWhenGreen?: boolean;        // take a draft PR out of draft once its checks pass
   };
   transitions: {
     onPrCreated?: string;
@@ -33,6 +75,14 @@ export interface WorkflowConfig {
   };
 }
 
+export interface FollowUpConfig {
+  // Which new JIRA comments resume work on a pushed branch (default: explicit)
+  //   any      - every comment not written by the bot
+  //   explicit - comments that @mention the bot account or start with prefix
+  trigger?: 'any' | 'explicit';
+  prefix?: string;  // default: /claude
+}
+
 export interface DeploymentConfig {
   platform: 'vercel' | 'netlify' | 'custom' | 'none';
   waitForPreview: boolean;
@@ -45,6 +95,10 @@ export interface ClaudeConfig {
   timeout?: number;  // Timeout in milliseconds (default: 30 minutes)
   instructions?: string;
   skills?: string[];
+  budget?: BudgetConfig;  // USD caps; the daemon stops picking up tickets once one is reached
+  retry?: RetryConfig;    // How the daemon retries failed tickets (default: no retries)
+  overrides?: ClaudeOverride[];  // Per-ticket settings, chosen by ticket rules
+  assessment?: AssessmentConfig; // Read-only clarity check before a branch is created (default: off)
 }
 
 export interface ScreenshotConfig {
@@ -58,14 +112,24 @@ export interface ScreenshotConfig {
 }
 
 export interface GuardrailConfig {
-  requireReview?: string[];
-  skip?: string[];
+  requireReview?: GuardrailRule[];
+  skip?: GuardrailRule[];
+  // What to do when a requireReview rule trips (default: draft)
+  //   draft - push and open the PR as a draft with reviewLabel
+  //   hold  - keep the branch local and comment on JIRA
+  //   abort - discard the branch and comment on JIRA
+  onReviewRequired?: 'draft' | 'hold' | 'abort';
+  reviewLabel?: string;
+  // Globs per category, checked by modifies_<category> rules (auth and payments have defaults)
+  sensitivePaths?: Record<string, string[]>;
 }
 
 export interface ProjectConfig {
   project: {
     jiraKey: string;
     repo: string;
+    host?: 'github' | 'bitbucket' | 'gitlab';  // default: github
+    hostUrl?: string;  // self-hosted GitLab instance, e.g. https://gitlab.acme.com
   };
   tickets: TicketCriteria;
   workflow: WorkflowConfig;
@@ -73,6 +137,12 @@ export interface ProjectConfig {
   claude: ClaudeConfig;
   screenshots?: ScreenshotConfig;
   guardrails?: GuardrailConfig;
+  verify?: VerifyConfig;  // Commands that must pass before the branch is pushed
+}
+
+export interface ProjectEntry {
+  path: string;  // local checkout containing .jira-claude-bot.yaml
+  maxConcurrentWorkers?: number;
 }
 
 export interface GlobalConfig {
@@ -82,14 +152,12 @@ export interface GlobalConfig {
     logLevel: string;
     dataDir: string;
   };
-  notifications?: {
-    slack?: {
-      webhookUrl: string;
-      channel: string;
-    };
-    events?: string[];
-  };
+  // Repositories the daemon watches with `start --all`
+  projects?: ProjectEntry[];
+  notifications?: NotificationsConfig;
   jira: JiraConfig;
+  bitbucket?: BitbucketConfig;
+  gitlab?: GitLabConfig;
 }
 
 const DEFAULT_GLOBAL_CONFIG: GlobalConfig = {
@@ -162,6 +230,32 @@ export function loadGlobalConfig(): GlobalConfig {
   if (process.env.JIRA_HOST) config.jira.host = process.env.JIRA_HOST;
   if (process.env.JIRA_EMAIL) config.jira.email = process.env.JIRA_EMAIL;
   if (process.env.JIRA_API_TOKEN) config.jira.apiToken = process.env.JIRA_API_TOKEN;
+  if (process.env.BITBUCKET_USERNAME || process.env.BITBUCKET_APP_PASSWORD) {
+    config.bitbucket = {
+      ...config.bitbucket,
+      username: process.env.BITBUCKET_USERNAME || config.bitbucket?.username || '',
+      appPassword: process.env.BITBUCKET_APP_PASSWORD || config.bitbucket?.appPassword || '',
+    };
+  }
+  if (process.env.GITLAB_TOKEN) {
+    config.gitlab = {
+      ...config.gitlab,
+      token: process.env.GITLAB_TOKEN,
+      url: process.env.GITLAB_URL || config.gitlab?.url,
+    };
+  }
+  if (process.env.SLACK_WEBHOOK_URL) {
+    config.notifications = {
+      ...config.notifications,
+      slack: { ...config.notifications?.slack, webhookUrl: process.env.SLACK_WEBHOOK_URL },
+    };
+  }
+
+  config.bot.dataDir = expandHome(config.bot.dataDir);
+  config.projects = (config.projects || []).map(entry => ({
+    ...entry,
+    path: path.resolve(expandHome(entry.path)),
+  }));
 
   return config;
 }
@@ -185,6 +279,15 @@ export function saveProjectConfig(config: ProjectConfig, projectPath: string = p
   fs.writeFileSync(configPath, yamlContent);
 }
 
+/**
+ * Expand a leading ~ to the user's home directory.
+ */
+export function expandHome(filePath: string): string {
+  if (filePath === '~') return os.homedir();
+  if (filePath.startsWith('~/')) return path.join(os.homedir(), filePath.slice(2));
+  return filePath;
+}
+
 function deepMerge<T>(target: T, source: Partial<T>): T {
   const result = { ...target };
 
@@ -215,11 +318,89 @@ export function validateConfig(global: GlobalConfig, project: ProjectConfig | nu
   if (!global.jira.host) errors.push('JIRA_HOST is required');
   if (!global.jira.email) errors.push('JIRA_EMAIL is required');
   if (!global.jira.apiToken) errors.push('JIRA_API_TOKEN is required');
+  if (global.notifications) {
+    errors.push(...validateNotificationsConfig(global.notifications));
+  }
+  (global.projects || []).forEach((entry, i) => {
+    if (!entry.path) errors.push(`projects[${i}].path is required`);
+    if (entry.maxConcurrentWorkers !== undefined && !(entry.maxConcurrentWorkers >= 1)) {
+      errors.push(`projects[${i}].maxConcurrentWorkers must be at least 1`);
+    }
+  });
 
   // Validate project config if present
   if (project) {
     if (!project.project?.jiraKey) errors.push('project.jiraKey is required');
     if (!project.project?.repo) errors.push('project.repo is required');
+    const host = project.project?.host;
+    if (host && !['github', 'bitbucket', 'gitlab'].includes(host)) {
+      errors.push(`project.host must be one of github, bitbucket, gitlab (got "${host}")`);
+    }
+    if (host === 'bitbucket' && !(global.bitbucket?.username && global.bitbucket?.appPassword)) {
+      errors.push('BITBUCKET_USERNAME and BITBUCKET_APP_PASSWORD are required for Bitbucket projects');
+    }
+    if (host === 'gitlab' && !global.gitlab?.token) {
+      errors.push('GITLAB_TOKEN is required for GitLab projects');
+    }
+    if (project.workflow?.branchPattern) {
+      // Placeholders are filled with ref-safe values, so check the rest of the pattern
+      const sample = project.workflow.branchPattern.replace(/{(ticket_key|summary|type)}/g, 'x');
+      const problem = validateBranchName(sample);
+      if (problem) {
+        errors.push(`workflow.branchPattern is not a valid branch name: ${problem}`);
+      }
+    }
+    const existingBranch = project.workflow?.existingBranch;
+    if (existingBranch && !['resume', 'suffix', 'fail', 'replace'].includes(existingBranch)) {
+      errors.push(`workflow.existingBranch must be one of resume, suffix, fail, replace (got "${existingBranch}")`);
+    }
+    const dirtyTree = project.workflow?.dirtyTree;
+    if (dirtyTree && !['stash', 'abort', 'require-clean'].includes(dirtyTree)) {
+      errors.push(`workflow.dirtyTree must be one of stash, abort, require-clean (got "${dirtyTree}")`);
+    }
+    if (project.workflow?.neverStage !== undefined && !Array.isArray(project.workflow.neverStage)) {
+      errors.push('workflow.neverStage must be a list of globs');
+    }
+    if (project.project?.hostUrl && !/^https?:\/\//.test(project.project.hostUrl)) {
+      errors.push(`project.hostUrl must be an http(s) URL (got "${project.project.hostUrl}")`);
+    }
+    if (project.guardrails?.skip) {
+      errors.push(...validateTicketRules(project.guardrails.skip, 'guardrails.skip'));
+    }
+    if (project.guardrails?.requireReview) {
+      errors.push(...validateReviewRules(
+        project.guardrails.requireReview,
+        resolveSensitivePaths(project.guardrails.sensitivePaths),
+        'guardrails.requireReview'
+      ));
+    }
+    const policy = project.guardrails?.onReviewRequired;
+    if (policy && !['draft', 'hold', 'abort'].includes(policy)) {
+      errors.push(`guardrails.onReviewRequired must be one of draft, hold, abort (got "${policy}")`);
+    }
+    if (project.claude?.budget) {
+      errors.push(...validateBudgetConfig(project.claude.budget));
+    }
+    if (project.claude?.retry) {
+      errors.push(...validateRetryConfig(project.claude.retry));
+    }
+    if (project.claude?.overrides) {
+      errors.push(...validateOverrides(project.claude.overrides));
+    }
+    if (project.verify) {
+      errors.push(...validateVerifyConfig(project.verify));
+    }
+    if (project.claude?.assessment) {
+      errors.push(...validateAssessmentConfig(project.claude.assessment));
+    }
+    const reviewers = project.workflow?.pr?.reviewers;
+    if (reviewers !== undefined && reviewers !== 'codeowners' && !Array.isArray(reviewers)) {
+      errors.push('workflow.pr.reviewers must be a list of logins or "codeowners"');
+    }
+    const trigger = project.workflow?.followUps?.trigger;
+    if (trigger && !['any', 'explicit'].includes(trigger)) {
+      errors.push(`workflow.followUps.trigger must be one of any, explicit (got "${trigger}")`);
+    }
   }
 
   return errors;
@@ -1,6 +1,19 @@
 import { Poller } from './poller';
 import { Worker } from './worker';
+import { TicketQueue, QueueEntry } from './queue';
+import { WorkerPool } from './worker-pool';
+import { WorktreeManager } from './worktree';
+import { PrWatcher } from './pr-watcher';
+import { TrackedPullRequest } from './pr-tracker';
+import { ReviewResponder } from './review-responder';
+import { FollowUpResponder } from './follow-up-responder';
+import { TrackedTicket } from './follow-up-tracker';
+import { Budget } from './budget';
+import { RetryPolicy } from './retry';
+import { FailureKind, classifyFailure } from './failures';
 import { ProjectConfig, GlobalConfig } from './config';
+import { GitRepository } from '../clients/git';
+import { Notifier, createNotifier } from '../notifications';
 import { Logger } from '../utils/logger';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -20,51 +33,145 @@ export interface DaemonOptions {
   pollInterval: number;  // seconds
 }
 
+export interface DaemonProject {
+  config: ProjectConfig;
+  workingDir: string;
+  maxConcurrentWorkers?: number;  // defaults to bot.maxConcurrentWorkers
+}
+
+interface ProjectRuntime {
+  key: string;
+  config: ProjectConfig;
+  workingDir: string;
+  logger: Logger;
+  poller: Poller;
+  prWatcher: PrWatcher | null;
+  reviewer: ReviewResponder | null;
+  // PRs with unanswered review comments, started ahead of new tickets
+  pendingReviews: TrackedPullRequest[];
+  followUps: FollowUpResponder | null;
+  // Tickets with new follow-up comments in JIRA, also started ahead of new tickets
+  pendingFollowUps: TrackedTicket[];
+  pool: WorkerPool;
+  worktrees: WorktreeManager | null;
+  budget: Budget;
+  retry: RetryPolicy;
+  // Set while a budget cap is reached, so it is reported once
+  budgetReached: boolean;
+  // Set while workflow.dirtyTree is require-clean and the checkout has local changes
+  dirtyTree: boolean;
+  // Why the last ticket was held back without starting (an unfinished merge,
+  // a detached HEAD...), and whether to wait for the next poll to try again
+  treeProblem: string | null;
+  treeHeld: boolean;
+}
+
 export class Daemon {
-  private poller: Poller;
+  private queue: TicketQueue;
+  private notifier: Notifier;
   private globalConfig: GlobalConfig;
-  private projectConfig: ProjectConfig;
-  private workingDir: string;
+  private projects: ProjectRuntime[];
   private logger: Logger;
   private options: DaemonOptions;
   private running: boolean = false;
-  private currentTicket: string | null = null;
+  // Caps workers across all projects; each project also has its own pool
+  private pool: WorkerPool;
+  // Round-robin position, so one busy project can't starve the others
+  private nextProject: number = 0;
+  // Serializes slot filling between the poll loop and finishing workers
+  private filling: Promise<void> = Promise.resolve();
 
   constructor(
     globalConfig: GlobalConfig,
-    projectConfig: ProjectConfig,
-    workingDir: string,
+    projects: DaemonProject[],
     logger: Logger,
     options: Partial<DaemonOptions> = {}
   ) {
     this.globalConfig = globalConfig;
-    this.projectConfig = projectConfig;
-    this.workingDir = workingDir;
     this.logger = logger;
     this.options = {
       pollInterval: options.pollInterval || globalConfig.bot.pollInterval || 300,
     };
 
-    this.poller = new Poller(globalConfig, projectConfig, logger);
+    const globalLimit = globalConfig.bot.maxConcurrentWorkers || 1;
+    this.queue = new TicketQueue(globalConfig.bot.dataDir);
+    this.notifier = createNotifier(globalConfig, logger);
+    this.pool = new WorkerPool(globalLimit);
+
+    this.projects = projects.map(({ config, workingDir, maxConcurrentWorkers }) => {
+      const key = config.project.jiraKey;
+      const projectLogger = logger.child(key);
+      const limit = Math.min(maxConcurrentWorkers || globalLimit, globalLimit);
+
+      return {
+        key,
+        config,
+        workingDir,
+        logger: projectLogger,
+        poller: new Poller(globalConfig, config, projectLogger),
+        prWatcher: PrWatcher.isEnabled(config)
+          ? new PrWatcher(globalConfig, config, workingDir, projectLogger)
+          : null,
+        reviewer: config.workflow.addressReviews
+          ? new ReviewResponder(globalConfig, config, workingDir, projectLogger)
+          : null,
+        pendingReviews: [],
+        followUps: config.workflow.followUps
+          ? new FollowUpResponder(globalConfig, config, workingDir, projectLogger)
+          : null,
+        pendingFollowUps: [],
+        pool: new WorkerPool(limit),
+        // Parallel workers can't share a checkout, so each ticket gets its own worktree
+        worktrees: limit > 1
+          ? new WorktreeManager(workingDir, path.join(globalConfig.bot.dataDir, 'worktrees', key))
+          : null,
+        budget: new Budget(config.claude.budget, globalConfig.bot.dataDir, key),
+        retry: new RetryPolicy(globalConfig, config, projectLogger),
+        budgetReached: false,
+        dirtyTree: false,
+        treeProblem: null,
+        treeHeld: false,
+      };
+    });
   }
 
   async start(): Promise<void> {
     this.running = true;
     this.logger.info(`jira-claude-bot v${getVersion()}`);
-    this.logger.info(`Daemon started for project ${this.projectConfig.project.jiraKey}`);
+    this.logger.info(`Daemon started for ${this.projects.length === 1 ? 'project' : 'projects'} ${this.projects.map(p => p.key).join(', ')}`);
     this.logger.info(`Poll interval: ${this.options.pollInterval} seconds`);
-    this.logger.info(`Watching statuses: ${this.projectConfig.tickets.statuses?.join(', ') || 'To Do'}`);
+    this.logger.info(`Max concurrent workers: ${this.globalConfig.bot.maxConcurrentWorkers || 1}`);
+    for (const project of this.projects) {
+      project.logger.info(`Watching statuses: ${project.config.tickets.statuses?.join(', ') || 'To Do'}`);
+    }
     this.logger.info('');
     this.logger.info('Press Ctrl+C to stop');
     this.logger.info('');
 
+    for (const project of this.projects) {
+      // Anything still in progress was interrupted by a crash or kill
+      const interrupted = await this.queue.recoverInterrupted(project.key);
+      for (const entry of interrupted) {
+        project.logger.warn(`${entry.ticketKey} was interrupted during a previous run, returning it to pending`);
+      }
+      if (project.worktrees) {
+        for (const name of await project.worktrees.removeAll()) {
+          project.logger.debug(`Removed stale worktree ${name}`);
+        }
+      }
+    }
+
     // Set up graceful shutdown
     process.on('SIGINT', () => this.stop());
     process.on('SIGTERM', () => this.stop());
 
     // Main loop
     while (this.running) {
-      await this.poll();
+      try {
+        await this.poll();
+      } catch (error) {
+        this.logger.error(`Poll failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
 
       if (this.running) {
         this.logger.debug(`Sleeping for ${this.options.pollInterval} seconds...`);
@@ -72,13 +179,20 @@ export class Daemon {
       }
     }
 
+    await this.pool.drain();
     this.logger.info('Daemon stopped');
+    await this.notifier.notify({
+      type: 'daemon_stopped',
+      message: `Stopped watching ${this.projects.map(p => p.key).join(', ')}.`,
+    });
+    await this.notifier.flush();
   }
 
   stop(): void {
     this.logger.info('');
-    if (this.currentTicket) {
-      this.logger.warn(`Stopping... (currently working on ${this.currentTicket})`);
+    const active = this.pool.getActiveKeys();
+    if (active.length > 0) {
+      this.logger.warn(`Stopping... (waiting for ${active.join(', ')} to finish)`);
     } else {
       this.logger.info('Stopping daemon...');
     }
@@ -86,43 +200,422 @@ export class Daemon {
   }
 
   private async poll(): Promise<void> {
-    this.logger.info('Checking for tickets...');
+    for (const project of this.projects) {
+      project.treeHeld = false;
+
+      if (project.prWatcher) {
+        project.logger.debug('Checking open pull requests...');
+        await project.prWatcher.check();
+      }
+
+      if (project.reviewer) {
+        const active = this.pool.getActiveKeys();
+        project.pendingReviews = (await project.reviewer.findPending())
+          .filter(pr => !active.includes(pr.ticketKey));
+        for (const pr of project.pendingReviews) {
+          project.logger.info(`New review comments on PR #${pr.number} (${pr.ticketKey})`);
+        }
+      }
+
+      if (project.followUps) {
+        const active = this.pool.getActiveKeys();
+        project.pendingFollowUps = (await project.followUps.findPending())
+          .filter(ticket => !active.includes(ticket.ticketKey));
+        for (const ticket of project.pendingFollowUps) {
+          project.logger.info(`New follow-up comments on ${ticket.ticketKey}`);
+        }
+      }
+
+      project.logger.info('Checking for tickets...');
 
-    const ticket = await this.poller.getNextTicket();
+      const tickets = await project.poller.getCandidateTickets();
+      for (const ticket of tickets) {
+        if (await this.queue.enqueue(ticket, project.key)) {
+          project.logger.debug(`Queued ${ticket.key} - ${ticket.summary}`);
+        }
+      }
+    }
+
+    await this.scheduleFill();
+  }
+
+  private scheduleFill(): Promise<void> {
+    const run = this.filling.then(() => this.fillSlots());
+    // Keep the chain usable after a failed run
+    this.filling = run.catch(() => undefined);
+    return run;
+  }
 
-    if (!ticket) {
+  /**
+   * Start queued tickets until every worker slot is busy, taking one ticket
+   * per project in turn.
+   */
+  private async fillSlots(): Promise<void> {
+    if (!this.running || !this.pool.hasCapacity()) {
+      return;
+    }
+
+    if (await this.queue.isPaused()) {
+      this.logger.info('Queue is paused, not starting new tickets (run "jira-claude-bot queue resume")');
+      return;
+    }
+
+    // Projects known to have nothing pending during this pass
+    const drained = new Set<string>();
+    let started = 0;
+
+    while (this.running && this.pool.hasCapacity() && drained.size < this.projects.length) {
+      const project = this.projects[this.nextProject % this.projects.length];
+      this.nextProject = (this.nextProject + 1) % this.projects.length;
+
+      if (drained.has(project.key)) {
+        continue;
+      }
+      if (!project.pool.hasCapacity() || project.treeHeld || await this.isOverBudget(project) || await this.isTreeDirty(project)) {
+        drained.add(project.key);
+        continue;
+      }
+
+      // One task per ticket at a time: they share its branch
+      const active = this.pool.getActiveKeys();
+
+      const review = takeIdle(project.pendingReviews, active);
+      if (review) {
+        this.startTask(project, review.ticketKey, () => this.workReview(project, review));
+        started++;
+        continue;
+      }
+
+      const followUp = takeIdle(project.pendingFollowUps, active);
+      if (followUp) {
+        this.startTask(project, followUp.ticketKey, () => this.workFollowUp(project, followUp));
+        started++;
+        continue;
+      }
+
+      const entry = await this.queue.dequeue(project.key, active);
+      if (!entry) {
+        drained.add(project.key);
+        continue;
+      }
+
+      project.logger.info(`Found ticket: ${entry.ticketKey} - ${entry.summary}`);
+      this.startTask(project, entry.ticketKey, () => this.work(project, entry));
+      started++;
+    }
+
+    if (started === 0 && this.pool.getActiveKeys().length === 0) {
       this.logger.info('No tickets to process');
+    }
+  }
+
+  /**
+   * Whether a daily or monthly cap of the project is used up. Reaching one
+   * is logged and notified once; work resumes when the day or month rolls over.
+   */
+  private async isOverBudget(project: ProjectRuntime): Promise<boolean> {
+    if (!project.budget.isEnabled()) {
+      return false;
+    }
+
+    const exceeded = project.budget.exceededCap();
+    if (!exceeded) {
+      if (project.budgetReached) {
+        project.logger.info('Budget available again, resuming');
+      }
+      project.budgetReached = false;
+      return false;
+    }
+
+    if (!project.budgetReached) {
+      project.budgetReached = true;
+      project.logger.warn(`Not starting new work: ${exceeded}`);
+      this.notifier.send({
+        type: 'budget_exceeded',
+        projectKey: project.key,
+        message: `Stopped picking up tickets for ${project.key}: ${exceeded}.`,
+      });
+    }
+    return true;
+  }
+
+  /**
+   * Whether work in the project's checkout is held back by local changes
+   * (`workflow.dirtyTree: require-clean`). Reported once; work resumes when
+   * the tree is clean again.
+   */
+  private async isTreeDirty(project: ProjectRuntime): Promise<boolean> {
+    // Worktrees never touch the main checkout
+    if (project.worktrees || (project.config.workflow.dirtyTree || 'require-clean') !== 'require-clean') {
+      return false;
+    }
+
+    const repo = new GitRepository(project.workingDir);
+    repo.setNeverStage(project.config.workflow.neverStage || []);
+    let changed: string[];
+    try {
+      const status = await repo.getStatus();
+      changed = [...status.staged, ...status.unstaged, ...status.untracked].filter(f => !repo.isNeverStaged(f));
+    } catch (error) {
+      project.logger.warn(`Could not check the working tree: ${error instanceof Error ? error.message : String(error)}`);
+      return false;
+    }
+
+    if (changed.length === 0) {
+      if (project.dirtyTree) {
+        project.logger.info('Working tree is clean again, resuming');
+      }
+      project.dirtyTree = false;
+      return false;
+    }
+
+    if (!project.dirtyTree) {
+      project.dirtyTree = true;
+      project.logger.warn(`Not starting new work: ${project.workingDir} has uncommitted changes (workflow.dirtyTree is require-clean)`);
+    }
+    return true;
+  }
+
+  private startTask(project: ProjectRuntime, key: string, task: () => Promise<void>): void {
+    const work = this.pool.run(key, () => project.pool.run(key, task));
+
+    work.then(() => {
+      // A slot just opened up, so start the next ticket without waiting for the next poll
+      this.scheduleFill().catch((error) => {
+        this.logger.error(`Failed to start next ticket: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    });
+  }
+
+  private async work(project: ProjectRuntime, entry: QueueEntry): Promise<void> {
+    const logger = project.logger.child(entry.ticketKey);
+    const baseBranch = project.config.workflow.pr.baseBranch;
+    let worktreePath: string | null = null;
+
+    try {
+      let workingDir = project.workingDir;
+      if (project.worktrees) {
+        worktreePath = await project.worktrees.create(
+          entry.ticketKey,
+          baseBranch,
+          project.config.workflow.worktreeSetup,
+          logger
+        );
+        workingDir = worktreePath;
+        logger.debug(`Working in ${worktreePath}`);
+      }
+
+      // Create a worker and process the ticket
+      const worker = new Worker(
+        this.globalConfig,
+        project.config,
+        workingDir,
+        logger,
+        {
+          trigger: 'daemon',
+          isolated: worktreePath !== null,
+          notifier: this.notifier,
+          step: project.retry.hasLadder() ? project.retry.stepFor(entry.retryStep || 0) : undefined,
+          escalated: (entry.retryStep || 0) > 0,
+        }
+      );
+
+      const result = await worker.processTicket(entry.ticketKey);
+
+      if (result.held) {
+        await this.holdTree(project, entry, result.error || 'Working tree is not ready');
+        return;
+      }
+      if (project.treeProblem) {
+        project.logger.info('Working tree is usable again, resuming');
+        project.treeProblem = null;
+      }
+
+      // Record the outcome so the ticket is not picked up again, or only
+      // after a backoff when claude.retry allows another attempt
+      if (result.success) {
+        await this.queue.complete(entry.ticketKey);
+      } else if (result.skipped) {
+        await this.queue.skip(entry.ticketKey, result.error || 'Skipped', result.ticketUpdated);
+      } else if (result.stoppedForReview) {
+        await this.queue.fail(entry.ticketKey, result.error || 'Stopped for review');
+      } else {
+        await this.recordFailure(project, entry, result.error || 'Unknown error', result.failureKind || 'fatal');
+      }
+
+      if (result.success) {
+        project.logger.success(`Completed ${entry.ticketKey}`);
+        if (result.pr) {
+          project.logger.info(`  PR: ${result.pr.url}`);
+        }
+        if (result.previewUrl) {
+          project.logger.info(`  Preview: ${result.previewUrl}`);
+        }
+      } else if (result.skipped) {
+        project.logger.warn(`Skipped ${entry.ticketKey}: ${result.error}`);
+      } else {
+        project.logger.error(`Failed ${entry.ticketKey}: ${result.error}`);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      project.logger.error(`Failed ${entry.ticketKey}: ${message}`);
+      await this.recordFailure(project, entry, message, classifyFailure(error)).catch(() => undefined);
+      this.notifier.send({
+        type: 'ticket_failed',
+        projectKey: project.key,
+        ticketKey: entry.ticketKey,
+        ticketSummary: entry.summary,
+        error: message,
+      });
+    } finally {
+      if (worktreePath && project.worktrees) {
+        try {
+          await project.worktrees.remove(worktreePath);
+        } catch (error) {
+          logger.warn(`Failed to remove worktree: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+    }
+
+    this.logger.info('');
+  }
+
+  /**
+   * Put a ticket the worker refused to start back in the queue and stop
+   * starting tickets for the project until the next poll. A new problem is
+   * reported once.
+   */
+  private async holdTree(project: ProjectRuntime, entry: QueueEntry, problem: string): Promise<void> {
+    await this.queue.release(entry.ticketKey, problem);
+    project.treeHeld = true;
+
+    if (project.treeProblem !== problem) {
+      project.treeProblem = problem;
+      project.logger.warn(`Not starting new work until the working tree is fixed: ${problem}`);
+      this.notifier.send({
+        type: 'ticket_failed',
+        projectKey: project.key,
+        ticketKey: entry.ticketKey,
+        ticketSummary: entry.summary,
+        error: `Not started, will try again on the next poll: ${problem}`,
+      });
+    }
+  }
+
+  private async recordFailure(
+    project: ProjectRuntime,
+    entry: QueueEntry,
+    error: string,
+    kind: FailureKind
+  ): Promise<void> {
+    const decision = project.retry.decide(entry, kind);
+
+    if (decision.action === 'retry') {
+      await this.queue.defer(entry.ticketKey, error, {
+        retryStep: decision.step,
+        transientFailures: decision.transientFailures,
+        retryAt: decision.retryAt,
+      });
+      const step = project.retry.stepFor(decision.step);
+      const how = decision.step !== (entry.retryStep || 0)
+        ? `with ${step.model}${step.maxTurns ? ` (${step.maxTurns} turns)` : ''}`
+        : `after a ${kind.replace('_', ' ')} failure`;
+      project.logger.warn(`Will retry ${entry.ticketKey} ${how} at ${new Date(decision.retryAt).toLocaleTimeString()}`);
       return;
     }
 
-    this.logger.info(`Found ticket: ${ticket.key} - ${ticket.summary}`);
-    this.currentTicket = ticket.key;
+    await this.queue.fail(entry.ticketKey, error);
+    if (decision.action === 'give_up') {
+      project.logger.warn(`Giving up on ${entry.ticketKey} after ${entry.attempts} attempt(s)`);
+      await project.retry.giveUp(entry.ticketKey, entry.attempts, error);
+    }
+  }
 
-    // Create a worker and process the ticket
-    const worker = new Worker(
-      this.globalConfig,
-      this.projectConfig,
-      this.workingDir,
-      this.logger.child(ticket.key)
-    );
+  private async workReview(project: ProjectRuntime, pr: TrackedPullRequest): Promise<void> {
+    const logger = project.logger.child(pr.ticketKey);
+    let worktreePath: string | null = null;
 
-    const result = await worker.processTicket(ticket.key);
+    try {
+      let workingDir = project.workingDir;
+      if (project.worktrees) {
+        worktreePath = await project.worktrees.create(
+          reviewKey(pr),
+          project.config.workflow.pr.baseBranch,
+          project.config.workflow.worktreeSetup,
+          logger
+        );
+        workingDir = worktreePath;
+      }
 
-    // Mark as processed regardless of success/failure
-    // (we don't want to retry immediately)
-    this.poller.markProcessed(ticket.key);
-    this.currentTicket = null;
+      const responder = new ReviewResponder(
+        this.globalConfig,
+        project.config,
+        workingDir,
+        logger,
+        { isolated: worktreePath !== null, trigger: 'daemon' }
+      );
+      const result = await responder.address(pr.number);
 
-    if (result.success) {
-      this.logger.success(`Completed ${ticket.key}`);
-      if (result.pr) {
-        this.logger.info(`  PR: ${result.pr.url}`);
+      if (result.success) {
+        project.logger.success(`Addressed review on PR #${pr.number}${result.pushed ? '' : ' (no changes)'}`);
+      } else {
+        project.logger.error(`Failed to address review on PR #${pr.number}: ${result.error}`);
       }
-      if (result.previewUrl) {
-        this.logger.info(`  Preview: ${result.previewUrl}`);
+    } catch (error) {
+      project.logger.error(`Failed to address review on PR #${pr.number}: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      if (worktreePath && project.worktrees) {
+        try {
+          await project.worktrees.remove(worktreePath);
+        } catch (error) {
+          logger.warn(`Failed to remove worktree: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+    }
+
+    this.logger.info('');
+  }
+
+  private async workFollowUp(project: ProjectRuntime, ticket: TrackedTicket): Promise<void> {
+    const logger = project.logger.child(ticket.ticketKey);
+    let worktreePath: string | null = null;
+
+    try {
+      let workingDir = project.workingDir;
+      if (project.worktrees) {
+        worktreePath = await project.worktrees.create(
+          followUpKey(ticket),
+          project.config.workflow.pr.baseBranch,
+          project.config.workflow.worktreeSetup,
+          logger
+        );
+        workingDir = worktreePath;
+      }
+
+      const responder = new FollowUpResponder(
+        this.globalConfig,
+        project.config,
+        workingDir,
+        logger,
+        { isolated: worktreePath !== null, trigger: 'daemon' }
+      );
+      const result = await responder.respond(ticket.ticketKey);
+
+      if (result.success) {
+        project.logger.success(`Followed up on ${ticket.ticketKey}${result.pushed ? '' : ' (no changes)'}`);
+      } else {
+        project.logger.error(`Failed to follow up on ${ticket.ticketKey}: ${result.error}`);
+      }
+    } catch (error) {
+      project.logger.error(`Failed to follow up on ${ticket.ticketKey}: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      if (worktreePath && project.worktrees) {
+        try {
+          await project.worktrees.remove(worktreePath);
+        } catch (error) {
+          logger.warn(`Failed to remove worktree: ${error instanceof Error ? error.message : String(error)}`);
+        }
       }
-    } else {
-      this.logger.error(`Failed ${ticket.key}: ${result.error}`);
     }
 
     this.logger.info('');
@@ -147,7 +640,24 @@ export class Daemon {
     return this.running;
   }
 
-  getCurrentTicket(): string | null {
-    return this.currentTicket;
+  getActiveTickets(): string[] {
+    return this.pool.getActiveKeys();
   }
 }
+
+/**
+ * Remove and return the first item whose ticket has no task running.
+ */
+function takeIdle<T extends { ticketKey: string }>(items: T[], active: string[]): T | undefined {
+  const index = items.findIndex(item => !active.includes(item.ticketKey));
+  return index === -1 ? undefined : items.splice(index, 1)[0];
+}
+
+// Worktree names, kept apart from the ticket's own worktree
+function reviewKey(pr: TrackedPullRequest): string {
+  return `${pr.ticketKey}-review`;
+}
+
+function followUpKey(ticket: TrackedTicket): string {
+  return `${ticket.ticketKey}-followup`;
+}
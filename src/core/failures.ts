@@ -0,0 +1,55 @@
+import { GitError } from '../clients/git';
+
+/**
+ * Why a ticket run failed, which decides how it is retried:
+ *   transient  - JIRA/GitHub outages, rate limits, rejected pushes; retry the same way later
+ *   no_changes - Claude finished without changing anything
+ *   claude     - Claude Code failed or ran out of turns
+ *   fatal      - anything else (configuration, budget caps); retrying won't help
+ */
+export type FailureKind = 'transient' | 'no_changes' | 'claude' | 'fatal';
+
+export const NO_CHANGES_ERROR = 'No changes were made';
+
+const TRANSIENT_PATTERNS = [
+  // HTTP errors from axios (JIRA, webhooks) and gh
+  /status code (5\d\d|429)\b/i,
+  /\bHTTP (5\d\d|429)\b/,
+  /\b(502 Bad Gateway|503 Service Unavailable|504 Gateway Time-?out)\b/i,
+  /rate limit/i,
+  /\b(ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|ENOTFOUND)\b/,
+  /socket hang up/i,
+  /could not resolve host/i,
+  /connection (timed out|reset|refused)/i,
+  // git push losing a race with another push
+  /failed to push some refs/i,
+  /\[rejected\]/,
+  /\[remote rejected\]/,
+  /the remote end hung up unexpectedly/i,
+];
+
+export function classifyFailure(error: unknown): FailureKind {
+  // Bad credentials or a bad branch pattern won't fix themselves
+  if (error instanceof GitError && (error.kind === 'auth_failed' || error.kind === 'invalid_branch')) {
+    return 'fatal';
+  }
+  if (error instanceof GitError && error.kind === 'push_rejected') {
+    return 'transient';
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (message.startsWith(NO_CHANGES_ERROR)) {
+    return 'no_changes';
+  }
+  if (TRANSIENT_PATTERNS.some(pattern => pattern.test(message))) {
+    return 'transient';
+  }
+  if (/budget/i.test(message)) {
+    return 'fatal';
+  }
+  if (/^Claude (Code failed|stopped|exited)/.test(message)) {
+    return 'claude';
+  }
+  return 'fatal';
+}
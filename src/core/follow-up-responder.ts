@@ -0,0 +1,394 @@
+import { JiraClient, JiraComment, JiraUser } from '../clients/jira';
+import { GitHostClient, createGitHost } from '../clients/git-host';
+import { formatCommitMessage } from '../clients/git';
+import { ClaudeClient } from '../clients/claude';
+import { ClaudeMetrics } from '../clients/claude-stream';
+import { formatDescription, findMentions } from '../clients/adf';
+import { ProjectConfig, GlobalConfig } from './config';
+import { FollowUpTracker, TrackedTicket } from './follow-up-tracker';
+import { Budget } from './budget';
+import { RunHistory, RunTrigger } from './history';
+import { RunLog, knownSecrets } from './run-log';
+import { WorkingTreeGuard } from './working-tree';
+import { Logger } from '../utils/logger';
+
+const DEFAULT_PREFIX = '/claude';
+
+export interface FollowUpResult {
+  success: boolean;
+  ticketKey: string;
+  addressed: number;      // comments handed to Claude
+  pushed: boolean;        // new commits were pushed to the ticket branch
+  error?: string;
+}
+
+export interface FollowUpResponderOptions {
+  // workingDir is a disposable worktree: detach when done instead of restoring a branch
+  isolated?: boolean;
+  trigger?: RunTrigger;
+}
+
+// A Claude run on the ticket branch, recorded in the run history
+interface FollowUpRun {
+  branchName: string;
+  prUrl?: string;
+  log: RunLog | null;
+  metrics?: ClaudeMetrics;
+}
+
+interface NewComments {
+  latestId: string | null;   // newest comment not written by the bot
+  triggers: JiraComment[];   // the ones that ask for more work
+}
+
+/**
+ * Resumes work on a ticket's pushed branch when someone leaves a follow-up
+ * comment in JIRA: Claude gets the comment as extra context, the result is
+ * pushed to the same branch and the bot replies on the ticket.
+ */
+export class FollowUpResponder {
+  private jira: JiraClient;
+  private git: GitHostClient;
+  private claude: ClaudeClient;
+  private tracker: FollowUpTracker;
+  private globalConfig: GlobalConfig;
+  private budget: Budget;
+  private history: RunHistory;
+  private projectConfig: ProjectConfig;
+  private logger: Logger;
+  private workingDir: string;
+  private options: FollowUpResponderOptions;
+  private tree: WorkingTreeGuard;
+  private botUser: JiraUser | null = null;
+
+  constructor(
+    globalConfig: GlobalConfig,
+    projectConfig: ProjectConfig,
+    workingDir: string,
+    logger: Logger,
+    options: FollowUpResponderOptions = {}
+  ) {
+    this.globalConfig = globalConfig;
+    this.projectConfig = projectConfig;
+    this.workingDir = workingDir;
+    this.logger = logger;
+    this.options = options;
+
+    this.jira = new JiraClient(globalConfig.jira);
+    this.git = createGitHost(globalConfig, projectConfig, workingDir);
+    this.claude = new ClaudeClient(projectConfig.claude, projectConfig.workflow.commitPattern);
+    this.tracker = new FollowUpTracker(globalConfig.bot.dataDir);
+    this.budget = new Budget(projectConfig.claude.budget, globalConfig.bot.dataDir, projectConfig.project.jiraKey);
+    this.history = new RunHistory(globalConfig.bot.dataDir);
+    this.tree = new WorkingTreeGuard(this.git, projectConfig, workingDir, logger);
+  }
+
+  /**
+   * Tracked tickets of this project with follow-up comments that have not
+   * been acted on yet. Tickets that are no longer open to follow-ups are
+   * untracked on the way.
+   */
+  async findPending(): Promise<TrackedTicket[]> {
+    const pending: TrackedTicket[] = [];
+
+    for (const tracked of await this.tracker.list(this.projectConfig.project.jiraKey)) {
+      try {
+        const closed = await this.closedReason(tracked);
+        if (closed) {
+          this.logger.info(`No longer following ${tracked.ticketKey}: ${closed}`);
+          await this.tracker.untrack(tracked.ticketKey);
+          continue;
+        }
+
+        const { latestId, triggers } = await this.newComments(tracked);
+        if (triggers.length > 0) {
+          pending.push(tracked);
+        } else if (latestId) {
+          // Chatter that doesn't ask for work is not looked at again
+          await this.tracker.update(tracked.ticketKey, { lastSeenCommentId: latestId });
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.warn(`Failed to read comments on ${tracked.ticketKey}: ${message}`);
+      }
+    }
+
+    return pending;
+  }
+
+  async respond(ticketKey: string): Promise<FollowUpResult> {
+    const result: FollowUpResult = { success: false, ticketKey, addressed: 0, pushed: false };
+    const startedAt = new Date();
+    let originalBranch: string | null = null;
+    // Set once there are comments to act on, so a failure can still be reported
+    let latestId: string | null = null;
+    // Set once Claude is about to run, so the run is recorded against the budget
+    let run: FollowUpRun | null = null;
+
+    try {
+      const tracked = await this.tracker.get(ticketKey);
+      if (!tracked) {
+        throw new Error(`${ticketKey} has no pushed branch to follow up on`);
+      }
+
+      const comments = await this.newComments(tracked);
+      if (comments.triggers.length === 0) {
+        this.logger.info(`No follow-up comments on ${ticketKey}`);
+        if (comments.latestId) {
+          await this.tracker.update(ticketKey, { lastSeenCommentId: comments.latestId });
+        }
+        return { ...result, success: true };
+      }
+      // Checked before the comments count as taken on, so they are tried again once it's fixed
+      if (!this.options.isolated) {
+        const problem = await this.tree.prepare(`follow-up on ${ticketKey}`);
+        if (problem) {
+          this.logger.error(`Not following up on ${ticketKey}: ${problem}`);
+          return { ...result, error: problem };
+        }
+      }
+      const { triggers } = comments;
+      latestId = comments.latestId;
+      this.logger.info(`Following up on ${triggers.length} comment(s) on ${ticketKey}`);
+
+      const ticket = await this.jira.getTicket(ticketKey);
+      const ticketUrl = this.jira.getTicketUrl(ticketKey);
+      const { branchName } = tracked;
+
+      // Continue from the branch exactly as pushed
+      if (!this.options.isolated) {
+        originalBranch = await this.git.getCurrentBranch();
+      }
+      this.logger.info(`Checking out ${branchName}...`);
+      await this.git.checkoutRemoteBranch(branchName);
+
+      const exceeded = this.budget.exceededCapFor(ticketKey);
+      if (exceeded) {
+        throw new Error(`Budget: ${exceeded}`);
+      }
+
+      this.logger.info(`Running Claude Code...`);
+      run = { branchName, prUrl: tracked.prUrl, log: this.startRunLog(ticketKey, startedAt) };
+      run.log?.step('claude');
+      const claudeResult = await this.claude.workTicket(
+        ticket,
+        ticketUrl,
+        this.workingDir,
+        this.formatInstructions(triggers, branchName),
+        { transcript: run.log || undefined, maxCostUsd: this.budget.remainingFor(ticketKey), logger: this.logger }
+      );
+      run.metrics = claudeResult.metrics;
+      if (!claudeResult.success) {
+        throw new Error(`Claude Code failed: ${claudeResult.error}`);
+      }
+
+      // Changes only to never-stage paths can't be committed
+      if (await this.git.hasCommittableChanges()) {
+        await this.git.commitChanges(formatCommitMessage(this.projectConfig.workflow.commitPattern, {
+          ticketKey,
+          summary: 'Address follow-up comments',
+        }));
+      }
+
+      const remoteRef = `origin/${branchName}`;
+      const pushed = await this.git.hasNewCommits(remoteRef);
+      let reply: string;
+      if (pushed) {
+        const changesSummary = await this.git.getCommitSummary(remoteRef);
+        run.log?.diff(await this.git.getDiff(remoteRef));
+        run.log?.step('push');
+        this.logger.info(`Pushing ${branchName}...`);
+        await this.git.pushBranch(branchName, remoteRef);
+        reply = `JIRA Claude Bot pushed follow-up changes to ${branchName}` +
+          `${tracked.prUrl ? ` (${tracked.prUrl})` : ''}.\n\n${changesSummary}`;
+      } else {
+        this.logger.warn(`No changes made for the follow-up comments`);
+        reply = 'JIRA Claude Bot looked at the follow-up comments but made no code changes.';
+      }
+
+      // Our own reply is newer than latestId and is skipped by author anyway
+      await this.jira.addComment(ticketKey, reply);
+      await this.tracker.update(ticketKey, { lastSeenCommentId: latestId! });
+
+      this.logger.success(`Replied on ${ticketUrl}`);
+      await this.finishRun(ticketKey, run, startedAt);
+      return { ...result, success: true, addressed: triggers.length, pushed };
+
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to follow up on ${ticketKey}: ${message}`);
+
+      // Say so on the ticket and move on, rather than retrying the same comments every poll
+      if (latestId) {
+        try {
+          await this.jira.addComment(
+            ticketKey,
+            `JIRA Claude Bot could not act on the follow-up comments: ${message}\n\n` +
+            'Leave another comment to try again.'
+          );
+          await this.tracker.update(ticketKey, { lastSeenCommentId: latestId });
+        } catch {
+          // Ignore
+        }
+      }
+      await this.finishRun(ticketKey, run, startedAt, message);
+      return { ...result, error: message };
+
+    } finally {
+      try {
+        if (this.options.isolated) {
+          await this.git.detachHead();
+        } else if (originalBranch) {
+          await this.git.checkoutBranch(originalBranch);
+        }
+      } catch {
+        // Ignore
+      }
+      await this.tree.restore();
+    }
+  }
+
+  private startRunLog(ticketKey: string, startedAt: Date): RunLog | null {
+    try {
+      return RunLog.start(this.globalConfig.bot.dataDir, ticketKey, this.projectConfig.project.jiraKey, startedAt);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      this.logger.warn(`Failed to create run log: ${message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Close the run log, attach its transcript to the ticket when the run
+   * failed and `workflow.attachTranscriptOnFailure` is set, and record the
+   * run in the history.
+   */
+  private async finishRun(ticketKey: string, run: FollowUpRun | null, startedAt: Date, error?: string): Promise<void> {
+    if (!run) {
+      return;
+    }
+
+    if (run.log) {
+      run.log.finish(!error, error, run.metrics);
+      if (error && this.projectConfig.workflow.attachTranscriptOnFailure) {
+        try {
+          const excerpt = run.log.writeExcerpt(knownSecrets(this.globalConfig));
+          if (excerpt) {
+            await this.jira.uploadAttachment(ticketKey, excerpt);
+          }
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err);
+          this.logger.warn(`Failed to attach the transcript: ${message}`);
+        }
+      }
+    }
+
+    const finishedAt = new Date();
+    try {
+      this.history.append({
+        ticketKey,
+        projectKey: this.projectConfig.project.jiraKey,
+        trigger: this.options.trigger || 'work',
+        task: 'follow_up',
+        success: !error,
+        startedAt: startedAt.toISOString(),
+        finishedAt: finishedAt.toISOString(),
+        durationMs: finishedAt.getTime() - startedAt.getTime(),
+        model: this.projectConfig.claude.model,
+        inputTokens: run.metrics?.inputTokens,
+        outputTokens: run.metrics?.outputTokens,
+        costUsd: run.metrics?.costUsd,
+        branchName: run.branchName,
+        prUrl: run.prUrl,
+        error,
+        runId: run.log?.id,
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      this.logger.warn(`Failed to record run history: ${message}`);
+    }
+  }
+
+  /**
+   * Why follow-ups on the ticket are over, or null while they are not: the
+   * ticket left the configured statuses, or its branch was merged or deleted.
+   */
+  private async closedReason(tracked: TrackedTicket): Promise<string | null> {
+    const { tickets, workflow } = this.projectConfig;
+    const statuses = [...(tickets.statuses || []), workflow.transitions.onPrCreated, workflow.transitions.onPrFailed]
+      .filter((s): s is string => Boolean(s))
+      .map(s => s.toLowerCase());
+    if (statuses.length > 0) {
+      const { status } = await this.jira.getTicket(tracked.ticketKey);
+      if (!statuses.includes(status.toLowerCase())) {
+        return `ticket moved to ${status}`;
+      }
+    }
+
+    const { branchName } = tracked;
+    if (!await this.git.getRemoteBranchExists(branchName)) {
+      return `${branchName} was deleted`;
+    }
+    if (tracked.prUrl) {
+      if (!await this.git.findOpenPullRequest(branchName)) {
+        return `the pull request for ${branchName} is no longer open`;
+      }
+    } else if (await this.git.isBranchMerged(branchName, workflow.pr.baseBranch)) {
+      return `${branchName} was merged`;
+    }
+    return null;
+  }
+
+  private async newComments(tracked: TrackedTicket): Promise<NewComments> {
+    const bot = await this.getBotUser();
+    const lastSeen = Number(tracked.lastSeenCommentId) || 0;
+
+    const human = (await this.jira.getComments(tracked.ticketKey))
+      .filter(c => Number(c.id) > lastSeen)
+      .filter(c => c.authorAccountId !== bot.accountId);
+
+    return {
+      latestId: human.length > 0 ? human[human.length - 1].id : null,
+      triggers: human.filter(c => this.isTrigger(c, bot)),
+    };
+  }
+
+  private isTrigger(comment: JiraComment, bot: JiraUser): boolean {
+    if (this.projectConfig.workflow.followUps?.trigger === 'any') {
+      return true;
+    }
+    if (findMentions(comment.body).includes(bot.accountId)) {
+      return true;
+    }
+    return this.commentText(comment).startsWith(this.prefix());
+  }
+
+  private formatInstructions(comments: JiraComment[], branchName: string): string {
+    const prefix = this.prefix();
+    const quoted = comments.map(c => {
+      let text = this.commentText(c);
+      if (text.startsWith(prefix)) {
+        text = text.slice(prefix.length).trim();
+      }
+      return `**${c.author}** (${c.created}):\n${text}`;
+    }).join('\n\n');
+
+    return `This ticket was already worked on: branch ${branchName} is checked out with those changes. ` +
+      `Do not start over. Make only the changes these new comments ask for:\n\n${quoted}`;
+  }
+
+  private commentText(comment: JiraComment): string {
+    return formatDescription(comment.body).trim();
+  }
+
+  private prefix(): string {
+    return this.projectConfig.workflow.followUps?.prefix || DEFAULT_PREFIX;
+  }
+
+  private async getBotUser(): Promise<JiraUser> {
+    if (!this.botUser) {
+      this.botUser = await this.jira.getCurrentUser();
+    }
+    return this.botUser;
+  }
+}
@@ -0,0 +1,73 @@
+import { withDatabase, collection, isNotFoundError, Collection } from './store';
+
+export interface TrackedTicket {
+  ticketKey: string;
+  projectKey: string;
+  branchName: string;
+  // Newest JIRA comment already seen; only later comments count as follow-ups
+  lastSeenCommentId: string;
+  trackedAt: string;
+  prUrl?: string;
+}
+
+/**
+ * Tickets whose branch was pushed and that are still open to follow-up
+ * instructions from JIRA comments, keyed by ticket. Stored next to the queue
+ * under `bot.dataDir`.
+ */
+export class FollowUpTracker {
+  private dataDir: string;
+
+  constructor(dataDir: string) {
+    this.dataDir = dataDir;
+  }
+
+  /**
+   * Start following a ticket. Tracking it again replaces the old entry.
+   */
+  async track(ticket: TrackedTicket): Promise<void> {
+    await this.withTickets(tickets => tickets.put(ticket.ticketKey, ticket));
+  }
+
+  async update(ticketKey: string, changes: Partial<TrackedTicket>): Promise<void> {
+    await this.withTickets(async (tickets) => {
+      const existing = await this.read(tickets, ticketKey);
+      if (existing) {
+        await tickets.put(ticketKey, { ...existing, ...changes });
+      }
+    });
+  }
+
+  async untrack(ticketKey: string): Promise<void> {
+    await this.withTickets(tickets => tickets.del(ticketKey));
+  }
+
+  async get(ticketKey: string): Promise<TrackedTicket | null> {
+    return this.withTickets(tickets => this.read(tickets, ticketKey));
+  }
+
+  async list(projectKey?: string): Promise<TrackedTicket[]> {
+    return this.withTickets(async (tickets) => {
+      const all: TrackedTicket[] = [];
+      for await (const value of tickets.values()) {
+        all.push(value as TrackedTicket);
+      }
+      return all.filter(t => !projectKey || t.projectKey === projectKey);
+    });
+  }
+
+  private withTickets<T>(fn: (tickets: Collection) => Promise<T>): Promise<T> {
+    return withDatabase(this.dataDir, db => fn(collection(db, 'follow-ups')));
+  }
+
+  private async read(tickets: Collection, ticketKey: string): Promise<TrackedTicket | null> {
+    try {
+      return await tickets.get(ticketKey) as TrackedTicket;
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,360 @@
+import { JiraTicket } from '../clients/jira';
+import { DiffStats } from '../clients/git';
+import { formatDescription } from '../clients/adf';
+import { matchesAnyGlob } from '../utils/glob';
+
+/**
+ * A guardrail rule as written in `.jira-claude-bot.yaml`. Either a string
+ * ("story_points > 5", "has_label: blocked") or a single-key mapping, which
+ * is what YAML produces for entries like `- has_label: "needs-design"`.
+ */
+export type GuardrailRule = string | Record<string, string | number | boolean>;
+
+export type RuleOperator = '==' | '!=' | '>' | '>=' | '<' | '<=';
+
+export interface ParsedRule {
+  field: string;
+  operator: RuleOperator;
+  value: string | number | boolean;
+  source: string;
+}
+
+export interface TicketRuleOptions {
+  storyPointsField?: string;
+}
+
+// Jira Cloud's default "Story point estimate" field
+export const DEFAULT_STORY_POINTS_FIELD = 'customfield_10016';
+
+const TICKET_FIELDS = [
+  'has_label',
+  'issue_type',
+  'priority',
+  'story_points',
+  'description_length',
+  'attachment_count',
+  'reporter',
+];
+
+// Ticket fields that can be compared with > >= < <=
+const NUMERIC_TICKET_FIELDS = ['story_points', 'description_length', 'attachment_count'];
+
+const RULE_PATTERN = /^\s*([a-z_]+)\s*(>=|<=|!=|==|=|>|<|:)\s*(.*?)\s*$/i;
+const OPERATOR_PREFIX = /^\s*(>=|<=|!=|==|=|>|<)\s*(.+?)\s*$/;
+
+export function parseRule(rule: GuardrailRule): ParsedRule {
+  if (typeof rule === 'string') {
+    const match = rule.match(RULE_PATTERN);
+    if (!match) {
+      // A bare field name ("modifies_auth") is shorthand for "is true"
+      if (/^\s*[a-z_]+\s*$/i.test(rule)) {
+        return { field: rule.trim().toLowerCase(), operator: '==', value: true, source: rule.trim() };
+      }
+      throw new Error(`Invalid guardrail rule "${rule}"`);
+    }
+    return {
+      field: match[1].toLowerCase(),
+      operator: normalizeOperator(match[2]),
+      value: parseValue(match[3]),
+      source: rule.trim(),
+    };
+  }
+
+  const keys = Object.keys(rule || {});
+  if (keys.length !== 1) {
+    throw new Error(`Invalid guardrail rule ${JSON.stringify(rule)}: expected a single condition`);
+  }
+
+  const field = keys[0];
+  const raw = rule[field];
+  const source = `${field}: ${raw}`;
+
+  if (typeof raw === 'string') {
+    const match = raw.match(OPERATOR_PREFIX);
+    if (match) {
+      return { field: field.toLowerCase(), operator: normalizeOperator(match[1]), value: parseValue(match[2]), source };
+    }
+  }
+
+  return {
+    field: field.toLowerCase(),
+    operator: '==',
+    value: typeof raw === 'string' ? parseValue(raw) : raw,
+    source,
+  };
+}
+
+/**
+ * Check that every rule parses, names a ticket field and only orders
+ * numeric fields by number. Returns one error message per bad rule.
+ */
+export function validateTicketRules(rules: GuardrailRule[], label: string): string[] {
+  const errors: string[] = [];
+
+  for (const rule of rules) {
+    try {
+      const parsed = parseRule(rule);
+      if (!TICKET_FIELDS.includes(parsed.field)) {
+        errors.push(`${label}: unknown field "${parsed.field}" (expected one of: ${TICKET_FIELDS.join(', ')})`);
+      } else if (parsed.operator !== '==' && parsed.operator !== '!=') {
+        if (!NUMERIC_TICKET_FIELDS.includes(parsed.field)) {
+          errors.push(`${label}: "${parsed.source}" uses ${parsed.operator}, but ${parsed.field} only supports == and !=`);
+        } else if (typeof parsed.value !== 'number') {
+          errors.push(`${label}: "${parsed.source}" uses ${parsed.operator}, which needs a numeric value`);
+        }
+      }
+    } catch (error) {
+      errors.push(`${label}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Return the first rule the ticket matches, or null if none do.
+ */
+export function findMatchingRule(
+  ticket: JiraTicket,
+  rules: GuardrailRule[],
+  options: TicketRuleOptions = {}
+): ParsedRule | null {
+  for (const rule of rules) {
+    const parsed = parseRule(rule);
+    if (matchesTicket(ticket, parsed, options)) {
+      return parsed;
+    }
+  }
+  return null;
+}
+
+export function matchesTicket(ticket: JiraTicket, rule: ParsedRule, options: TicketRuleOptions = {}): boolean {
+  switch (rule.field) {
+    case 'has_label': {
+      const hasLabel = ticket.labels.some(l => equalsIgnoreCase(l, rule.value));
+      if (rule.operator === '==') return hasLabel;
+      if (rule.operator === '!=') return !hasLabel;
+      throw new Error(`Operator ${rule.operator} is not supported for has_label`);
+    }
+
+    case 'issue_type':
+      return compare(ticket.type, rule);
+
+    case 'priority':
+      return compare(ticket.priority, rule);
+
+    case 'reporter':
+      return compare(ticket.reporter, rule);
+
+    case 'story_points': {
+      const points = readStoryPoints(ticket, options.storyPointsField);
+      // Unestimated tickets never match a story point rule
+      return points !== null && compare(points, rule);
+    }
+
+    case 'description_length': {
+      const length = ticket.description
+        ? formatDescription(ticket.description, { ticketKey: ticket.key }).trim().length
+        : 0;
+      return compare(length, rule);
+    }
+
+    case 'attachment_count':
+      return compare(ticket.attachments.length, rule);
+
+    default:
+      throw new Error(`Unknown guardrail field "${rule.field}" in rule "${rule.source}"`);
+  }
+}
+
+export function readStoryPoints(ticket: JiraTicket, field: string = DEFAULT_STORY_POINTS_FIELD): number | null {
+  const value = ticket.customFields[field];
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+  const points = Number(value);
+  return isNaN(points) ? null : points;
+}
+
+/**
+ * Compare an actual value against a parsed rule. Numeric operators require
+ * numbers; equality on strings is case-insensitive.
+ */
+export function compare(actual: string | number | boolean, rule: ParsedRule): boolean {
+  const { operator, value } = rule;
+
+  if (operator === '==' || operator === '!=') {
+    const equal = typeof actual === 'string' || typeof value === 'string'
+      ? equalsIgnoreCase(String(actual), value)
+      : actual === value;
+    return operator === '==' ? equal : !equal;
+  }
+
+  if (typeof actual !== 'number' || typeof value !== 'number') {
+    throw new Error(`Rule "${rule.source}" compares ${operator} but needs a numeric value`);
+  }
+
+  switch (operator) {
+    case '>': return actual > value;
+    case '>=': return actual >= value;
+    case '<': return actual < value;
+    case '<=': return actual <= value;
+  }
+}
+
+function normalizeOperator(operator: string): RuleOperator {
+  if (operator === '=' || operator === ':') return '==';
+  return operator as RuleOperator;
+}
+
+function parseValue(raw: string): string | number | boolean {
+  const unquoted = raw.replace(/^(['"])(.*)\1$/, '$2');
+  if (unquoted !== raw) {
+    return unquoted;
+  }
+  if (/^-?\d+(\.\d+)?$/.test(raw)) {
+    return parseFloat(raw);
+  }
+  if (raw === 'true' || raw === 'false') {
+    return raw === 'true';
+  }
+  return raw;
+}
+
+function equalsIgnoreCase(a: string, b: string | number | boolean): boolean {
+  return a.toLowerCase() === String(b).toLowerCase();
+}
+
+export interface ReviewTrigger {
+  rule: string;
+  detail: string;
+}
+
+export const DEFAULT_SENSITIVE_PATHS: Record<string, string[]> = {
+  // Whole words only, so files like Author.tsx or session-notes.md don't count
+  auth: [
+    '**/auth/**',
+    '**/auth.*',
+    '**/auth-*.*',
+    '**/auth_*.*',
+    '**/*.auth.*',
+    '**/*-auth.*',
+    '**/*_auth.*',
+    '**/oauth/**',
+    '**/login/**',
+    '**/session/**',
+    '**/sessions/**',
+    '**/session.*',
+    '**/*password*',
+    '**/permissions/**',
+    '**/middleware.*',
+  ],
+  payments: [
+    '**/payment*/**',
+    '**/*payment*.*',
+    '**/billing/**',
+    '**/checkout/**',
+    '**/*stripe*',
+    '**/*invoice*',
+    '**/subscription*/**',
+  ],
+};
+
+/**
+ * Default sensitive path categories, with configured categories added or
+ * replacing a default list of the same name.
+ */
+export function resolveSensitivePaths(configured: Record<string, string[]> = {}): Record<string, string[]> {
+  return { ...DEFAULT_SENSITIVE_PATHS, ...configured };
+}
+
+const DIFF_FIELDS = ['file_count', 'lines_changed', 'lines_added', 'lines_deleted'];
+
+/**
+ * Check that every require-review rule parses and names a diff field or a
+ * `modifies_<category>` with a configured sensitive path category.
+ */
+export function validateReviewRules(
+  rules: GuardrailRule[],
+  sensitivePaths: Record<string, string[]>,
+  label: string
+): string[] {
+  const errors: string[] = [];
+
+  for (const rule of rules) {
+    try {
+      const parsed = parseRule(rule);
+      const category = sensitiveCategory(parsed.field);
+      if (category !== null) {
+        if (!sensitivePaths[category]) {
+          errors.push(`${label}: no sensitivePaths category "${category}" for rule "${parsed.source}"`);
+        }
+      } else if (!DIFF_FIELDS.includes(parsed.field)) {
+        errors.push(
+          `${label}: unknown field "${parsed.field}" (expected one of: ${DIFF_FIELDS.join(', ')}, modifies_<category>)`
+        );
+      }
+    } catch (error) {
+      errors.push(`${label}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Evaluate require-review rules against the branch diff. Returns every rule
+ * that tripped, with the numbers or files that tripped it.
+ */
+export function evaluateReviewRules(
+  stats: DiffStats,
+  rules: GuardrailRule[],
+  sensitivePaths: Record<string, string[]>
+): ReviewTrigger[] {
+  const triggers: ReviewTrigger[] = [];
+
+  for (const rule of rules) {
+    const parsed = parseRule(rule);
+    const category = sensitiveCategory(parsed.field);
+
+    if (category !== null) {
+      const patterns = sensitivePaths[category];
+      if (!patterns) {
+        throw new Error(`No sensitivePaths category "${category}" for rule "${parsed.source}"`);
+      }
+      const matched = stats.files.map(f => f.path).filter(p => matchesAnyGlob(p, patterns));
+      if (compare(matched.length > 0, parsed)) {
+        triggers.push({
+          rule: parsed.source,
+          detail: matched.length > 0 ? `touches ${matched.join(', ')}` : `does not touch ${category} paths`,
+        });
+      }
+      continue;
+    }
+
+    const actual = diffFieldValue(stats, parsed.field);
+    if (actual === null) {
+      throw new Error(`Unknown guardrail field "${parsed.field}" in rule "${parsed.source}"`);
+    }
+    if (compare(actual, parsed)) {
+      triggers.push({ rule: parsed.source, detail: `${parsed.field.replace(/_/g, ' ')} is ${actual}` });
+    }
+  }
+
+  return triggers;
+}
+
+function sensitiveCategory(field: string): string | null {
+  const match = field.match(/^modifies_(.+)$/);
+  return match ? match[1] : null;
+}
+
+function diffFieldValue(stats: DiffStats, field: string): number | null {
+  switch (field) {
+    case 'file_count': return stats.fileCount;
+    case 'lines_changed': return stats.linesChanged;
+    case 'lines_added': return stats.linesAdded;
+    case 'lines_deleted': return stats.linesDeleted;
+    default: return null;
+  }
+}
@@ -0,0 +1,80 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type RunTrigger = 'work' | 'daemon';
+
+// What the run did; records without one are ticket runs
+export type RunTask = 'ticket' | 'review' | 'follow_up';
+
+export interface RunRecord {
+  ticketKey: string;
+  projectKey: string;
+  trigger: RunTrigger;
+  task?: RunTask;
+  success: boolean;
+  skipped?: boolean;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  model: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  costUsd?: number;  // reported by Claude Code, or estimated when the run was cut short
+  branchName?: string;
+  prUrl?: string;
+  previewUrl?: string;
+  error?: string;
+  runId?: string;  // transcript directory under runs/<ticket>/, see `jira-claude-bot logs`
+}
+
+export interface HistoryFilter {
+  ticketKey?: string;
+  since?: Date;
+  failedOnly?: boolean;
+}
+
+/**
+ * Append-only log of every ticket, review and follow-up run, one JSON
+ * record per line in `bot.dataDir/history.jsonl`.
+ */
+export class RunHistory {
+  private filePath: string;
+
+  constructor(dataDir: string) {
+    this.filePath = path.join(dataDir, 'history.jsonl');
+  }
+
+  append(record: RunRecord): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.appendFileSync(this.filePath, JSON.stringify(record) + '\n');
+  }
+
+  /**
+   * Read records oldest first. Lines that fail to parse (e.g. a write cut
+   * short by a crash) are skipped.
+   */
+  read(filter: HistoryFilter = {}): RunRecord[] {
+    if (!fs.existsSync(this.filePath)) {
+      return [];
+    }
+
+    const records: RunRecord[] = [];
+    const lines = fs.readFileSync(this.filePath, 'utf8').split('\n');
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        // Skip partial lines
+      }
+    }
+
+    return records.filter(r => {
+      if (filter.ticketKey && r.ticketKey.toUpperCase() !== filter.ticketKey.toUpperCase()) return false;
+      if (filter.since && new Date(r.startedAt) < filter.since) return false;
+      if (filter.failedOnly && r.success) return false;
+      return true;
+    });
+  }
+}
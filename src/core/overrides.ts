@@ -0,0 +1,106 @@
+import { JiraTicket } from '../clients/jira';
+import { ClaudeConfig } from './config';
+import { GuardrailRule, TicketRuleOptions, matchesTicket, parseRule, validateTicketRules } from './guardrails';
+import { RetryStep } from './retry';
+
+export interface ClaudeOverride {
+  // One ticket rule, or a list that must all match (e.g. a story point range)
+  when: GuardrailRule | GuardrailRule[];
+  model?: ClaudeConfig['model'];
+  maxTurns?: number;
+  timeout?: number;       // milliseconds
+  instructions?: string;  // appended to claude.instructions
+}
+
+export interface ResolvedClaudeSettings {
+  config: ClaudeConfig;
+  // The `when` of every override that applied, in order
+  matched: string[];
+}
+
+/**
+ * The Claude settings for one ticket: `claude`, the first retry ladder step,
+ * then every matching `claude.overrides` entry in order, so later entries
+ * win. Once a ticket has `escalated` up the ladder, its step is applied after
+ * the overrides instead, so escalating always changes the model and turn limit.
+ */
+export function resolveClaudeSettings(
+  claudeConfig: ClaudeConfig,
+  ticket: JiraTicket,
+  options: TicketRuleOptions = {},
+  step?: RetryStep,
+  escalated: boolean = false
+): ResolvedClaudeSettings {
+  const config: ClaudeConfig = { ...claudeConfig };
+  if (step && !escalated) {
+    applyStep(config, step);
+  }
+  const matched: string[] = [];
+
+  for (const override of claudeConfig.overrides || []) {
+    const rules = conditions(override).map(parseRule);
+    if (!rules.every(rule => matchesTicket(ticket, rule, options))) {
+      continue;
+    }
+
+    matched.push(rules.map(r => r.source).join(' and '));
+    if (override.model) config.model = override.model;
+    if (override.maxTurns !== undefined) config.maxTurns = override.maxTurns;
+    if (override.timeout !== undefined) config.timeout = override.timeout;
+    if (override.instructions) {
+      config.instructions = config.instructions
+        ? `${config.instructions}\n\n${override.instructions}`
+        : override.instructions;
+    }
+  }
+
+  if (step && escalated) {
+    applyStep(config, step);
+  }
+
+  return { config, matched };
+}
+
+function applyStep(config: ClaudeConfig, step: RetryStep): void {
+  config.model = step.model;
+  if (step.maxTurns !== undefined) config.maxTurns = step.maxTurns;
+}
+
+/**
+ * One line describing the settings a run used, for logs and the JIRA comment.
+ */
+export function describeClaudeSettings(settings: ResolvedClaudeSettings): string {
+  const { model, maxTurns, timeout } = settings.config;
+  const parts = [model, `${maxTurns} max turns`];
+  if (timeout) {
+    parts.push(`${Math.round(timeout / 60000)} min timeout`);
+  }
+  const line = parts.join(', ');
+  return settings.matched.length > 0 ? `${line} (overrides: ${settings.matched.join('; ')})` : line;
+}
+
+export function validateOverrides(overrides: ClaudeOverride[], prefix: string = 'claude.overrides'): string[] {
+  const errors: string[] = [];
+  overrides.forEach((override, i) => {
+    const label = `${prefix}[${i}]`;
+    if (!override || override.when === undefined || conditions(override).length === 0) {
+      errors.push(`${label}.when is required`);
+      return;
+    }
+    errors.push(...validateTicketRules(conditions(override), `${label}.when`));
+    if (override.model !== undefined && !['sonnet', 'opus', 'haiku'].includes(override.model)) {
+      errors.push(`${label}.model must be one of sonnet, opus, haiku`);
+    }
+    if (override.maxTurns !== undefined && !(override.maxTurns >= 1)) {
+      errors.push(`${label}.maxTurns must be at least 1`);
+    }
+    if (override.timeout !== undefined && !(override.timeout > 0)) {
+      errors.push(`${label}.timeout must be a positive number of milliseconds`);
+    }
+  });
+  return errors;
+}
+
+function conditions(override: ClaudeOverride): GuardrailRule[] {
+  return Array.isArray(override.when) ? override.when : [override.when];
+}
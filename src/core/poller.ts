@@ -6,7 +6,6 @@ export class Poller {
   private jira: JiraClient;
   private projectConfig: ProjectConfig;
   private logger: Logger;
-  private processedTickets: Set<string> = new Set();
 
   constructor(
     globalConfig: GlobalConfig,
@@ -18,7 +17,11 @@ export class Poller {
     this.logger = logger;
   }
 
-  async getNextTicket(): Promise<JiraTicket | null> {
+  /**
+   * Fetch the tickets currently matching the configured criteria, highest
+   * priority first. Deduplication against past work happens in the queue.
+   */
+  async getCandidateTickets(): Promise<JiraTicket[]> {
     const { jiraKey } = this.projectConfig.project;
     const statuses = this.projectConfig.tickets.statuses || ['To Do'];
     const labels = this.projectConfig.tickets.labels;
@@ -33,32 +36,10 @@ export class Poller {
     this.logger.debug(`Polling with JQL: ${jql}`);
 
     try {
-      const tickets = await this.jira.searchTickets(jql, 10);
-
-      // Filter out tickets we've already processed in this session
-      const available = tickets.filter(t => !this.processedTickets.has(t.key));
-
-      if (available.length === 0) {
-        return null;
-      }
-
-      // Return the first (highest priority) ticket
-      return available[0];
+      return await this.jira.searchTickets(jql, 10);
     } catch (error) {
       this.logger.error(`Failed to poll JIRA: ${error instanceof Error ? error.message : String(error)}`);
-      return null;
+      return [];
     }
   }
-
-  markProcessed(ticketKey: string): void {
-    this.processedTickets.add(ticketKey);
-  }
-
-  clearProcessed(): void {
-    this.processedTickets.clear();
-  }
-
-  getProcessedCount(): number {
-    return this.processedTickets.size;
-  }
 }
@@ -0,0 +1,83 @@
+import { withDatabase, collection, isNotFoundError, Collection } from './store';
+
+export interface TrackedPullRequest {
+  ticketKey: string;
+  projectKey: string;
+  number: number;
+  url: string;
+  branchName: string;
+  openedAt: string;
+  lastCheckedAt?: string;
+  // Head commit whose failing checks were already reported, so each push is reported once
+  failureReportedFor?: string;
+  // Creation time of the newest review comment already addressed
+  reviewsAddressedAt?: string;
+  // Opened as a draft only because of workflow.pr.draft; marked ready once checks pass
+  readyWhenGreen?: boolean;
+}
+
+/**
+ * Pull requests the bot opened and still watches for merges and failures,
+ * keyed by ticket. Stored next to the queue under `bot.dataDir`.
+ */
+export class PullRequestTracker {
+  private dataDir: string;
+
+  constructor(dataDir: string) {
+    this.dataDir = dataDir;
+  }
+
+  /**
+   * Start watching a PR. A newer PR for the same ticket replaces the old one.
+   */
+  async track(pr: TrackedPullRequest): Promise<void> {
+    await this.withPullRequests(prs => prs.put(pr.ticketKey, pr));
+  }
+
+  async update(ticketKey: string, changes: Partial<TrackedPullRequest>): Promise<void> {
+    await this.withPullRequests(async (prs) => {
+      const existing = await this.read(prs, ticketKey);
+      if (existing) {
+        await prs.put(ticketKey, { ...existing, ...changes });
+      }
+    });
+  }
+
+  async untrack(ticketKey: string): Promise<void> {
+    await this.withPullRequests(prs => prs.del(ticketKey));
+  }
+
+  async get(ticketKey: string): Promise<TrackedPullRequest | null> {
+    return this.withPullRequests(prs => this.read(prs, ticketKey));
+  }
+
+  async findByNumber(projectKey: string, number: number): Promise<TrackedPullRequest | null> {
+    const prs = await this.list(projectKey);
+    return prs.find(pr => pr.number === number) || null;
+  }
+
+  async list(projectKey?: string): Promise<TrackedPullRequest[]> {
+    return this.withPullRequests(async (prs) => {
+      const all: TrackedPullRequest[] = [];
+      for await (const value of prs.values()) {
+        all.push(value as TrackedPullRequest);
+      }
+      return all.filter(pr => !projectKey || pr.projectKey === projectKey);
+    });
+  }
+
+  private withPullRequests<T>(fn: (prs: Collection) => Promise<T>): Promise<T> {
+    return withDatabase(this.dataDir, db => fn(collection(db, 'pull-requests')));
+  }
+
+  private async read(prs: Collection, ticketKey: string): Promise<TrackedPullRequest | null> {
+    try {
+      return await prs.get(ticketKey) as TrackedPullRequest;
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
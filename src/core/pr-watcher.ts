@@ -0,0 +1,159 @@
+import { JiraClient } from '../clients/jira';
+import { GitHostClient, CheckRun, createGitHost } from '../clients/git-host';
+import { ProjectConfig, GlobalConfig } from './config';
+import { PullRequestTracker, TrackedPullRequest } from './pr-tracker';
+import { FollowUpTracker } from './follow-up-tracker';
+import { Logger } from '../utils/logger';
+
+// How long a draft without any checks waits before it counts as green, so
+// CI that reports late is not mistaken for a repo without CI
+const NO_CHECKS_GRACE_MS = 15 * 60 * 1000;
+
+/**
+ * Follows the PRs the bot opened for one project and moves their tickets
+ * along: `transitions.onPrMerged` once merged, `transitions.onPrFailed` when
+ * a PR is closed without merging or its required checks fail. Drafts opened
+ * with `pr.markReadyWhenGreen` are marked ready once their checks pass.
+ */
+export class PrWatcher {
+  private jira: JiraClient;
+  private git: GitHostClient;
+  private tracker: PullRequestTracker;
+  private followUps: FollowUpTracker;
+  private projectConfig: ProjectConfig;
+  private logger: Logger;
+
+  constructor(
+    globalConfig: GlobalConfig,
+    projectConfig: ProjectConfig,
+    workingDir: string,
+    logger: Logger
+  ) {
+    this.projectConfig = projectConfig;
+    this.logger = logger;
+
+    this.jira = new JiraClient(globalConfig.jira);
+    this.git = createGitHost(globalConfig, projectConfig, workingDir);
+    this.tracker = new PullRequestTracker(globalConfig.bot.dataDir);
+    this.followUps = new FollowUpTracker(globalConfig.bot.dataDir);
+  }
+
+  /**
+   * Only worth watching when there is a transition to apply, reviews to
+   * answer, drafts to mark ready or follow-up comments to stop following
+   * once the PR is done.
+   */
+  static isEnabled(projectConfig: ProjectConfig): boolean {
+    const { onPrMerged, onPrFailed } = projectConfig.workflow.transitions;
+    const { addressReviews, followUps } = projectConfig.workflow;
+    const markReady = projectConfig.workflow.pr?.draft && projectConfig.workflow.pr.markReadyWhenGreen;
+    return Boolean(onPrMerged || onPrFailed || addressReviews || followUps || markReady);
+  }
+
+  async check(): Promise<void> {
+    const tracked = await this.tracker.list(this.projectConfig.project.jiraKey);
+
+    for (const pr of tracked) {
+      try {
+        await this.checkPullRequest(pr);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.warn(`Failed to check PR #${pr.number} for ${pr.ticketKey}: ${message}`);
+      }
+    }
+  }
+
+  private async checkPullRequest(tracked: TrackedPullRequest): Promise<void> {
+    const { onPrMerged, onPrFailed } = this.projectConfig.workflow.transitions;
+    const pr = await this.git.getPullRequest(tracked.number);
+    const state = pr.state.toUpperCase();
+
+    if (state === 'MERGED') {
+      this.logger.success(`PR #${pr.number} for ${tracked.ticketKey} was merged`);
+      if (onPrMerged) {
+        this.logger.info(`Transitioning ${tracked.ticketKey} to "${onPrMerged}"...`);
+        await this.jira.transitionTicket(tracked.ticketKey, onPrMerged);
+      }
+      await this.stopWatching(tracked);
+      return;
+    }
+
+    if (state === 'CLOSED') {
+      this.logger.warn(`PR #${pr.number} for ${tracked.ticketKey} was closed without merging`);
+      await this.markFailed(
+        tracked,
+        `The pull request ${pr.url} was closed without being merged.`
+      );
+      await this.stopWatching(tracked);
+      return;
+    }
+
+    // Still open: report failing required checks once per head commit
+    if (onPrFailed && tracked.failureReportedFor !== pr.headSha) {
+      const failing = (await this.git.getRequiredChecks(pr.number))
+        .filter(c => c.bucket === 'fail' || c.bucket === 'cancel');
+
+      if (failing.length > 0) {
+        this.logger.warn(`PR #${pr.number} for ${tracked.ticketKey} has failing required checks: ${failing.map(c => c.name).join(', ')}`);
+        await this.markFailed(
+          tracked,
+          `Required checks are failing on ${pr.url}:\n${formatChecks(failing)}\n\n` +
+          'The pull request is still open and is still watched for a merge.'
+        );
+        await this.tracker.update(tracked.ticketKey, {
+          failureReportedFor: pr.headSha,
+          lastCheckedAt: new Date().toISOString(),
+        });
+        return;
+      }
+    }
+
+    if (tracked.readyWhenGreen) {
+      await this.markReadyIfGreen(tracked);
+    }
+
+    await this.tracker.update(tracked.ticketKey, { lastCheckedAt: new Date().toISOString() });
+  }
+
+  /**
+   * Take the draft out of draft once every check on it has passed. A PR
+   * whose checks were all skipped or that has none counts as green only once
+   * it has been open for `NO_CHECKS_GRACE_MS`.
+   */
+  private async markReadyIfGreen(tracked: TrackedPullRequest): Promise<void> {
+    const checks = await this.git.getChecks(tracked.number);
+    if (!checks.every(c => c.bucket === 'pass' || c.bucket === 'skipping')) {
+      return;
+    }
+    if (!checks.some(c => c.bucket === 'pass') && Date.now() - Date.parse(tracked.openedAt) < NO_CHECKS_GRACE_MS) {
+      return;
+    }
+
+    this.logger.info(`Checks passed on PR #${tracked.number} for ${tracked.ticketKey}, marking it ready for review`);
+    await this.git.markReady(tracked.number);
+    await this.tracker.update(tracked.ticketKey, { readyWhenGreen: false });
+  }
+
+  /**
+   * The branch is done with: follow-up comments no longer apply either.
+   */
+  private async stopWatching(tracked: TrackedPullRequest): Promise<void> {
+    await this.tracker.untrack(tracked.ticketKey);
+    await this.followUps.untrack(tracked.ticketKey);
+  }
+
+  private async markFailed(tracked: TrackedPullRequest, reason: string): Promise<void> {
+    const { onPrFailed } = this.projectConfig.workflow.transitions;
+    if (!onPrFailed) {
+      return;
+    }
+
+    await this.jira.addComment(tracked.ticketKey, `JIRA Claude Bot: ${reason}`);
+    this.logger.info(`Transitioning ${tracked.ticketKey} to "${onPrFailed}"...`);
+    await this.jira.transitionTicket(tracked.ticketKey, onPrFailed);
+  }
+}
+
+function formatChecks(checks: CheckRun[]): string {
+  return checks.map(c => `- ${c.name}: ${c.state.toLowerCase()}${c.link ? ` (${c.link})` : ''}`).join('\n');
+}
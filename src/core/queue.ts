@@ -0,0 +1,364 @@
+import { JiraTicket } from '../clients/jira';
+import { withDatabase, collection, isNotFoundError, Collection } from './store';
+
+export type QueueStatus = 'pending' | 'in_progress' | 'completed' | 'failed' | 'skipped';
+
+export interface QueueEntry {
+  ticketKey: string;
+  projectKey: string;
+  summary: string;
+  priority: string;
+  status: QueueStatus;
+  attempts: number;
+  enqueuedAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  lastError?: string;
+  // JIRA's updated time of a ticket the bot skipped, once it was done with
+  // it; the ticket is queued again when it changes after this
+  skippedUpdated?: string;
+  // Retry state, see RetryPolicy
+  retryStep?: number;          // position on claude.retry.ladder
+  transientFailures?: number;  // transient failures on the current step
+  retryAt?: string;            // not dequeued before this time
+}
+
+export interface RetryState {
+  retryStep: number;
+  transientFailures: number;
+  retryAt: string;
+}
+
+// Lower rank is worked first; unknown priorities sort with Medium
+const PRIORITY_RANK: Record<string, number> = {
+  highest: 1,
+  high: 2,
+  medium: 3,
+  low: 4,
+  lowest: 5,
+};
+
+export function priorityRank(priority: string): number {
+  return PRIORITY_RANK[priority.toLowerCase()] ?? PRIORITY_RANK.medium;
+}
+
+/**
+ * Persistent ticket queue backed by LevelDB under `bot.dataDir`.
+ *
+ * Every ticket the daemon has seen keeps an entry, so completed and failed
+ * tickets are not picked up again after a restart.
+ */
+export class TicketQueue {
+  private dataDir: string;
+
+  constructor(dataDir: string) {
+    this.dataDir = dataDir;
+  }
+
+  /**
+   * Add a ticket as pending. Returns false if the ticket is already known,
+   * unless the bot skipped it and it has changed in JIRA since, in which
+   * case it is queued again.
+   */
+  async enqueue(ticket: JiraTicket, projectKey: string): Promise<boolean> {
+    return this.withTickets(async (tickets) => {
+      const existing = await this.read(tickets, ticket.key);
+      const now = new Date().toISOString();
+      if (existing) {
+        if (!changedSinceSkip(existing, ticket)) {
+          return false;
+        }
+        await tickets.put(ticket.key, {
+          ...existing,
+          summary: ticket.summary,
+          priority: ticket.priority,
+          status: 'pending',
+          attempts: 0,
+          updatedAt: now,
+          finishedAt: undefined,
+          lastError: undefined,
+          skippedUpdated: undefined,
+          retryStep: undefined,
+          transientFailures: undefined,
+          retryAt: undefined,
+        });
+        return true;
+      }
+
+      const entry: QueueEntry = {
+        ticketKey: ticket.key,
+        projectKey,
+        summary: ticket.summary,
+        priority: ticket.priority,
+        status: 'pending',
+        attempts: 0,
+        enqueuedAt: now,
+        updatedAt: now,
+      };
+      await tickets.put(ticket.key, entry);
+      return true;
+    });
+  }
+
+  /**
+   * Claim the highest priority pending ticket, other than the busy ones,
+   * and mark it in progress.
+   */
+  async dequeue(projectKey?: string, busy: string[] = []): Promise<QueueEntry | null> {
+    return this.withTickets(async (tickets) => {
+      const now = new Date().toISOString();
+      const candidates = (await this.readAll(tickets))
+        .filter(e => e.status === 'pending')
+        .filter(e => !e.retryAt || e.retryAt <= now)
+        .filter(e => !projectKey || e.projectKey === projectKey)
+        .filter(e => !busy.includes(e.ticketKey))
+        .sort(compareEntries);
+
+      const next = candidates[0];
+      if (!next) {
+        return null;
+      }
+
+      const claimed: QueueEntry = {
+        ...next,
+        status: 'in_progress',
+        attempts: next.attempts + 1,
+        startedAt: now,
+        updatedAt: now,
+        finishedAt: undefined,
+      };
+      await tickets.put(claimed.ticketKey, claimed);
+      return claimed;
+    });
+  }
+
+  async complete(ticketKey: string): Promise<void> {
+    await this.finish(ticketKey, 'completed');
+  }
+
+  async fail(ticketKey: string, error: string): Promise<void> {
+    await this.finish(ticketKey, 'failed', error);
+  }
+
+  /**
+   * Mark a ticket skipped. With `ticketUpdated` (JIRA's updated time once
+   * the bot was done with the ticket) it is queued again when it changes;
+   * without, it stays skipped until retried by hand.
+   */
+  async skip(ticketKey: string, reason: string, ticketUpdated?: string): Promise<void> {
+    await this.finish(ticketKey, 'skipped', reason, ticketUpdated);
+  }
+
+  /**
+   * Return a failed ticket to pending, to be picked up again once `retryAt`
+   * has passed.
+   */
+  async defer(ticketKey: string, error: string, state: RetryState): Promise<void> {
+    await this.withTickets(async (tickets) => {
+      const entry = await this.read(tickets, ticketKey);
+      if (!entry) {
+        throw new Error(`Ticket ${ticketKey} is not in the queue`);
+      }
+
+      await tickets.put(ticketKey, {
+        ...entry,
+        ...state,
+        status: 'pending',
+        updatedAt: new Date().toISOString(),
+        finishedAt: undefined,
+        lastError: error,
+      });
+    });
+  }
+
+  /**
+   * Hand a claimed ticket back as pending without counting the attempt, for
+   * runs that never got to start.
+   */
+  async release(ticketKey: string, reason: string): Promise<void> {
+    await this.withTickets(async (tickets) => {
+      const entry = await this.read(tickets, ticketKey);
+      if (!entry) {
+        throw new Error(`Ticket ${ticketKey} is not in the queue`);
+      }
+
+      await tickets.put(ticketKey, {
+        ...entry,
+        status: 'pending',
+        attempts: Math.max(0, entry.attempts - 1),
+        updatedAt: new Date().toISOString(),
+        startedAt: undefined,
+        lastError: reason,
+      });
+    });
+  }
+
+  /**
+   * Return tickets left in progress by a process that died back to pending.
+   * Called once on daemon start, before any work is claimed.
+   */
+  async recoverInterrupted(projectKey?: string): Promise<QueueEntry[]> {
+    return this.withTickets(async (tickets) => {
+      const interrupted = (await this.readAll(tickets))
+        .filter(e => e.status === 'in_progress')
+        .filter(e => !projectKey || e.projectKey === projectKey);
+
+      const now = new Date().toISOString();
+      for (const entry of interrupted) {
+        await tickets.put(entry.ticketKey, {
+          ...entry,
+          status: 'pending',
+          updatedAt: now,
+          lastError: 'Interrupted before completion',
+        });
+      }
+
+      return interrupted;
+    });
+  }
+
+  /**
+   * Put a finished ticket back to pending so the daemon works it again.
+   */
+  async retry(ticketKey: string): Promise<QueueEntry> {
+    return this.withTickets(async (tickets) => {
+      const entry = await this.read(tickets, ticketKey);
+      if (!entry) {
+        throw new Error(`Ticket ${ticketKey} is not in the queue`);
+      }
+      if (entry.status === 'in_progress') {
+        throw new Error(`Ticket ${ticketKey} is currently in progress`);
+      }
+
+      const retried: QueueEntry = {
+        ...entry,
+        status: 'pending',
+        updatedAt: new Date().toISOString(),
+        finishedAt: undefined,
+        lastError: undefined,
+        skippedUpdated: undefined,
+        retryStep: undefined,
+        transientFailures: undefined,
+        retryAt: undefined,
+      };
+      await tickets.put(ticketKey, retried);
+      return retried;
+    });
+  }
+
+  /**
+   * Forget a ticket entirely. If it still matches the poll criteria the
+   * daemon will queue it again as a new ticket; use `skip` to keep it out.
+   */
+  async remove(ticketKey: string): Promise<boolean> {
+    return this.withTickets(async (tickets) => {
+      const entry = await this.read(tickets, ticketKey);
+      if (!entry) {
+        return false;
+      }
+      if (entry.status === 'in_progress') {
+        throw new Error(`Ticket ${ticketKey} is currently in progress`);
+      }
+
+      await tickets.del(ticketKey);
+      return true;
+    });
+  }
+
+  async pause(): Promise<void> {
+    await withDatabase(this.dataDir, db =>
+      collection(db, 'meta').put('paused', { pausedAt: new Date().toISOString() })
+    );
+  }
+
+  async resume(): Promise<void> {
+    await withDatabase(this.dataDir, db => collection(db, 'meta').del('paused'));
+  }
+
+  /**
+   * When paused, the daemon keeps queueing tickets but does not start any.
+   */
+  async isPaused(): Promise<boolean> {
+    return withDatabase(this.dataDir, async (db) => {
+      try {
+        await collection(db, 'meta').get('paused');
+        return true;
+      } catch (error) {
+        if (isNotFoundError(error)) {
+          return false;
+        }
+        throw error;
+      }
+    });
+  }
+
+  async get(ticketKey: string): Promise<QueueEntry | null> {
+    return this.withTickets(tickets => this.read(tickets, ticketKey));
+  }
+
+  async list(projectKey?: string): Promise<QueueEntry[]> {
+    return this.withTickets(async (tickets) => {
+      return (await this.readAll(tickets))
+        .filter(e => !projectKey || e.projectKey === projectKey)
+        .sort(compareEntries);
+    });
+  }
+
+  private async finish(ticketKey: string, status: QueueStatus, error?: string, skippedUpdated?: string): Promise<void> {
+    await this.withTickets(async (tickets) => {
+      const entry = await this.read(tickets, ticketKey);
+      if (!entry) {
+        throw new Error(`Ticket ${ticketKey} is not in the queue`);
+      }
+
+      const now = new Date().toISOString();
+      await tickets.put(ticketKey, {
+        ...entry,
+        status,
+        updatedAt: now,
+        finishedAt: now,
+        lastError: error,
+        skippedUpdated,
+      });
+    });
+  }
+
+  private withTickets<T>(fn: (tickets: Collection) => Promise<T>): Promise<T> {
+    return withDatabase(this.dataDir, db => fn(collection(db, 'queue')));
+  }
+
+  private async read(tickets: Collection, ticketKey: string): Promise<QueueEntry | null> {
+    try {
+      return await tickets.get(ticketKey) as QueueEntry;
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async readAll(tickets: Collection): Promise<QueueEntry[]> {
+    const entries: QueueEntry[] = [];
+    for await (const value of tickets.values()) {
+      entries.push(value as QueueEntry);
+    }
+    return entries;
+  }
+}
+
+function changedSinceSkip(entry: QueueEntry, ticket: JiraTicket): boolean {
+  if (entry.status !== 'skipped' || !entry.skippedUpdated || !ticket.updated) {
+    return false;
+  }
+  return Date.parse(ticket.updated) > Date.parse(entry.skippedUpdated);
+}
+
+function compareEntries(a: QueueEntry, b: QueueEntry): number {
+  const byPriority = priorityRank(a.priority) - priorityRank(b.priority);
+  if (byPriority !== 0) {
+    return byPriority;
+  }
+  return a.enqueuedAt.localeCompare(b.enqueuedAt);
+}
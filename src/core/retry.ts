@@ -0,0 +1,148 @@
+import { JiraClient } from '../clients/jira';
+import { ClaudeConfig, GlobalConfig, ProjectConfig } from './config';
+import { FailureKind } from './failures';
+import { QueueEntry } from './queue';
+import { Logger } from '../utils/logger';
+
+export interface RetryStep {
+  model: ClaudeConfig['model'];
+  maxTurns?: number;  // defaults to claude.maxTurns
+}
+
+export interface RetryConfig {
+  // Model and turn limit per attempt; a Claude failure moves to the next step
+  ladder?: RetryStep[];
+  // Extra attempts on the same step for transient failures (default: 3)
+  transientRetries?: number;
+  // Wait before the first retry, doubled each time up to maxBackoffSeconds (defaults: 300, 3600)
+  backoffSeconds?: number;
+  maxBackoffSeconds?: number;
+  // Label added to the ticket once the bot gives up (default: needs-human)
+  giveUpLabel?: string;
+}
+
+export type RetryDecision =
+  | { action: 'retry'; step: number; transientFailures: number; retryAt: string }
+  | { action: 'give_up' }
+  | { action: 'fail' };
+
+const DEFAULT_TRANSIENT_RETRIES = 3;
+const DEFAULT_BACKOFF_SECONDS = 300;
+const DEFAULT_MAX_BACKOFF_SECONDS = 3600;
+const DEFAULT_GIVE_UP_LABEL = 'needs-human';
+
+/**
+ * Decides what the daemon does with a failed ticket when `claude.retry` is
+ * set: retry later on the same step, escalate to the next model on the
+ * ladder, or give up and hand the ticket to a human.
+ */
+export class RetryPolicy {
+  private config: RetryConfig | undefined;
+  private claudeConfig: ClaudeConfig;
+  private jira: JiraClient;
+  private logger: Logger;
+
+  constructor(globalConfig: GlobalConfig, projectConfig: ProjectConfig, logger: Logger) {
+    this.config = projectConfig.claude.retry;
+    this.claudeConfig = projectConfig.claude;
+    this.logger = logger;
+    this.jira = new JiraClient(globalConfig.jira);
+  }
+
+  isEnabled(): boolean {
+    return this.config !== undefined;
+  }
+
+  hasLadder(): boolean {
+    return Boolean(this.config?.ladder && this.config.ladder.length > 0);
+  }
+
+  /**
+   * Model and turn limit for a step of the ladder. Without a ladder every
+   * attempt uses `claude.model` and `claude.maxTurns`. A step without
+   * `maxTurns` keeps the ticket's own turn limit.
+   */
+  stepFor(step: number): RetryStep {
+    const ladder = this.ladder();
+    const current = ladder[Math.min(step, ladder.length - 1)];
+    return { model: current.model, maxTurns: current.maxTurns };
+  }
+
+  decide(entry: QueueEntry, kind: FailureKind, now: Date = new Date()): RetryDecision {
+    if (!this.config) {
+      return { action: 'fail' };
+    }
+
+    const step = entry.retryStep || 0;
+    const transientFailures = entry.transientFailures || 0;
+    const retryAt = new Date(now.getTime() + this.backoffMs(entry.attempts)).toISOString();
+
+    switch (kind) {
+      case 'transient':
+        if (transientFailures < (this.config.transientRetries ?? DEFAULT_TRANSIENT_RETRIES)) {
+          return { action: 'retry', step, transientFailures: transientFailures + 1, retryAt };
+        }
+        return { action: 'give_up' };
+
+      case 'claude':
+      case 'no_changes':
+        if (step + 1 < this.ladder().length) {
+          return { action: 'retry', step: step + 1, transientFailures: 0, retryAt };
+        }
+        return { action: 'give_up' };
+
+      case 'fatal':
+        return { action: 'give_up' };
+    }
+  }
+
+  /**
+   * Label the ticket and say why on it, so a human picks it up.
+   */
+  async giveUp(ticketKey: string, attempts: number, error: string): Promise<void> {
+    const label = this.config?.giveUpLabel || DEFAULT_GIVE_UP_LABEL;
+    try {
+      await this.jira.addLabels(ticketKey, [label]);
+      await this.jira.addComment(
+        ticketKey,
+        `JIRA Claude Bot gave up on this ticket after ${attempts} attempt(s). Last error: ${error}\n\n` +
+        `It is labelled "${label}" and needs a human.`
+      );
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      this.logger.warn(`Failed to hand ${ticketKey} over to a human: ${message}`);
+    }
+  }
+
+  private ladder(): RetryStep[] {
+    const ladder = this.config?.ladder;
+    return ladder && ladder.length > 0
+      ? ladder
+      : [{ model: this.claudeConfig.model, maxTurns: this.claudeConfig.maxTurns }];
+  }
+
+  private backoffMs(attempts: number): number {
+    const initial = this.config?.backoffSeconds ?? DEFAULT_BACKOFF_SECONDS;
+    const max = this.config?.maxBackoffSeconds ?? DEFAULT_MAX_BACKOFF_SECONDS;
+    return Math.min(initial * Math.pow(2, Math.max(0, attempts - 1)), max) * 1000;
+  }
+}
+
+export function validateRetryConfig(config: RetryConfig, prefix: string = 'claude.retry'): string[] {
+  const errors: string[] = [];
+  (config.ladder || []).forEach((step, i) => {
+    if (!step || !['sonnet', 'opus', 'haiku'].includes(step.model)) {
+      errors.push(`${prefix}.ladder[${i}].model must be one of sonnet, opus, haiku`);
+    }
+    if (step?.maxTurns !== undefined && !(step.maxTurns >= 1)) {
+      errors.push(`${prefix}.ladder[${i}].maxTurns must be at least 1`);
+    }
+  });
+  for (const key of ['transientRetries', 'backoffSeconds', 'maxBackoffSeconds'] as const) {
+    const value = config[key];
+    if (value !== undefined && !(typeof value === 'number' && value >= 0)) {
+      errors.push(`${prefix}.${key} must be a number of at least 0`);
+    }
+  }
+  return errors;
+}
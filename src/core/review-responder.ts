@@ -0,0 +1,342 @@
+import { JiraClient } from '../clients/jira';
+import { GitHostClient, ReviewComment, createGitHost } from '../clients/git-host';
+import { formatCommitMessage } from '../clients/git';
+import { ClaudeClient } from '../clients/claude';
+import { ClaudeMetrics } from '../clients/claude-stream';
+import { ProjectConfig, GlobalConfig } from './config';
+import { PullRequestTracker, TrackedPullRequest } from './pr-tracker';
+import { Budget } from './budget';
+import { RunHistory, RunTrigger } from './history';
+import { RunLog, knownSecrets } from './run-log';
+import { WorkingTreeGuard } from './working-tree';
+import { Logger } from '../utils/logger';
+
+// Marks the bot's own PR replies so they are never treated as review feedback
+export const REVIEW_REPLY_MARKER = '<!-- jira-claude-bot:review-reply -->';
+
+export interface ReviewResult {
+  success: boolean;
+  prNumber: number;
+  addressed: number;      // review comments handed to Claude
+  pushed: boolean;        // new commits were pushed to the PR branch
+  error?: string;
+}
+
+export interface AddressReviewOptions {
+  // Include comments that were already addressed
+  all?: boolean;
+}
+
+// A Claude run on the PR, recorded in the run history
+interface ReviewRun {
+  ticketKey: string;
+  branchName: string;
+  prUrl: string;
+  log: RunLog | null;  // only when the ticket is known
+  metrics?: ClaudeMetrics;
+}
+
+export interface ReviewResponderOptions {
+  // workingDir is a disposable worktree: detach when done instead of restoring a branch
+  isolated?: boolean;
+  trigger?: RunTrigger;
+}
+
+/**
+ * Re-runs Claude on an open PR's branch to address new review comments,
+ * pushes the result and replies on the PR. The branch keeps its history:
+ * nothing is reset or recreated.
+ */
+export class ReviewResponder {
+  private jira: JiraClient;
+  private git: GitHostClient;
+  private claude: ClaudeClient;
+  private tracker: PullRequestTracker;
+  private globalConfig: GlobalConfig;
+  private budget: Budget;
+  private history: RunHistory;
+  private projectConfig: ProjectConfig;
+  private logger: Logger;
+  private workingDir: string;
+  private options: ReviewResponderOptions;
+  private tree: WorkingTreeGuard;
+
+  constructor(
+    globalConfig: GlobalConfig,
+    projectConfig: ProjectConfig,
+    workingDir: string,
+    logger: Logger,
+    options: ReviewResponderOptions = {}
+  ) {
+    this.globalConfig = globalConfig;
+    this.projectConfig = projectConfig;
+    this.workingDir = workingDir;
+    this.logger = logger;
+    this.options = options;
+
+    this.jira = new JiraClient(globalConfig.jira);
+    this.git = createGitHost(globalConfig, projectConfig, workingDir);
+    this.claude = new ClaudeClient(projectConfig.claude, projectConfig.workflow.commitPattern);
+    this.tracker = new PullRequestTracker(globalConfig.bot.dataDir);
+    this.budget = new Budget(projectConfig.claude.budget, globalConfig.bot.dataDir, projectConfig.project.jiraKey);
+    this.history = new RunHistory(globalConfig.bot.dataDir);
+    this.tree = new WorkingTreeGuard(this.git, projectConfig, workingDir, logger);
+  }
+
+  /**
+   * Tracked PRs of this project with review comments that have not been
+   * addressed yet.
+   */
+  async findPending(): Promise<TrackedPullRequest[]> {
+    const pending: TrackedPullRequest[] = [];
+
+    for (const pr of await this.tracker.list(this.projectConfig.project.jiraKey)) {
+      try {
+        const comments = this.newComments(await this.git.getReviewComments(pr.number), pr.reviewsAddressedAt);
+        if (comments.length > 0) {
+          pending.push(pr);
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.warn(`Failed to read review comments on PR #${pr.number}: ${message}`);
+      }
+    }
+
+    return pending;
+  }
+
+  async address(prNumber: number, options: AddressReviewOptions = {}): Promise<ReviewResult> {
+    const result: ReviewResult = { success: false, prNumber, addressed: 0, pushed: false };
+    const startedAt = new Date();
+    let originalBranch: string | null = null;
+    // Set once there is feedback to act on, so a failure can still be reported
+    let pending: { tracked: TrackedPullRequest | null; comments: ReviewComment[] } | null = null;
+    // Set once Claude is about to run, so the run is recorded against the budget
+    let run: ReviewRun | null = null;
+
+    try {
+      const pr = await this.git.getPullRequest(prNumber);
+      if (pr.state.toUpperCase() !== 'OPEN') {
+        throw new Error(`PR #${prNumber} is ${pr.state.toLowerCase()}`);
+      }
+      if (!pr.branchName) {
+        throw new Error(`Could not determine the branch of PR #${prNumber}`);
+      }
+      const branchName = pr.branchName;
+
+      const tracked = await this.tracker.findByNumber(this.projectConfig.project.jiraKey, prNumber);
+      const comments = this.newComments(
+        await this.git.getReviewComments(prNumber),
+        options.all ? undefined : tracked?.reviewsAddressedAt
+      );
+      if (comments.length === 0) {
+        this.logger.info(`No new review comments on PR #${prNumber}`);
+        return { ...result, success: true };
+      }
+      // Checked before the comments count as taken on, so they are tried again once it's fixed
+      if (!this.options.isolated) {
+        const problem = await this.tree.prepare(`review of PR #${prNumber}`);
+        if (problem) {
+          this.logger.error(`Not addressing PR #${prNumber}: ${problem}`);
+          return { ...result, error: problem };
+        }
+      }
+      this.logger.info(`Addressing ${comments.length} review comment(s) on PR #${prNumber}`);
+      pending = { tracked, comments };
+
+      const ticketKey = tracked?.ticketKey || this.findTicketKey(`${branchName} ${pr.title}`);
+      let ticketSummary: string | undefined;
+      if (ticketKey) {
+        try {
+          ticketSummary = (await this.jira.getTicket(ticketKey)).summary;
+        } catch {
+          // The review comments are enough to work from
+        }
+      }
+
+      // Work on the PR branch exactly as pushed
+      if (!this.options.isolated) {
+        originalBranch = await this.git.getCurrentBranch();
+      }
+      this.logger.info(`Checking out ${branchName}...`);
+      await this.git.checkoutRemoteBranch(branchName);
+
+      // Spend is counted against the ticket, or the PR when no ticket is known
+      const budgetKey = ticketKey || `PR #${prNumber}`;
+      const exceeded = this.budget.exceededCapFor(budgetKey);
+      if (exceeded) {
+        throw new Error(`Budget: ${exceeded}`);
+      }
+
+      this.logger.info(`Running Claude Code...`);
+      run = { ticketKey: budgetKey, branchName, prUrl: pr.url, log: ticketKey ? this.startRunLog(ticketKey, startedAt) : null };
+      run.log?.step('claude');
+      const claudeResult = await this.claude.addressReview({
+        prNumber,
+        prUrl: pr.url,
+        branchName,
+        ticketKey,
+        ticketSummary,
+        comments,
+      }, this.workingDir, {
+        transcript: run.log || undefined,
+        maxCostUsd: this.budget.remainingFor(budgetKey),
+        logger: this.logger,
+      });
+      run.metrics = claudeResult.metrics;
+      if (!claudeResult.success) {
+        throw new Error(`Claude Code failed: ${claudeResult.error}`);
+      }
+
+      // Changes only to never-stage paths can't be committed
+      if (await this.git.hasCommittableChanges()) {
+        await this.git.commitChanges(formatCommitMessage(this.projectConfig.workflow.commitPattern, {
+          ticketKey: ticketKey || `PR #${prNumber}`,
+          summary: 'Address review feedback',
+        }));
+      }
+
+      const remoteRef = `origin/${branchName}`;
+      const pushed = await this.git.hasNewCommits(remoteRef);
+      let reply: string;
+      if (pushed) {
+        const changesSummary = await this.git.getCommitSummary(remoteRef);
+        run.log?.diff(await this.git.getDiff(remoteRef));
+        run.log?.step('push');
+        this.logger.info(`Pushing ${branchName}...`);
+        await this.git.pushBranch(branchName, remoteRef);
+        reply = `Addressed the review feedback:\n${formatCommentLinks(comments)}\n\n${changesSummary}`;
+      } else {
+        this.logger.warn(`No changes made for the review comments`);
+        reply = `Looked at the review feedback but made no code changes:\n${formatCommentLinks(comments)}`;
+      }
+
+      await this.git.commentOnPullRequest(prNumber, `${REVIEW_REPLY_MARKER}\n${reply}`);
+      await this.markAddressed(tracked, comments);
+
+      this.logger.success(`Replied on ${pr.url}`);
+      await this.finishRun(run, startedAt);
+      return { ...result, success: true, addressed: comments.length, pushed };
+
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to address review on PR #${prNumber}: ${message}`);
+
+      // Say so on the PR and move on, rather than retrying the same comments every poll
+      if (pending) {
+        try {
+          await this.git.commentOnPullRequest(
+            prNumber,
+            `${REVIEW_REPLY_MARKER}\nCould not address the review feedback automatically: ${message}\n\n` +
+            'Leave another review comment to try again.'
+          );
+          await this.markAddressed(pending.tracked, pending.comments);
+        } catch {
+          // Ignore
+        }
+      }
+      await this.finishRun(run, startedAt, message);
+      return { ...result, error: message };
+
+    } finally {
+      try {
+        if (this.options.isolated) {
+          await this.git.detachHead();
+        } else if (originalBranch) {
+          await this.git.checkoutBranch(originalBranch);
+        }
+      } catch {
+        // Ignore
+      }
+      await this.tree.restore();
+    }
+  }
+
+  private startRunLog(ticketKey: string, startedAt: Date): RunLog | null {
+    try {
+      return RunLog.start(this.globalConfig.bot.dataDir, ticketKey, this.projectConfig.project.jiraKey, startedAt);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      this.logger.warn(`Failed to create run log: ${message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Close the run log, attach its transcript to the ticket when the run
+   * failed and `workflow.attachTranscriptOnFailure` is set, and record the
+   * run in the history.
+   */
+  private async finishRun(run: ReviewRun | null, startedAt: Date, error?: string): Promise<void> {
+    if (!run) {
+      return;
+    }
+
+    if (run.log) {
+      run.log.finish(!error, error, run.metrics);
+      if (error && this.projectConfig.workflow.attachTranscriptOnFailure) {
+        try {
+          const excerpt = run.log.writeExcerpt(knownSecrets(this.globalConfig));
+          if (excerpt) {
+            await this.jira.uploadAttachment(run.ticketKey, excerpt);
+          }
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err);
+          this.logger.warn(`Failed to attach the transcript: ${message}`);
+        }
+      }
+    }
+
+    const finishedAt = new Date();
+    try {
+      this.history.append({
+        ticketKey: run.ticketKey,
+        projectKey: this.projectConfig.project.jiraKey,
+        trigger: this.options.trigger || 'work',
+        task: 'review',
+        success: !error,
+        startedAt: startedAt.toISOString(),
+        finishedAt: finishedAt.toISOString(),
+        durationMs: finishedAt.getTime() - startedAt.getTime(),
+        model: this.projectConfig.claude.model,
+        inputTokens: run.metrics?.inputTokens,
+        outputTokens: run.metrics?.outputTokens,
+        costUsd: run.metrics?.costUsd,
+        branchName: run.branchName,
+        prUrl: run.prUrl,
+        error,
+        runId: run.log?.id,
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      this.logger.warn(`Failed to record run history: ${message}`);
+    }
+  }
+
+  private async markAddressed(tracked: TrackedPullRequest | null, comments: ReviewComment[]): Promise<void> {
+    if (tracked) {
+      await this.tracker.update(tracked.ticketKey, {
+        reviewsAddressedAt: comments[comments.length - 1].createdAt,
+      });
+    }
+  }
+
+  private newComments(comments: ReviewComment[], since?: string): ReviewComment[] {
+    return comments
+      .filter(c => !c.body.includes(REVIEW_REPLY_MARKER))
+      .filter(c => !since || c.createdAt > since);
+  }
+
+  private findTicketKey(text: string): string | undefined {
+    const key = this.projectConfig.project.jiraKey;
+    const match = text.match(new RegExp(`\\b${key}-\\d+\\b`, 'i'));
+    return match ? match[0].toUpperCase() : undefined;
+  }
+}
+
+function formatCommentLinks(comments: ReviewComment[]): string {
+  return comments.map(c => {
+    const where = c.kind === 'inline' && c.path ? ` on \`${c.path}${c.line ? `:${c.line}` : ''}\`` : '';
+    return `- [${c.author}](${c.url})${where}`;
+  }).join('\n');
+}
@@ -0,0 +1,216 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { TranscriptSink } from '../clients/claude';
+import { ClaudeMetrics, parseStreamLine, renderEvent } from '../clients/claude-stream';
+import { GlobalConfig } from './config';
+
+export interface RunStep {
+  name: string;
+  startedAt: string;
+  durationMs?: number;   // unset while the step is running
+}
+
+export interface RunLogRecord {
+  id: string;            // directory name under runs/<ticket>/
+  ticketKey: string;
+  projectKey: string;
+  startedAt: string;
+  finishedAt?: string;   // unset while the run is in progress
+  success?: boolean;
+  error?: string;
+  steps: RunStep[];
+  metrics?: ClaudeMetrics;
+}
+
+export const PROMPT_FILE = 'prompt.md';
+export const TRANSCRIPT_FILE = 'transcript.jsonl';
+export const DIFF_FILE = 'diff.patch';
+export const RECORD_FILE = 'run.json';
+const EXCERPT_FILE = 'transcript-excerpt.txt';
+
+// Tokens that commonly end up in tool output (env dumps, git remotes, curl commands)
+const SECRET_PATTERNS: Array<[RegExp, string]> = [
+  [/\b(?:ghp|gho|ghs|ghu|github_pat)_[A-Za-z0-9_]{20,}\b/g, '[REDACTED]'],
+  [/\bsk-[A-Za-z0-9_-]{20,}\b/g, '[REDACTED]'],
+  [/\bxox[abprs]-[A-Za-z0-9-]{10,}\b/g, '[REDACTED]'],
+  [/\bAKIA[0-9A-Z]{16}\b/g, '[REDACTED]'],
+  [/\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]{16,}/g, '$1 [REDACTED]'],
+  [/(:\/\/[^/\s:@]+:)[^@\s/]+@/g, '$1[REDACTED]@'],
+];
+
+/**
+ * Secrets known to the bot, masked in transcript excerpts on top of
+ * anything that looks like a token.
+ */
+export function knownSecrets(globalConfig: GlobalConfig): string[] {
+  return [
+    globalConfig.jira.apiToken,
+    globalConfig.bitbucket?.appPassword,
+    process.env.BITBUCKET_APP_PASSWORD,
+    globalConfig.gitlab?.token,
+    process.env.GITLAB_TOKEN,
+    globalConfig.notifications?.webhook?.secret,
+    process.env.GITHUB_TOKEN,
+    process.env.GH_TOKEN,
+    process.env.ANTHROPIC_API_KEY,
+  ].filter((secret): secret is string => Boolean(secret));
+}
+
+/**
+ * Everything recorded about one ticket run, in
+ * `bot.dataDir/runs/<ticket>/<timestamp>/`: the rendered prompt, Claude's raw
+ * stream-json transcript, the branch diff and the timing of each step.
+ */
+export class RunLog implements TranscriptSink {
+  readonly dir: string;
+  private record: RunLogRecord;
+
+  private constructor(dir: string, record: RunLogRecord) {
+    this.dir = dir;
+    this.record = record;
+  }
+
+  static start(dataDir: string, ticketKey: string, projectKey: string, startedAt: Date = new Date()): RunLog {
+    const id = startedAt.toISOString().replace(/[:.]/g, '-');
+    const dir = path.join(runsDir(dataDir, ticketKey), id);
+    fs.mkdirSync(dir, { recursive: true });
+
+    const log = new RunLog(dir, { id, ticketKey: ticketKey.toUpperCase(), projectKey, startedAt: startedAt.toISOString(), steps: [] });
+    log.save();
+    return log;
+  }
+
+  get id(): string {
+    return this.record.id;
+  }
+
+  /**
+   * Start timing a step, ending the previous one.
+   */
+  step(name: string): void {
+    this.endStep();
+    this.record.steps.push({ name, startedAt: new Date().toISOString() });
+    this.save();
+  }
+
+  /**
+   * Record a prompt. Later prompts of the same run, such as verification
+   * fix-ups, are appended after a separator.
+   */
+  prompt(prompt: string): void {
+    const file = path.join(this.dir, PROMPT_FILE);
+    if (fs.existsSync(file)) {
+      fs.appendFileSync(file, `\n\n---\n\n${prompt}`);
+    } else {
+      fs.writeFileSync(file, prompt);
+    }
+  }
+
+  line(line: string): void {
+    fs.appendFileSync(path.join(this.dir, TRANSCRIPT_FILE), line + '\n');
+  }
+
+  diff(diff: string): void {
+    fs.writeFileSync(path.join(this.dir, DIFF_FILE), diff);
+  }
+
+  finish(success: boolean, error?: string, metrics?: ClaudeMetrics): void {
+    this.endStep();
+    this.record = { ...this.record, finishedAt: new Date().toISOString(), success, error, metrics };
+    this.save();
+  }
+
+  /**
+   * Write the tail of the transcript, rendered and with secrets masked, for
+   * sharing outside the machine. Returns its path, or null without a transcript.
+   */
+  writeExcerpt(secrets: string[], maxLines: number = 80): string | null {
+    const rendered = readTranscript(this.dir);
+    if (rendered === null) {
+      return null;
+    }
+
+    const lines = rendered.split('\n');
+    const excerpt = redact(lines.slice(-maxLines).join('\n'), secrets);
+    const header = lines.length > maxLines ? `… ${lines.length - maxLines} earlier lines omitted\n\n` : '';
+    const excerptPath = path.join(this.dir, EXCERPT_FILE);
+    fs.writeFileSync(excerptPath, header + excerpt + '\n');
+    return excerptPath;
+  }
+
+  private endStep(): void {
+    const current = this.record.steps[this.record.steps.length - 1];
+    if (current && current.durationMs === undefined) {
+      current.durationMs = Date.now() - new Date(current.startedAt).getTime();
+    }
+  }
+
+  private save(): void {
+    fs.writeFileSync(path.join(this.dir, RECORD_FILE), JSON.stringify(this.record, null, 2));
+  }
+}
+
+/**
+ * Recorded runs of a ticket, oldest first.
+ */
+export function listRuns(dataDir: string, ticketKey: string): RunLogRecord[] {
+  const dir = runsDir(dataDir, ticketKey);
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  const records: RunLogRecord[] = [];
+  for (const id of fs.readdirSync(dir).sort()) {
+    try {
+      records.push(JSON.parse(fs.readFileSync(path.join(dir, id, RECORD_FILE), 'utf8')));
+    } catch {
+      // Not a run directory, or a record cut short by a crash
+    }
+  }
+  return records;
+}
+
+export function runDir(dataDir: string, ticketKey: string, id: string): string {
+  return path.join(runsDir(dataDir, ticketKey), id);
+}
+
+/**
+ * The human-readable transcript of a run, or null if Claude never started.
+ */
+export function readTranscript(dir: string): string | null {
+  const file = path.join(dir, TRANSCRIPT_FILE);
+  if (!fs.existsSync(file)) {
+    return null;
+  }
+  return renderTranscript(fs.readFileSync(file, 'utf8'));
+}
+
+export function renderTranscript(raw: string): string {
+  return raw
+    .split('\n')
+    .flatMap(line => parseStreamLine(line))
+    .map(event => renderEvent(event))
+    .filter((text): text is string => text !== null)
+    .join('\n');
+}
+
+/**
+ * Mask known secret values and anything that looks like a token.
+ */
+export function redact(text: string, secrets: string[] = []): string {
+  let result = text;
+  for (const secret of secrets) {
+    // Short values would mask ordinary words
+    if (secret && secret.length >= 8) {
+      result = result.split(secret).join('[REDACTED]');
+    }
+  }
+  for (const [pattern, replacement] of SECRET_PATTERNS) {
+    result = result.replace(pattern, replacement);
+  }
+  return result;
+}
+
+function runsDir(dataDir: string, ticketKey: string): string {
+  return path.join(dataDir, 'runs', ticketKey.toUpperCase());
+}
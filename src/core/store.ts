@@ -0,0 +1,75 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Level } from 'level';
+
+export type Database = Level<string, any>;
+
+const LOCK_RETRY_ATTEMPTS = 50;
+const LOCK_RETRY_DELAY_MS = 100;
+
+// Operations from the same process are chained per location, so concurrent
+// callers never race each other for the LevelDB lock.
+const pending = new Map<string, Promise<unknown>>();
+
+/**
+ * Open the bot's LevelDB store, run `fn` against it and close it again.
+ *
+ * LevelDB only allows one process to hold a database at a time. The daemon
+ * and the CLI commands therefore open it per operation instead of keeping it
+ * open, and retry briefly if another process currently holds the lock.
+ */
+export function withDatabase<T>(dataDir: string, fn: (db: Database) => Promise<T>): Promise<T> {
+  const location = path.join(dataDir, 'state');
+  const previous = pending.get(location) || Promise.resolve();
+
+  const run = previous
+    .catch(() => undefined)
+    .then(async () => {
+      const db = await openDatabase(location);
+      try {
+        return await fn(db);
+      } finally {
+        await db.close();
+      }
+    });
+
+  pending.set(location, run);
+  run.finally(() => {
+    if (pending.get(location) === run) {
+      pending.delete(location);
+    }
+  }).catch(() => undefined);
+
+  return run;
+}
+
+/**
+ * A named, JSON-encoded section of the store (e.g. the ticket queue).
+ */
+export function collection(db: Database, name: string) {
+  return db.sublevel<string, any>(name, { valueEncoding: 'json' });
+}
+
+export type Collection = ReturnType<typeof collection>;
+
+export function isNotFoundError(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === 'LEVEL_NOT_FOUND';
+}
+
+async function openDatabase(location: string): Promise<Database> {
+  fs.mkdirSync(location, { recursive: true });
+
+  for (let attempt = 1; ; attempt++) {
+    const db: Database = new Level<string, any>(location, { valueEncoding: 'json' });
+    try {
+      await db.open();
+      return db;
+    } catch (error) {
+      const cause = (error as { cause?: { code?: string } }).cause;
+      if (cause?.code !== 'LEVEL_LOCKED' || attempt >= LOCK_RETRY_ATTEMPTS) {
+        throw error;
+      }
+      await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_DELAY_MS));
+    }
+  }
+}
@@ -0,0 +1,138 @@
+import { spawn } from 'child_process';
+
+export interface VerifyCommand {
+  name?: string;           // shown in logs and comments; defaults to the command
+  run: string;             // shell command, run from the repository root
+  timeoutSeconds?: number; // defaults to verify.timeoutSeconds
+}
+
+export interface VerifyConfig {
+  commands: VerifyCommand[];
+  // Times Claude is asked to fix failing commands before giving up (default: 2)
+  fixRounds?: number;
+  timeoutSeconds?: number;  // per command (default: 600)
+}
+
+export interface VerifyResult {
+  name: string;
+  command: string;
+  success: boolean;
+  timedOut: boolean;
+  exitCode: number | null;
+  output: string;  // stdout and stderr, interleaved
+  durationMs: number;
+}
+
+export const DEFAULT_FIX_ROUNDS = 2;
+const DEFAULT_TIMEOUT_SECONDS = 600;
+// Output kept per command; failures are usually at the end
+const MAX_OUTPUT_CHARS = 200_000;
+
+/**
+ * Run every verification command in order, even after one fails, so Claude
+ * sees all the failures at once.
+ */
+export async function runVerification(config: VerifyConfig, cwd: string): Promise<VerifyResult[]> {
+  const results: VerifyResult[] = [];
+  for (const command of config.commands) {
+    results.push(await runCommand(command, cwd, command.timeoutSeconds ?? config.timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS));
+  }
+  return results;
+}
+
+/**
+ * The last lines of each failed command's output, for prompts and comments.
+ */
+export function formatFailures(results: VerifyResult[], maxLines: number = 60): string {
+  return results
+    .filter(r => !r.success)
+    .map(r => {
+      const status = r.timedOut ? 'timed out' : `exited with code ${r.exitCode}`;
+      const lines = r.output.trimEnd().split('\n');
+      const tail = lines.length > maxLines
+        ? [`... (${lines.length - maxLines} earlier lines omitted)`, ...lines.slice(-maxLines)]
+        : lines;
+      return `$ ${r.command} (${r.name}, ${status})\n${tail.join('\n')}`;
+    })
+    .join('\n\n');
+}
+
+export function validateVerifyConfig(config: VerifyConfig, prefix: string = 'verify'): string[] {
+  const errors: string[] = [];
+  if (!Array.isArray(config.commands) || config.commands.length === 0) {
+    errors.push(`${prefix}.commands must list at least one command`);
+  }
+  (config.commands || []).forEach((command, i) => {
+    if (!command || typeof command.run !== 'string' || !command.run.trim()) {
+      errors.push(`${prefix}.commands[${i}].run is required`);
+    }
+    if (command?.timeoutSeconds !== undefined && !(command.timeoutSeconds > 0)) {
+      errors.push(`${prefix}.commands[${i}].timeoutSeconds must be a positive number`);
+    }
+  });
+  if (config.fixRounds !== undefined && !(config.fixRounds >= 0)) {
+    errors.push(`${prefix}.fixRounds must be a number of at least 0`);
+  }
+  if (config.timeoutSeconds !== undefined && !(config.timeoutSeconds > 0)) {
+    errors.push(`${prefix}.timeoutSeconds must be a positive number`);
+  }
+  return errors;
+}
+
+function runCommand(command: VerifyCommand, cwd: string, timeoutSeconds: number): Promise<VerifyResult> {
+  const startedAt = Date.now();
+  const name = command.name || command.run;
+
+  return new Promise((resolve) => {
+    // Its own process group, so a timeout also stops whatever the shell started
+    const child = spawn(command.run, {
+      cwd,
+      shell: true,
+      detached: true,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      env: { ...process.env, CI: process.env.CI || 'true' },
+    });
+
+    let output = '';
+    const append = (chunk: Buffer) => {
+      output += chunk.toString('utf8');
+      if (output.length > MAX_OUTPUT_CHARS) {
+        output = output.slice(-MAX_OUTPUT_CHARS);
+      }
+    };
+    child.stdout!.on('data', append);
+    child.stderr!.on('data', append);
+
+    let timedOut = false;
+    const timeout = setTimeout(() => {
+      timedOut = true;
+      killGroup(child.pid, 'SIGTERM');
+      setTimeout(() => killGroup(child.pid, 'SIGKILL'), 5000).unref();
+    }, timeoutSeconds * 1000);
+
+    const finish = (exitCode: number | null, error?: string) => {
+      clearTimeout(timeout);
+      resolve({
+        name,
+        command: command.run,
+        success: exitCode === 0 && !timedOut,
+        timedOut,
+        exitCode,
+        output: error ? `${output}${error}\n` : output,
+        durationMs: Date.now() - startedAt,
+      });
+    };
+
+    child.on('close', (code: number | null) => finish(code));
+    child.on('error', (err: Error) => finish(null, err.message));
+  });
+}
+
+function killGroup(pid: number | undefined, signal: NodeJS.Signals): void {
+  if (pid === undefined) return;
+  try {
+    process.kill(-pid, signal);
+  } catch {
+    // Already gone
+  }
+}
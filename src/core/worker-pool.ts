@@ -0,0 +1,46 @@
+/**
+ * Runs up to `size` tasks at once, keyed by ticket. Tasks are expected to
+ * handle their own errors; a rejection only frees the slot.
+ */
+export class WorkerPool {
+  private size: number;
+  private active: Map<string, Promise<void>> = new Map();
+
+  constructor(size: number) {
+    this.size = Math.max(1, size);
+  }
+
+  hasCapacity(): boolean {
+    return this.active.size < this.size;
+  }
+
+  getActiveKeys(): string[] {
+    return [...this.active.keys()];
+  }
+
+  /**
+   * Start a task. The returned promise settles once its slot is free again.
+   */
+  run(key: string, task: () => Promise<void>): Promise<void> {
+    if (this.active.has(key)) {
+      throw new Error(`${key} is already running`);
+    }
+
+    const running = task()
+      .catch(() => undefined)
+      .finally(() => {
+        this.active.delete(key);
+      });
+    this.active.set(key, running);
+    return running;
+  }
+
+  /**
+   * Wait until every running task has finished.
+   */
+  async drain(): Promise<void> {
+    while (this.active.size > 0) {
+      await Promise.all(this.active.values());
+    }
+  }
+}
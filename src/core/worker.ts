@@ -1,10 +1,34 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { JiraClient, JiraTicket } from '../clients/jira';
-import { GitHubClient, PullRequest } from '../clients/github';
+import { GitHostClient, PullRequest, PullRequestOptions, createGitHost } from '../clients/git-host';
+import { formatCommitMessage } from '../clients/git';
 import { ClaudeClient } from '../clients/claude';
+import { ClaudeMetrics, addMetrics } from '../clients/claude-stream';
 import { ProjectConfig, GlobalConfig } from './config';
+import { RunHistory, RunTrigger } from './history';
+import { PullRequestTracker } from './pr-tracker';
+import { PrWatcher } from './pr-watcher';
+import { REVIEW_REPLY_MARKER } from './review-responder';
+import { FollowUpTracker } from './follow-up-tracker';
+import { WorkingTreeGuard } from './working-tree';
+import { RunLog, knownSecrets } from './run-log';
+import { Budget } from './budget';
+import { FailureKind, NO_CHANGES_ERROR, classifyFailure } from './failures';
+import { RetryStep } from './retry';
+import { ResolvedClaudeSettings, describeClaudeSettings, resolveClaudeSettings } from './overrides';
+import {
+  DEFAULT_ASSESSMENT_MAX_TURNS,
+  DEFAULT_NEEDS_INFO_STATUS,
+  formatNeedsInfoComment,
+  needsInfo,
+  parseAssessment,
+} from './assessment';
+import { findMatchingRule, evaluateReviewRules, resolveSensitivePaths } from './guardrails';
+import { VerifyConfig, DEFAULT_FIX_ROUNDS, formatFailures, runVerification } from './verify';
+import { Notifier, NotificationEvent, NotificationEventType, createNotifier } from '../notifications';
 import { Logger } from '../utils/logger';
+import { readCodeowners, ownersFor } from '../utils/codeowners';
 import { ScreenshotService, ScreenshotResult } from '../utils/screenshot';
 import { extractUrlsFromTicket, filterScreenshotableUrls } from '../utils/url-extractor';
 
@@ -16,47 +40,176 @@ export interface WorkResult {
   previewUrl?: string;
   error?: string;
   changesSummary?: string;
+  skipped?: boolean;
+  // The checkout wasn't safe to touch, so the ticket was never started
+  held?: boolean;
+  // JIRA's updated time of a skipped ticket after the bot's own comment and
+  // transition, so the daemon can tell when a person changes it
+  ticketUpdated?: string;
+  reviewReasons?: string[];
+  // Guardrails held or discarded the work and the ticket says why, so it
+  // waits for a human instead of being retried or given up on
+  stoppedForReview?: boolean;
+  metrics?: ClaudeMetrics;  // from the Claude Code run, when it got that far
+  failureKind?: FailureKind;
+  // Output of the verify commands that still failed when the branch was pushed
+  verifyFailures?: string;
+}
+
+export interface WorkerOptions {
+  trigger?: RunTrigger;
+  // workingDir is a disposable worktree: branch from the remote base and never check the base out
+  isolated?: boolean;
+  // Shared by the daemon; built from the global config when omitted
+  notifier?: Notifier;
+  // Model and turn limit for this attempt, from claude.retry.ladder
+  step?: RetryStep;
+  // The step is past the first one, so it wins over claude.overrides
+  escalated?: boolean;
 }
 
 export class Worker {
   private jira: JiraClient;
-  private github: GitHubClient;
-  private claude: ClaudeClient;
+  private git: GitHostClient;
+  private notifier: Notifier;
   private projectConfig: ProjectConfig;
   private globalConfig: GlobalConfig;
   private logger: Logger;
   private workingDir: string;
+  private options: WorkerOptions;
+  // Transcript, prompt, diff and step timings of the ticket being processed
+  private runLog: RunLog | null = null;
+  private claudeMetrics?: ClaudeMetrics;
+  // Settings for the ticket being processed, after claude.overrides
+  private claudeSettings?: ResolvedClaudeSettings;
+  private tree: WorkingTreeGuard;
 
   constructor(
     globalConfig: GlobalConfig,
     projectConfig: ProjectConfig,
     workingDir: string,
-    logger: Logger
+    logger: Logger,
+    options: WorkerOptions = {}
   ) {
     this.globalConfig = globalConfig;
     this.projectConfig = projectConfig;
     this.workingDir = workingDir;
     this.logger = logger;
+    this.options = options;
 
     this.jira = new JiraClient(globalConfig.jira);
-    this.github = new GitHubClient(projectConfig.project.repo);
-    this.claude = new ClaudeClient(projectConfig.claude);
+    this.git = createGitHost(globalConfig, projectConfig, workingDir);
+    this.notifier = options.notifier || createNotifier(globalConfig, logger);
+    this.tree = new WorkingTreeGuard(this.git, projectConfig, workingDir, logger);
   }
 
   async processTicket(ticketKey: string): Promise<WorkResult> {
+    const startedAt = new Date();
+    this.runLog = this.startRunLog(ticketKey, startedAt);
+    this.claudeMetrics = undefined;
+    this.claudeSettings = undefined;
+
+    // 0. Make sure the working tree is safe to touch (worktrees are fresh checkouts)
+    const problem = this.options.isolated ? null : await this.prepareWorkingTree(ticketKey);
+    let result: WorkResult;
+    if (problem) {
+      this.logger.error(`Not starting ${ticketKey}: ${problem}`);
+      result = { success: false, ticketKey, error: problem, held: true };
+    } else {
+      result = await this.runTicket(ticketKey);
+      await this.tree.restore();
+    }
+    result.metrics = this.claudeMetrics;
+
+    this.runLog?.finish(result.success, result.error, result.metrics);
+    if (!result.success && !result.skipped && !result.held && this.projectConfig.workflow.attachTranscriptOnFailure) {
+      await this.attachTranscriptExcerpt(ticketKey);
+    }
+    this.recordRun(result, startedAt);
+    if (!this.options.notifier) {
+      // Nobody else will wait for our own notifier's deliveries
+      await this.notifier.flush();
+    }
+    return result;
+  }
+
+  private async runTicket(ticketKey: string): Promise<WorkResult> {
     this.logger.info(`Starting work on ${ticketKey}`);
+    // Kept outside the try so failures can still report ticket details
+    let fetchedTicket: JiraTicket | undefined;
 
     try {
       // 1. Fetch ticket details
+      this.runLog?.step('fetch_ticket');
       this.logger.info(`Fetching ticket details...`);
       const ticket = await this.jira.getTicket(ticketKey);
       const ticketUrl = this.jira.getTicketUrl(ticketKey);
+      fetchedTicket = ticket;
+
+      // 1.5. Enforce guardrail skip rules before touching git
+      const skipRule = findMatchingRule(ticket, this.projectConfig.guardrails?.skip || [], {
+        storyPointsField: this.projectConfig.tickets.storyPointsField,
+      });
+      if (skipRule) {
+        this.logger.warn(`Skipping ${ticketKey}: matches guardrail rule "${skipRule.source}"`);
+        await this.jira.addComment(
+          ticketKey,
+          `JIRA Claude Bot skipped this ticket because it matches the guardrail rule "${skipRule.source}".\n\n` +
+          'It needs a human, or the ticket must change so the rule no longer matches before the bot will pick it up.'
+        );
+        const result: WorkResult = {
+          success: false,
+          skipped: true,
+          ticketKey,
+          error: `Matched guardrail rule "${skipRule.source}"`,
+          ticketUpdated: await this.getTicketUpdated(ticketKey),
+        };
+        this.notify('guardrail_triggered', ticket, result, {
+          reasons: [skipRule.source],
+          message: 'Ticket skipped, it needs a human.',
+        });
+        return result;
+      }
+
+      // 1.6. Respect claude.budget before spending anything
+      const budget = new Budget(
+        this.projectConfig.claude.budget,
+        this.globalConfig.bot.dataDir,
+        this.projectConfig.project.jiraKey
+      );
+      const exceeded = budget.exceededCapFor(ticketKey);
+      if (exceeded) {
+        this.logger.warn(`Skipping ${ticketKey}: ${exceeded}`);
+        return { success: false, skipped: true, ticketKey, error: `Budget: ${exceeded}` };
+      }
+
+      // 1.7. Pick the Claude settings for this ticket
+      this.claudeSettings = resolveClaudeSettings(
+        this.projectConfig.claude,
+        ticket,
+        { storyPointsField: this.projectConfig.tickets.storyPointsField },
+        this.options.step,
+        this.options.escalated
+      );
+      this.logger.info(`Claude settings: ${describeClaudeSettings(this.claudeSettings)}`);
+      const claude = new ClaudeClient(this.claudeSettings.config, this.projectConfig.workflow.commitPattern);
+
+      this.notify('ticket_started', ticket);
 
       // 2. Download attachments
+      this.runLog?.step('prepare');
       if (ticket.attachments.length > 0) {
         await this.downloadAttachments(ticket);
       }
 
+      // 2.1. Check the ticket is clear enough before a full run
+      if (this.projectConfig.claude.assessment) {
+        const skipped = await this.assessTicket(ticket, ticketUrl, this.budgetLeft(budget, ticketKey));
+        if (skipped) {
+          return skipped;
+        }
+      }
+
       // 2.5. Capture "before" screenshots
       let beforeScreenshots: ScreenshotResult[] = [];
       const screenshotConfig = this.projectConfig.screenshots;
@@ -84,24 +237,23 @@ export class Worker {
         }
       }
 
-      // 3. Create feature branch
-      const branchName = this.formatPattern(
-        this.projectConfig.workflow.branchPattern,
-        ticket
-      );
-      this.logger.info(`Creating branch: ${branchName}`);
-      await this.github.createBranch(
-        branchName,
-        this.projectConfig.workflow.pr.baseBranch
-      );
+      // 3. Create feature branch (or resume an existing one)
+      this.runLog?.step('create_branch');
+      const branchName = await this.prepareBranch(ticket);
+      // A resumed branch already has commits; only those made from here on are this run's
+      const startSha = await this.git.getHeadSha();
 
       // 4. Run Claude Code to implement the ticket
+      this.runLog?.step('claude');
       this.logger.info(`Running Claude Code...`);
-      const claudeResult = await this.claude.workTicket(
+      const claudeResult = await claude.workTicket(
         ticket,
         ticketUrl,
-        this.workingDir
+        this.workingDir,
+        undefined,
+        { transcript: this.runLog || undefined, maxCostUsd: this.budgetLeft(budget, ticketKey), logger: this.logger }
       );
+      this.claudeMetrics = addMetrics(this.claudeMetrics, claudeResult.metrics);
 
       this.logger.info(`Claude Code finished. Success: ${claudeResult.success}`);
       if (claudeResult.error) {
@@ -113,37 +265,64 @@ export class Worker {
       }
 
       // 5. Check if there are changes (committed or uncommitted)
+      this.runLog?.step('commit');
       this.logger.info(`Checking for changes...`);
-      const status = await this.github.getStatus();
-      const hasUncommitted = status.staged.length > 0 || status.unstaged.length > 0 || status.untracked.length > 0;
-      const hasNewCommits = await this.github.hasNewCommits(this.projectConfig.workflow.pr.baseBranch);
+      const hasUncommitted = await this.git.hasCommittableChanges();
+      const hasNewCommits = await this.git.hasNewCommits(startSha);
 
       this.logger.info(`Git status - uncommitted: ${hasUncommitted}, new commits: ${hasNewCommits}`);
 
       if (!hasUncommitted && !hasNewCommits) {
         this.logger.warn(`No changes made by Claude Code`);
-        return {
+        const result: WorkResult = {
           success: false,
           ticketKey,
-          error: 'No changes were made',
+          branchName,
+          error: NO_CHANGES_ERROR,
+          failureKind: 'no_changes',
         };
+        this.notify('no_changes', ticket, result);
+        return result;
       }
 
       // If there are uncommitted changes, commit them
       if (hasUncommitted) {
         this.logger.info(`Committing uncommitted changes...`);
-        await this.github.commitChanges(`${ticketKey}: Implementation`);
+        await this.git.commitChanges(this.commitMessage(ticket, ticket.summary));
+      }
+
+      // 5.2. Run the verify commands, with fix-up rounds for Claude
+      const verifyFailures = this.projectConfig.verify
+        ? await this.verify(ticket, claude, this.projectConfig.verify, budget)
+        : null;
+      await this.recordDiff();
+
+      // 5.5. Check require-review guardrails against the branch diff
+      const reviewReasons = await this.checkReviewGuardrails();
+      if (reviewReasons.length > 0) {
+        this.logger.warn(`Guardrails require human review: ${reviewReasons.join('; ')}`);
+
+        const policy = this.projectConfig.guardrails?.onReviewRequired || 'draft';
+        if (policy !== 'draft') {
+          return await this.stopForReview(ticket, branchName, reviewReasons, policy);
+        }
       }
 
       // 6. Push branch
+      this.runLog?.step('push');
       this.logger.info(`Pushing branch...`);
-      await this.github.pushBranch(branchName);
+      await this.git.pushBranch(branchName, this.diffBase());
 
-      // 7. Create PR (unless skipPullRequest is set, e.g. for Bitbucket)
+      // 7. Create PR (unless skipPullRequest is set)
+      this.runLog?.step('pull_request');
       const skipPr = this.projectConfig.workflow.skipPullRequest === true;
-      const changesSummary = await this.github.getCommitSummary(this.projectConfig.workflow.pr.baseBranch);
+      const changesSummary = this.formatChangesSummary(
+        claudeResult.summary,
+        await this.git.getCommitSummary(this.diffBase())
+      );
 
       let pr: PullRequest | undefined;
+      let prUpdated = false;  // pushed to a PR that was already open
       let previewUrl: string | undefined;
 
       if (!skipPr) {
@@ -151,19 +330,60 @@ export class Worker {
           this.projectConfig.workflow.pr.titlePattern,
           ticket
         );
-        const prBody = this.formatPrBody(ticket, ticketUrl, changesSummary);
+        let prBody = this.formatPrBody(ticket, ticketUrl, changesSummary);
+        if (reviewReasons.length > 0) {
+          prBody = `> ⚠️ **Guardrails triggered, this PR needs careful human review:**\n` +
+            reviewReasons.map(r => `> - ${r}`).join('\n') + '\n\n' + prBody;
+        }
+        if (verifyFailures) {
+          prBody = `> ❌ **Verification commands still fail:**\n\n\`\`\`\n${verifyFailures}\n\`\`\`\n\n` + prBody;
+        }
 
-        this.logger.info(`Creating PR...`);
-        pr = await this.github.createPullRequest(
-          prTitle,
-          prBody,
-          this.projectConfig.workflow.pr.baseBranch
-        );
+        const needsAttention = reviewReasons.length > 0 || verifyFailures !== null;
+        const prOptions = await this.pullRequestOptions(ticket, needsAttention, reviewReasons.length > 0);
+        const existingPr = await this.git.findOpenPullRequest(branchName);
+        if (existingPr) {
+          // The push already updated it; leave the description to whoever may have edited it
+          this.logger.info(`Updating existing PR #${existingPr.number}...`);
+          await this.git.commentOnPullRequest(existingPr.number, [
+            REVIEW_REPLY_MARKER,
+            `🤖 Pushed new changes for ${ticketKey}.`,
+            ...(reviewReasons.length > 0 ? [`⚠️ Guardrails triggered: ${reviewReasons.join('; ')}`] : []),
+            ...(verifyFailures ? ['❌ Verification commands still fail.'] : []),
+            '',
+            await this.git.getCommitSummary(startSha),
+          ].join('\n'));
+          if (needsAttention) {
+            // Same as a new PR: one that needs human attention is a draft
+            try {
+              await this.git.markDraft(existingPr.number);
+            } catch (err) {
+              const message = err instanceof Error ? err.message : String(err);
+              this.logger.warn(`Failed to turn PR #${existingPr.number} into a draft: ${message}`);
+            }
+          }
+          pr = existingPr;
+          prUpdated = true;
+        } else {
+          this.logger.info(`Creating PR${prOptions.draft ? ' as draft' : ''}...`);
+          pr = await this.git.createPullRequest(
+            prTitle,
+            prBody,
+            this.projectConfig.workflow.pr.baseBranch,
+            prOptions
+          );
+        }
+
+        // Drafts that only need green checks are taken out of draft by the PR watcher
+        const readyWhenGreen = prOptions.draft === true && !needsAttention &&
+          this.projectConfig.workflow.pr.markReadyWhenGreen === true;
+        await this.trackPullRequest(ticketKey, pr, branchName, readyWhenGreen);
 
         // 8. Wait for deployment preview
         if (this.projectConfig.deployment.waitForPreview) {
+          this.runLog?.step('preview');
           this.logger.info(`Waiting for preview deployment...`);
-          const url = await this.github.getDeploymentUrl(
+          const url = await this.git.getDeploymentUrl(
             pr.number,
             Math.ceil(this.projectConfig.deployment.previewTimeout / 5)
           );
@@ -174,9 +394,16 @@ export class Worker {
         }
       } else {
         this.logger.info(`skipPullRequest enabled — branch ${branchName} pushed, no PR created`);
+        if (reviewReasons.length > 0) {
+          // No PR to label, so mark the ticket itself
+          await this.labelForReview(ticketKey);
+        }
       }
 
+      await this.trackFollowUps(ticket, branchName, pr);
+
       // 8.5. Capture "after" screenshots
+      this.runLog?.step('after_screenshots');
       let afterScreenshots: ScreenshotResult[] = [];
       if (screenshotConfig?.enabled && screenshotConfig.afterPreview && previewUrl) {
         try {
@@ -215,9 +442,10 @@ export class Worker {
       }
 
       // 9. Update JIRA
+      this.runLog?.step('update_jira');
       this.logger.info(`Updating JIRA ticket...`);
       const comment = this.formatJiraComment(
-        pr, branchName, previewUrl, changesSummary, beforeScreenshots, afterScreenshots
+        pr, branchName, previewUrl, changesSummary, beforeScreenshots, afterScreenshots, reviewReasons, verifyFailures
       );
       await this.jira.addComment(ticketKey, comment);
 
@@ -237,17 +465,33 @@ export class Worker {
       }
 
       // 11. Return to base branch
-      await this.github.checkoutBranch(this.projectConfig.workflow.pr.baseBranch);
+      await this.returnToBase();
 
       this.logger.info(`Successfully completed ${ticketKey}`);
-      return {
+      const result: WorkResult = {
         success: true,
         ticketKey,
         pr,
         branchName,
         previewUrl,
         changesSummary,
+        reviewReasons: reviewReasons.length > 0 ? reviewReasons : undefined,
+        verifyFailures: verifyFailures || undefined,
       };
+      if (pr) {
+        this.notify(prUpdated ? 'pr_updated' : 'pr_created', ticket, result);
+      }
+      if (reviewReasons.length > 0) {
+        this.notify('guardrail_triggered', ticket, result, {
+          reasons: reviewReasons,
+          message: prUpdated
+            ? 'The open pull request was turned into a draft for human review.'
+            : pr
+            ? 'Opened as a draft pull request for human review.'
+            : `Pushed for human review; the ticket is labelled ${this.reviewLabel()}.`,
+        });
+      }
+      return result;
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -255,16 +499,464 @@ export class Worker {
 
       // Try to return to base branch
       try {
-        await this.github.checkoutBranch(this.projectConfig.workflow.pr.baseBranch);
+        await this.returnToBase();
       } catch {
         // Ignore
       }
 
-      return {
+      const result: WorkResult = {
         success: false,
         ticketKey,
         error: errorMessage,
+        failureKind: classifyFailure(error),
       };
+      this.notify('ticket_failed', fetchedTicket, result);
+      return result;
+    }
+  }
+
+  /**
+   * Run the verify commands. When they fail, Claude gets the output and
+   * another try, up to verify.fixRounds times. Returns the failure log if
+   * they still fail, or null once they pass.
+   */
+  private async verify(
+    ticket: JiraTicket,
+    claude: ClaudeClient,
+    config: VerifyConfig,
+    budget: Budget
+  ): Promise<string | null> {
+    const rounds = config.fixRounds ?? DEFAULT_FIX_ROUNDS;
+
+    for (let round = 0; ; round++) {
+      this.runLog?.step('verify');
+      this.logger.info(round === 0
+        ? `Running verification commands...`
+        : `Re-running verification commands (fix-up round ${round}/${rounds})...`);
+      const results = await runVerification(config, this.workingDir);
+      for (const r of results) {
+        const seconds = Math.round(r.durationMs / 1000);
+        if (r.success) {
+          this.logger.info(`  ✓ ${r.name} (${seconds}s)`);
+        } else {
+          this.logger.warn(`  ✗ ${r.name} (${r.timedOut ? 'timed out' : `exit code ${r.exitCode}`}, ${seconds}s)`);
+        }
+      }
+
+      if (results.every(r => r.success)) {
+        return null;
+      }
+      const failures = formatFailures(results);
+      if (round >= rounds) {
+        this.logger.warn(`Verification still fails after ${rounds} fix-up round(s)`);
+        return failures;
+      }
+
+      this.runLog?.step('verify_fix');
+      this.logger.info(`Asking Claude Code to fix the failures...`);
+      const fix = await claude.fixVerification(ticket, failures, this.workingDir, {
+        transcript: this.runLog || undefined,
+        maxCostUsd: this.budgetLeft(budget, ticket.key),
+        logger: this.logger,
+      });
+      this.claudeMetrics = addMetrics(this.claudeMetrics, fix.metrics);
+
+      if (await this.git.hasCommittableChanges()) {
+        await this.git.commitChanges(this.commitMessage(ticket, 'Fix verification failures'));
+      }
+      if (!fix.success) {
+        this.logger.warn(`Fix-up run failed: ${fix.error}`);
+        return failures;
+      }
+    }
+  }
+
+  /**
+   * What the next Claude run of the ticket may spend, less what this run
+   * has spent so far (not in the run history yet).
+   */
+  private budgetLeft(budget: Budget, ticketKey: string): number | undefined {
+    const remaining = budget.remainingFor(ticketKey);
+    return remaining === undefined ? undefined : Math.max(0, remaining - (this.claudeMetrics?.costUsd || 0));
+  }
+
+  /**
+   * Run the read-only pre-flight assessment. Returns the skipped result when
+   * the ticket needs more information, after asking for it in JIRA. A failed
+   * or unreadable assessment never blocks the ticket.
+   */
+  private async assessTicket(
+    ticket: JiraTicket,
+    ticketUrl: string,
+    maxCostUsd?: number
+  ): Promise<WorkResult | null> {
+    const config = this.projectConfig.claude.assessment!;
+    this.runLog?.step('assess');
+    this.logger.info(`Assessing ticket clarity...`);
+
+    const claude = new ClaudeClient({
+      ...this.claudeSettings!.config,
+      model: config.model || this.claudeSettings!.config.model,
+      maxTurns: config.maxTurns ?? DEFAULT_ASSESSMENT_MAX_TURNS,
+    });
+    const result = await claude.assessTicket(ticket, ticketUrl, this.workingDir, { maxCostUsd, logger: this.logger });
+    this.claudeMetrics = addMetrics(this.claudeMetrics, result.metrics);
+
+    const assessment = result.success ? parseAssessment(result.output) : null;
+    if (!assessment) {
+      this.logger.warn(`Assessment gave no usable result${result.error ? ` (${result.error})` : ''}, continuing`);
+      return null;
+    }
+
+    this.logger.info(`Assessment: clarity ${assessment.clarity}/5, size ${assessment.size}`);
+    if (!needsInfo(assessment, config)) {
+      return null;
+    }
+
+    this.logger.warn(`${ticket.key} needs more information, asking in JIRA`);
+    await this.jira.addComment(ticket.key, formatNeedsInfoComment(assessment));
+
+    const status = config.needsInfoStatus ?? DEFAULT_NEEDS_INFO_STATUS;
+    if (status) {
+      try {
+        await this.jira.transitionTicket(ticket.key, status);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        this.logger.warn(`Failed to move ${ticket.key} to "${status}": ${message}`);
+      }
+    }
+
+    const skipped: WorkResult = {
+      success: false,
+      skipped: true,
+      ticketKey: ticket.key,
+      error: `Needs more information (clarity ${assessment.clarity}/5)`,
+      ticketUpdated: await this.getTicketUpdated(ticket.key),
+    };
+    this.notify('needs_info', ticket, skipped, {
+      reasons: assessment.questions.length > 0 ? assessment.questions : assessment.missingInformation,
+      message: 'Asked the reporter for more information.',
+    });
+    return skipped;
+  }
+
+  private async getTicketUpdated(ticketKey: string): Promise<string | undefined> {
+    try {
+      return (await this.jira.getTicket(ticketKey)).updated;
+    } catch {
+      // The ticket then stays skipped until retried by hand
+      return undefined;
+    }
+  }
+
+  private reviewLabel(): string {
+    return this.projectConfig.guardrails?.reviewLabel || 'needs-human-review';
+  }
+
+  private async labelForReview(ticketKey: string): Promise<void> {
+    try {
+      await this.jira.addLabels(ticketKey, [this.reviewLabel()]);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      this.logger.warn(`Failed to label ${ticketKey} for review: ${message}`);
+    }
+  }
+
+  /**
+   * Draft state, labels, reviewers and assignee for a new PR, from
+   * workflow.pr. A PR that needs human attention is always a draft.
+   */
+  private async pullRequestOptions(
+    ticket: JiraTicket,
+    needsAttention: boolean,
+    needsReview: boolean
+  ): Promise<PullRequestOptions> {
+    const config = this.projectConfig.workflow.pr;
+
+    const labels = [...(config.labels || [])];
+    if (needsReview) {
+      labels.push(this.reviewLabel());
+    }
+
+    let reviewers: string[] = [];
+    if (config.reviewers === 'codeowners') {
+      try {
+        const stats = await this.git.getDiffStats(this.diffBase());
+        reviewers = ownersFor(readCodeowners(this.workingDir), stats.files.map(f => f.path));
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        this.logger.warn(`Failed to read reviewers from CODEOWNERS: ${message}`);
+      }
+    } else if (config.reviewers) {
+      reviewers = [...config.reviewers];
+    }
+    const org = this.projectConfig.project.repo.split('/')[0];
+    reviewers.push(...(config.teamReviewers || []).map(t => (t.includes('/') ? t : `${org}/${t}`)));
+
+    const assignee = ticket.assignee
+      ? Object.entries(config.assigneeMap || {}).find(([name]) => name.toLowerCase() === ticket.assignee!.toLowerCase())?.[1]
+      : undefined;
+
+    return {
+      draft: needsAttention || config.draft === true,
+      labels,
+      reviewers: [...new Set(reviewers)],
+      assignees: assignee ? [assignee] : [],
+    };
+  }
+
+  /**
+   * Hand the PR to the daemon's PR watcher so merge and failure transitions
+   * are applied later.
+   */
+  private async trackPullRequest(
+    ticketKey: string,
+    pr: PullRequest,
+    branchName: string,
+    readyWhenGreen: boolean
+  ): Promise<void> {
+    if (!PrWatcher.isEnabled(this.projectConfig)) {
+      return;
+    }
+
+    try {
+      const tracker = new PullRequestTracker(this.globalConfig.bot.dataDir);
+      // A resumed branch's PR is already watched; keep what the watcher has seen
+      if ((await tracker.get(ticketKey))?.number === pr.number) {
+        return;
+      }
+      await tracker.track({
+        ticketKey,
+        projectKey: this.projectConfig.project.jiraKey,
+        number: pr.number,
+        url: pr.url,
+        branchName,
+        openedAt: new Date().toISOString(),
+        readyWhenGreen: readyWhenGreen || undefined,
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      this.logger.warn(`Failed to track PR #${pr.number}: ${message}`);
+    }
+  }
+
+  /**
+   * Let the daemon pick up JIRA comments left after this run as follow-up
+   * instructions for the pushed branch.
+   */
+  private async trackFollowUps(ticket: JiraTicket, branchName: string, pr?: PullRequest): Promise<void> {
+    if (!this.projectConfig.workflow.followUps) {
+      return;
+    }
+
+    const ids = ticket.comments.map(c => Number(c.id)).filter(id => !isNaN(id));
+    try {
+      await new FollowUpTracker(this.globalConfig.bot.dataDir).track({
+        ticketKey: ticket.key,
+        projectKey: this.projectConfig.project.jiraKey,
+        branchName,
+        lastSeenCommentId: String(ids.length > 0 ? Math.max(...ids) : 0),
+        trackedAt: new Date().toISOString(),
+        prUrl: pr?.url,
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      this.logger.warn(`Failed to track ${ticket.key} for follow-up comments: ${message}`);
+    }
+  }
+
+  /**
+   * The ref the ticket branch is compared against. A worktree never updates
+   * the local base branch, so it compares against the remote one.
+   */
+  private diffBase(): string {
+    const { baseBranch } = this.projectConfig.workflow.pr;
+    return this.options.isolated ? `origin/${baseBranch}` : baseBranch;
+  }
+
+  private async returnToBase(): Promise<void> {
+    if (this.options.isolated) {
+      // Release the ticket branch so the worktree can be removed
+      await this.git.detachHead();
+    } else {
+      await this.git.checkoutBranch(this.projectConfig.workflow.pr.baseBranch);
+    }
+  }
+
+  private async checkReviewGuardrails(): Promise<string[]> {
+    const rules = this.projectConfig.guardrails?.requireReview || [];
+    if (rules.length === 0) {
+      return [];
+    }
+
+    const stats = await this.git.getDiffStats(this.diffBase());
+    this.logger.info(`Diff: ${stats.fileCount} file(s), ${stats.linesChanged} line(s) changed`);
+
+    const triggers = evaluateReviewRules(
+      stats,
+      rules,
+      resolveSensitivePaths(this.projectConfig.guardrails?.sensitivePaths)
+    );
+    return triggers.map(t => `${t.rule} (${t.detail})`);
+  }
+
+  /**
+   * Handle the hold and abort review policies: nothing is pushed, the ticket
+   * gets a comment explaining why, and the working tree returns to base.
+   */
+  private async stopForReview(
+    ticket: JiraTicket,
+    branchName: string,
+    reviewReasons: string[],
+    policy: 'hold' | 'abort'
+  ): Promise<WorkResult> {
+    const ticketKey = ticket.key;
+    const reasonLines = reviewReasons.map(r => `- ${r}`).join('\n');
+
+    await this.returnToBase();
+
+    let comment: string;
+    let error: string;
+    if (policy === 'hold') {
+      this.logger.warn(`Holding ${branchName} locally for human review`);
+      comment = `JIRA Claude Bot implemented this ticket but did not push it, because guardrails require human review:\n${reasonLines}\n\n` +
+        `The changes are committed on the local branch ${branchName}.`;
+      error = `Held for review: ${reviewReasons.join('; ')}`;
+    } else {
+      this.logger.warn(`Discarding ${branchName}`);
+      await this.git.deleteLocalBranch(branchName);
+      comment = `JIRA Claude Bot discarded its implementation of this ticket, because guardrails require human review:\n${reasonLines}`;
+      error = `Aborted by guardrails: ${reviewReasons.join('; ')}`;
+    }
+
+    await this.jira.addComment(ticketKey, comment);
+
+    const result: WorkResult = {
+      success: false,
+      ticketKey,
+      branchName: policy === 'hold' ? branchName : undefined,
+      error,
+      reviewReasons,
+      stoppedForReview: true,
+    };
+    this.notify('guardrail_triggered', ticket, result, {
+      reasons: reviewReasons,
+      message: policy === 'hold'
+        ? 'Changes were committed locally but not pushed.'
+        : 'Changes were discarded.',
+    });
+    return result;
+  }
+
+  /**
+   * Send a notification about this ticket in the background. The ticket is
+   * missing when it could not be fetched.
+   */
+  private notify(
+    type: NotificationEventType,
+    ticket: JiraTicket | undefined,
+    result?: WorkResult,
+    details: Partial<NotificationEvent> = {}
+  ): void {
+    const ticketKey = ticket?.key || result?.ticketKey;
+    if (!ticketKey) {
+      return;
+    }
+    const ticketUrl = this.jira.getTicketUrl(ticketKey);
+
+    this.notifier.send({
+      type,
+      projectKey: this.projectConfig.project.jiraKey,
+      ticketKey,
+      ticketSummary: ticket?.summary,
+      ticketUrl,
+      branchName: result?.branchName,
+      prUrl: result?.pr?.url,
+      previewUrl: result?.previewUrl,
+      error: result?.error,
+      ticket: ticket && {
+        key: ticket.key,
+        summary: ticket.summary,
+        url: ticketUrl,
+        type: ticket.type,
+        status: ticket.status,
+        priority: ticket.priority,
+        labels: ticket.labels,
+        reporter: ticket.reporter,
+        assignee: ticket.assignee,
+      },
+      result,
+      ...details,
+    });
+  }
+
+  private startRunLog(ticketKey: string, startedAt: Date): RunLog | null {
+    try {
+      return RunLog.start(this.globalConfig.bot.dataDir, ticketKey, this.projectConfig.project.jiraKey, startedAt);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      this.logger.warn(`Failed to create run log: ${message}`);
+      return null;
+    }
+  }
+
+  private async recordDiff(): Promise<void> {
+    if (!this.runLog) {
+      return;
+    }
+    try {
+      this.runLog.diff(await this.git.getDiff(this.diffBase()));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      this.logger.warn(`Failed to record the diff: ${message}`);
+    }
+  }
+
+  /**
+   * Attach the end of Claude's transcript, with secrets masked, so whoever
+   * picks up a failed ticket can see what was tried.
+   */
+  private async attachTranscriptExcerpt(ticketKey: string): Promise<void> {
+    if (!this.runLog) {
+      return;
+    }
+    try {
+      const excerpt = this.runLog.writeExcerpt(knownSecrets(this.globalConfig));
+      if (excerpt) {
+        await this.jira.uploadAttachment(ticketKey, excerpt);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      this.logger.warn(`Failed to attach the transcript: ${message}`);
+    }
+  }
+
+  private recordRun(result: WorkResult, startedAt: Date): void {
+    const finishedAt = new Date();
+    try {
+      new RunHistory(this.globalConfig.bot.dataDir).append({
+        ticketKey: result.ticketKey,
+        projectKey: this.projectConfig.project.jiraKey,
+        trigger: this.options.trigger || 'work',
+        task: 'ticket',
+        success: result.success,
+        skipped: result.skipped,
+        startedAt: startedAt.toISOString(),
+        finishedAt: finishedAt.toISOString(),
+        durationMs: finishedAt.getTime() - startedAt.getTime(),
+        model: this.claudeSettings?.config.model || this.options.step?.model || this.projectConfig.claude.model,
+        inputTokens: result.metrics?.inputTokens,
+        outputTokens: result.metrics?.outputTokens,
+        costUsd: result.metrics?.costUsd,
+        branchName: result.branchName,
+        prUrl: result.pr?.url,
+        previewUrl: result.previewUrl,
+        error: result.error,
+        runId: this.runLog?.id,
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      this.logger.warn(`Failed to record run history: ${message}`);
     }
   }
 
@@ -291,6 +983,90 @@ export class Worker {
       .replace(/{type}/g, ticket.type.toLowerCase());
   }
 
+  /**
+   * Check for a missing base branch, then let the working tree guard check
+   * for an unfinished merge or rebase, a detached HEAD and local changes.
+   * Returns why the run can't start, or null.
+   */
+  private async prepareWorkingTree(ticketKey: string): Promise<string | null> {
+    const { baseBranch } = this.projectConfig.workflow.pr;
+    try {
+      if (!await this.git.getBranchExists(baseBranch) && !await this.git.getRemoteBranchExists(baseBranch)) {
+        return `Base branch "${baseBranch}" does not exist locally or on origin`;
+      }
+    } catch (error) {
+      return `Working tree check failed: ${error instanceof Error ? error.message : String(error)}`;
+    }
+    return this.tree.prepare(ticketKey);
+  }
+
+  /**
+   * Create the ticket branch, or deal with one left by an earlier run as
+   * `workflow.existingBranch` says. Returns the branch this run works on.
+   */
+  private async prepareBranch(ticket: JiraTicket): Promise<string> {
+    const policy = this.projectConfig.workflow.existingBranch || 'resume';
+    let branchName = this.formatBranchName(ticket);
+
+    if (await this.branchExists(branchName)) {
+      switch (policy) {
+        case 'fail':
+          throw new Error(`Branch ${branchName} already exists (workflow.existingBranch is "fail")`);
+        case 'resume':
+          this.logger.info(`Resuming existing branch: ${branchName}`);
+          if (await this.git.getRemoteBranchExists(branchName)) {
+            await this.git.checkoutRemoteBranch(branchName);
+          } else {
+            await this.git.checkoutBranch(branchName);
+          }
+          return branchName;
+        case 'replace':
+          this.logger.warn(`Deleting existing branch ${branchName} to start over`);
+          await this.git.deleteBranch(branchName);
+          break;
+        case 'suffix': {
+          const base = branchName;
+          for (let n = 2; await this.branchExists(branchName); n++) {
+            branchName = `${base}-${n}`;
+          }
+          break;
+        }
+      }
+    }
+
+    this.logger.info(`Creating branch: ${branchName}`);
+    const { baseBranch } = this.projectConfig.workflow.pr;
+    if (this.options.isolated) {
+      await this.git.createBranchFromRemote(branchName, baseBranch);
+    } else {
+      await this.git.createBranch(branchName, baseBranch);
+    }
+    return branchName;
+  }
+
+  private async branchExists(branchName: string): Promise<boolean> {
+    return await this.git.getBranchExists(branchName) || await this.git.getRemoteBranchExists(branchName);
+  }
+
+  /**
+   * The branch from `workflow.branchPattern`, with placeholders made safe for
+   * a ref name.
+   */
+  private formatBranchName(ticket: JiraTicket): string {
+    return this.projectConfig.workflow.branchPattern
+      .replace(/{ticket_key}/g, ticket.key)
+      .replace(/{summary}/g, this.sanitizeForBranch(ticket.summary))
+      .replace(/{type}/g, this.sanitizeForBranch(ticket.type));
+  }
+
+  private commitMessage(ticket: JiraTicket, summary: string): string {
+    return formatCommitMessage(this.projectConfig.workflow.commitPattern, {
+      ticketKey: ticket.key,
+      summary,
+      type: ticket.type,
+    });
+  }
+
   private sanitizeForBranch(text: string): string {
     return text
       .toLowerCase()
@@ -314,10 +1090,20 @@ export class Worker {
     previewUrl?: string,
     changesSummary?: string,
     beforeScreenshots?: ScreenshotResult[],
-    afterScreenshots?: ScreenshotResult[]
+    afterScreenshots?: ScreenshotResult[],
+    reviewReasons?: string[],
+    verifyFailures?: string | null
   ): string {
     let comment = pr ? `PR: ${pr.url}` : `Branch pushed: ${branchName}`;
 
+    if (reviewReasons && reviewReasons.length > 0) {
+      comment += `\n\nGuardrails triggered, this change needs careful human review:\n${reviewReasons.map(r => `- ${r}`).join('\n')}`;
+    }
+
+    if (verifyFailures) {
+      comment += `\n\nVerification commands still fail${pr ? ', so the PR is a draft' : ''}:\n${verifyFailures}`;
+    }
+
     if (previewUrl) {
       comment += `\nPreview: ${previewUrl}`;
     }
@@ -326,6 +1112,10 @@ export class Worker {
       comment += `\n\nChanges made:\n${changesSummary}`;
     }
 
+    if (this.claudeSettings) {
+      comment += `\n\nClaude settings: ${describeClaudeSettings(this.claudeSettings)}`;
+    }
+
     const screenshotLines: string[] = [];
     if (beforeScreenshots) {
       for (const s of beforeScreenshots) {
@@ -350,7 +1140,15 @@ export class Worker {
     return comment;
   }
 
-  private extractChangesSummary(claudeOutput: string): string {
+  /**
+   * Claude's own account of the change, followed by the commit list.
+   */
+  private formatChangesSummary(claudeSummary: string | undefined, commitSummary: string): string {
+    const summary = claudeSummary ? this.extractChangesSummary(claudeSummary) : null;
+    return [summary, commitSummary].filter(Boolean).join('\n\n');
+  }
+
+  private extractChangesSummary(claudeOutput: string): string | null {
     // Try to extract a summary from Claude's output
     // Look for patterns like "Changes made:", "Summary:", etc.
     const patterns = [
@@ -366,7 +1164,8 @@ export class Worker {
       }
     }
 
-    // If no summary found, return a generic message
-    return '- See commit messages for details';
+    // Fall back to the closing message itself when it is short enough to read
+    const text = claudeOutput.trim();
+    return text && text.length <= 1500 ? text : null;
   }
 }
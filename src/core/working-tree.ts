@@ -0,0 +1,86 @@
+import { GitRepository } from '../clients/git';
+import { ProjectConfig } from './config';
+import { Logger } from '../utils/logger';
+
+/**
+ * Guards the user's own checkout around a run: refuses to start on an
+ * unfinished git operation or a detached HEAD, and deals with uncommitted
+ * changes as `workflow.dirtyTree` says, so they never end up on a bot branch.
+ */
+export class WorkingTreeGuard {
+  private git: GitRepository;
+  private projectConfig: ProjectConfig;
+  private workingDir: string;
+  private logger: Logger;
+  // Local changes stashed by `prepare`, restored by `restore`
+  private stashed?: { message: string; branch: string };
+
+  constructor(git: GitRepository, projectConfig: ProjectConfig, workingDir: string, logger: Logger) {
+    this.git = git;
+    this.projectConfig = projectConfig;
+    this.workingDir = workingDir;
+    this.logger = logger;
+  }
+
+  /**
+   * Make the working tree safe to switch branches in. Returns why it isn't,
+   * or null once it is. `label` names the run in the stash message.
+   */
+  async prepare(label: string): Promise<string | null> {
+    try {
+      const operation = await this.git.getOperationInProgress();
+      if (operation) {
+        return `A ${operation} is in progress in ${this.workingDir}; finish or abort it first`;
+      }
+
+      const branch = await this.git.getCurrentBranch();
+      if (branch === 'HEAD') {
+        return `HEAD is detached in ${this.workingDir}; check out a branch first`;
+      }
+
+      const status = await this.git.getStatus();
+      const changed = [...new Set([...status.staged, ...status.unstaged, ...status.untracked])]
+        .filter(f => !this.git.isNeverStaged(f));
+      if (changed.length === 0) {
+        return null;
+      }
+
+      const policy = this.projectConfig.workflow.dirtyTree || 'require-clean';
+      if (policy !== 'stash') {
+        const files = changed.length > 5 ? `${changed.slice(0, 5).join(', ')} and ${changed.length - 5} more` : changed.join(', ');
+        return `Working tree has uncommitted changes (${files}); commit or stash them, or set workflow.dirtyTree to "stash"`;
+      }
+
+      const message = `jira-claude-bot: before ${label}`;
+      if (await this.git.stash(message)) {
+        this.stashed = { message, branch };
+        this.logger.info(`Stashed ${changed.length} uncommitted change(s) on ${branch}`);
+      }
+      return null;
+    } catch (error) {
+      return `Working tree check failed: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+
+  /**
+   * Put back changes stashed by `prepare`, on the branch they came from.
+   */
+  async restore(): Promise<void> {
+    if (!this.stashed) {
+      return;
+    }
+
+    const { message, branch } = this.stashed;
+    this.stashed = undefined;
+    try {
+      if (await this.git.getCurrentBranch() !== branch) {
+        await this.git.checkoutBranch(branch);
+      }
+      await this.git.restoreStash(message);
+      this.logger.info(`Restored stashed changes on ${branch}`);
+    } catch (error) {
+      const detail = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Could not restore stashed changes ("${message}" in git stash list): ${detail}`);
+    }
+  }
+}
@@ -0,0 +1,110 @@
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { runGitAsync } from '../clients/git';
+import { Logger, defaultLogger } from '../utils/logger';
+
+/**
+ * Creates and removes per-ticket `git worktree` checkouts so several workers
+ * can run against the same repository without sharing a working directory.
+ */
+export class WorktreeManager {
+  private repoDir: string;
+  private rootDir: string;
+
+  /**
+   * @param repoDir the main working tree of the repository
+   * @param rootDir directory holding this repository's worktrees
+   */
+  constructor(repoDir: string, rootDir: string) {
+    this.repoDir = repoDir;
+    this.rootDir = rootDir;
+  }
+
+  /**
+   * Add a detached worktree at the tip of the remote base branch and run the
+   * setup command in it, printing its output through `logger`. The worker
+   * creates the ticket branch inside it. A worktree whose setup fails is
+   * removed again.
+   */
+  async create(name: string, baseBranch: string, setupCommand?: string, logger: Logger = defaultLogger): Promise<string> {
+    const worktreePath = path.join(this.rootDir, name);
+
+    // A leftover from a crashed run would make `git worktree add` fail
+    if (fs.existsSync(worktreePath)) {
+      await this.remove(worktreePath);
+    }
+
+    fs.mkdirSync(this.rootDir, { recursive: true });
+    await this.git('fetch', 'origin', baseBranch);
+    await this.git('worktree', 'add', '--detach', worktreePath, `origin/${baseBranch}`);
+
+    if (setupCommand) {
+      try {
+        await runSetup(setupCommand, worktreePath, logger);
+      } catch (error) {
+        await this.remove(worktreePath);
+        throw error;
+      }
+    }
+
+    return worktreePath;
+  }
+
+  async remove(worktreePath: string): Promise<void> {
+    try {
+      await this.git('worktree', 'remove', '--force', worktreePath);
+    } catch {
+      // Not registered with git (or already gone), just clear the directory
+      fs.rmSync(worktreePath, { recursive: true, force: true });
+    }
+    await this.git('worktree', 'prune');
+  }
+
+  /**
+   * Remove every worktree under the root directory. Called on daemon start,
+   * when no worker can still be using one.
+   */
+  async removeAll(): Promise<string[]> {
+    if (!fs.existsSync(this.rootDir)) {
+      return [];
+    }
+
+    const removed: string[] = [];
+    for (const name of fs.readdirSync(this.rootDir)) {
+      await this.remove(path.join(this.rootDir, name));
+      removed.push(name);
+    }
+    return removed;
+  }
+
+  private git(...args: string[]): Promise<string> {
+    return runGitAsync(args, this.repoDir);
+  }
+}
+
+/**
+ * Run `workflow.worktreeSetup` through the shell without blocking other
+ * workers. Rejects when it exits with an error.
+ */
+function runSetup(command: string, cwd: string, logger: Logger): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, { cwd, shell: true, stdio: ['ignore', 'pipe', 'pipe'], env: { ...process.env } });
+    const streams = [child.stdout!, child.stderr!].map(input => {
+      const lines = readline.createInterface({ input });
+      lines.on('line', line => logger.output(line));
+      return new Promise<void>(done => lines.on('close', done));
+    });
+
+    child.on('error', reject);
+    child.on('close', async (code, signal) => {
+      await Promise.all(streams);
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`Worktree setup "${command}" ${signal ? `was killed by ${signal}` : `exited with code ${code}`}`));
+      }
+    });
+  });
+}
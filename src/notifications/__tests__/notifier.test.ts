@@ -0,0 +1,178 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { Notifier, NotificationBackend, NotificationEvent } from '../index';
+import { WebhookNotifier, signPayload, SIGNATURE_HEADER, EVENT_HEADER } from '../webhook';
+import { DiscordNotifier } from '../discord';
+import { TeamsNotifier } from '../teams';
+import { Logger } from '../../utils/logger';
+
+interface Delivery {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('Notifier', () => {
+  let server: http.Server;
+  let url: string;
+  let received: Delivery[];
+  let statuses: number[];
+
+  beforeEach(async () => {
+    received = [];
+    statuses = [];
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(statuses.shift() || 200);
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/events`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const logger = new Logger('error');
+
+  const event: Omit<NotificationEvent, 'timestamp'> = {
+    type: 'pr_created',
+    projectKey: 'PROJ',
+    ticketKey: 'PROJ-1',
+    ticketSummary: 'Update the footer',
+    ticketUrl: 'https://example.atlassian.net/browse/PROJ-1',
+    prUrl: 'https://github.com/acme/web/pull/7',
+    ticket: {
+      key: 'PROJ-1',
+      summary: 'Update the footer',
+      url: 'https://example.atlassian.net/browse/PROJ-1',
+      type: 'Task',
+      status: 'To Do',
+      priority: 'Medium',
+      labels: ['claude-bot'],
+      reporter: 'Pat Smith',
+      assignee: null,
+    },
+    result: {
+      success: true,
+      ticketKey: 'PROJ-1',
+      branchName: 'feature/PROJ-1',
+      pr: { number: 7, url: 'https://github.com/acme/web/pull/7', title: 'PROJ-1: Update the footer', state: 'OPEN', headSha: 'abc123' },
+    },
+  };
+
+  it('posts a signed JSON payload with the ticket and work result', async () => {
+    const notifier = new Notifier([new WebhookNotifier({ url, secret: 's3cret' })], logger);
+
+    await notifier.notify(event);
+
+    expect(received).toHaveLength(1);
+    const { headers, body } = received[0];
+    expect(headers[SIGNATURE_HEADER.toLowerCase()]).toBe(signPayload(body, 's3cret'));
+    expect(headers[EVENT_HEADER.toLowerCase()]).toBe('pr_created');
+
+    const payload = JSON.parse(body);
+    expect(payload.ticket.labels).toEqual(['claude-bot']);
+    expect(payload.result.branchName).toBe('feature/PROJ-1');
+    expect(payload.timestamp).toBeDefined();
+  });
+
+  it('applies per-backend event filters over the global list', async () => {
+    const sent: string[] = [];
+    const backend = (name: string, events?: NotificationBackend['events']): NotificationBackend => ({
+      name,
+      events,
+      send: async (e) => { sent.push(`${name}:${e.type}`); },
+    });
+    const notifier = new Notifier(
+      [backend('a'), backend('b', ['ticket_failed'])],
+      logger,
+      { events: ['pr_created'] }
+    );
+
+    await notifier.notify({ type: 'pr_created' });
+    await notifier.notify({ type: 'ticket_failed' });
+    await notifier.notify({ type: 'no_changes' });
+
+    expect(sent).toEqual(['a:pr_created', 'b:ticket_failed']);
+    expect(notifier.isEnabled('no_changes')).toBe(false);
+  });
+
+  it('retries server errors with backoff', async () => {
+    statuses = [503, 500];
+    const notifier = new Notifier([new WebhookNotifier({ url })], logger, { retryDelayMs: 5 });
+
+    await notifier.notify(event);
+
+    expect(received).toHaveLength(3);
+  });
+
+  it('gives up without throwing', async () => {
+    statuses = [500, 500, 500];
+    const notifier = new Notifier([new WebhookNotifier({ url })], logger, { retries: 2, retryDelayMs: 5 });
+
+    await expect(notifier.notify(event)).resolves.toBeUndefined();
+    expect(received).toHaveLength(3);
+  });
+
+  it('sends in the background and flushes pending deliveries', async () => {
+    let release: () => void = () => undefined;
+    const sent: string[] = [];
+    const slow: NotificationBackend = {
+      name: 'slow',
+      send: (e) => new Promise(resolve => { release = () => { sent.push(e.type); resolve(); }; }),
+    };
+    const notifier = new Notifier([slow], logger);
+
+    notifier.send({ type: 'ticket_started' });
+    expect(sent).toEqual([]);
+
+    const flushed = notifier.flush();
+    release();
+    await flushed;
+    expect(sent).toEqual(['ticket_started']);
+  });
+
+  it('does not retry client errors', async () => {
+    statuses = [400];
+    const notifier = new Notifier([new WebhookNotifier({ url })], logger, { retryDelayMs: 5 });
+
+    await notifier.notify(event);
+
+    expect(received).toHaveLength(1);
+  });
+});
+
+describe('chat formatters', () => {
+  const event: NotificationEvent = {
+    type: 'ticket_failed',
+    timestamp: '2024-05-01T12:00:00.000Z',
+    projectKey: 'PROJ',
+    ticketKey: 'PROJ-2',
+    ticketSummary: 'Fix login',
+    ticketUrl: 'https://example.atlassian.net/browse/PROJ-2',
+    error: 'Claude Code failed',
+  };
+
+  it('formats Discord embeds', () => {
+    const message = new DiscordNotifier({ webhookUrl: 'http://unused' }).formatMessage(event);
+    const [embed] = message.embeds;
+
+    expect(embed.title).toBe('Ticket failed: PROJ-2');
+    expect(embed.url).toBe(event.ticketUrl);
+    expect(embed.fields).toEqual([{ name: 'Error', value: '```Claude Code failed```' }]);
+  });
+
+  it('formats Teams adaptive cards', () => {
+    const message = new TeamsNotifier({ webhookUrl: 'http://unused' }).formatMessage(event);
+    const card = message.attachments[0].content;
+
+    expect(card.type).toBe('AdaptiveCard');
+    expect(card.body[0].text).toBe('Ticket failed: PROJ-2');
+    expect(card.actions).toEqual([{ type: 'Action.OpenUrl', title: 'Open ticket', url: event.ticketUrl }]);
+  });
+});
@@ -0,0 +1,75 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { SlackNotifier } from '../slack';
+import { NotificationEvent } from '../index';
+
+describe('SlackNotifier', () => {
+  let server: http.Server;
+  let webhookUrl: string;
+  let received: any[];
+  let status: number;
+
+  beforeEach(async () => {
+    received = [];
+    status = 200;
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        received.push(JSON.parse(body));
+        res.writeHead(status);
+        res.end(status === 200 ? 'ok' : 'invalid_payload');
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    webhookUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const event: NotificationEvent = {
+    type: 'pr_created',
+    timestamp: '2024-05-01T12:00:00.000Z',
+    projectKey: 'PROJ',
+    ticketKey: 'PROJ-1',
+    ticketSummary: 'Update the footer',
+    ticketUrl: 'https://example.atlassian.net/browse/PROJ-1',
+    prUrl: 'https://github.com/acme/web/pull/7',
+    previewUrl: 'https://web-git-proj-1.vercel.app',
+  };
+
+  it('posts a Block Kit message linking the ticket, PR and preview', async () => {
+    await new SlackNotifier({ webhookUrl, channel: '#dev-bot' }).send(event);
+
+    expect(received).toHaveLength(1);
+    const message = received[0];
+    expect(message.channel).toBe('#dev-bot');
+    expect(message.text).toBe('Pull request created: PROJ-1');
+
+    const text = JSON.stringify(message.blocks);
+    expect(text).toContain('<https://example.atlassian.net/browse/PROJ-1|PROJ-1> Update the footer');
+    expect(text).toContain('<https://github.com/acme/web/pull/7|');
+    expect(text).toContain('<https://web-git-proj-1.vercel.app|');
+  });
+
+  it('includes guardrail reasons and errors', () => {
+    const message = new SlackNotifier({ webhookUrl }).formatMessage({
+      ...event,
+      type: 'guardrail_triggered',
+      reasons: ['lines_changed > 500 (lines changed is 552)'],
+      error: 'boom',
+    });
+
+    const text = JSON.stringify(message.blocks);
+    expect(message.channel).toBeUndefined();
+    expect(text).toContain('• lines_changed > 500');
+    expect(text).toContain('```boom```');
+  });
+
+  it('rejects when the webhook responds with an error', async () => {
+    status = 400;
+    await expect(new SlackNotifier({ webhookUrl }).send(event)).rejects.toThrow('400');
+  });
+});
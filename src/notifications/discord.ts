@@ -0,0 +1,83 @@
+import axios from 'axios';
+import {
+  BackendConfig,
+  EVENT_TITLES,
+  NotificationBackend,
+  NotificationEvent,
+  NotificationEventType,
+} from './index';
+
+export interface DiscordConfig extends BackendConfig {
+  webhookUrl: string;
+  username?: string;  // overrides the webhook's default name
+}
+
+const COLORS: Record<NotificationEventType, number> = {
+  ticket_started: 0x3b82f6,
+  pr_created: 0x22c55e,
+  pr_updated: 0x22c55e,
+  ticket_failed: 0xef4444,
+  guardrail_triggered: 0xf59e0b,
+  no_changes: 0x9ca3af,
+  daemon_stopped: 0x6b7280,
+  budget_exceeded: 0xf59e0b,
+  needs_info: 0xf59e0b,
+};
+
+/**
+ * Posts events to a Discord webhook as a single embed.
+ */
+export class DiscordNotifier implements NotificationBackend {
+  name = 'discord';
+  events?: NotificationEventType[];
+  private config: DiscordConfig;
+
+  constructor(config: DiscordConfig) {
+    this.config = config;
+    this.events = config.events;
+  }
+
+  async send(event: NotificationEvent): Promise<void> {
+    await axios.post(this.config.webhookUrl, this.formatMessage(event), { timeout: 10000 });
+  }
+
+  formatMessage(event: NotificationEvent): Record<string, any> {
+    const title = EVENT_TITLES[event.type];
+    const fields: Array<{ name: string; value: string; inline?: boolean }> = [];
+
+    if (event.prUrl) fields.push({ name: 'Pull request', value: `[Open](${event.prUrl})`, inline: true });
+    if (event.previewUrl) fields.push({ name: 'Preview', value: `[Open](${event.previewUrl})`, inline: true });
+    if (event.branchName && !event.prUrl) fields.push({ name: 'Branch', value: `\`${event.branchName}\``, inline: true });
+    if (event.reasons && event.reasons.length > 0) {
+      fields.push({ name: 'Reasons', value: truncate(event.reasons.map(r => `• ${r}`).join('\n'), 1024) });
+    }
+    if (event.error) {
+      fields.push({ name: 'Error', value: '```' + truncate(event.error, 1000) + '```' });
+    }
+
+    const description = [
+      event.ticketKey ? `**${event.ticketKey}** ${event.ticketSummary || ''}`.trim() : '',
+      event.message || '',
+    ].filter(Boolean).join('\n');
+
+    const message: Record<string, any> = {
+      embeds: [{
+        title: event.ticketKey ? `${title}: ${event.ticketKey}` : title,
+        url: event.ticketUrl,
+        description: description ? truncate(description, 4096) : undefined,
+        color: COLORS[event.type],
+        fields,
+        timestamp: event.timestamp,
+        footer: event.projectKey ? { text: event.projectKey } : undefined,
+      }],
+    };
+    if (this.config.username) {
+      message.username = this.config.username;
+    }
+    return message;
+  }
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? text.substring(0, max - 1) + '…' : text;
+}
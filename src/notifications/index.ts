@@ -0,0 +1,229 @@
+import axios from 'axios';
+import { GlobalConfig } from '../core/config';
+import { WorkResult } from '../core/worker';
+import { Logger } from '../utils/logger';
+import { SlackNotifier, SlackConfig } from './slack';
+import { DiscordNotifier, DiscordConfig } from './discord';
+import { TeamsNotifier, TeamsConfig } from './teams';
+import { WebhookNotifier, WebhookConfig } from './webhook';
+
+export const NOTIFICATION_EVENTS = [
+  'ticket_started',
+  'pr_created',
+  'pr_updated',
+  'ticket_failed',
+  'guardrail_triggered',
+  'no_changes',
+  'daemon_stopped',
+  'budget_exceeded',
+  'needs_info',
+] as const;
+
+export type NotificationEventType = typeof NOTIFICATION_EVENTS[number];
+
+export const EVENT_TITLES: Record<NotificationEventType, string> = {
+  ticket_started: 'Started work',
+  pr_created: 'Pull request created',
+  pr_updated: 'Pull request updated',
+  ticket_failed: 'Ticket failed',
+  guardrail_triggered: 'Guardrail triggered',
+  no_changes: 'No changes made',
+  daemon_stopped: 'Daemon stopped',
+  budget_exceeded: 'Budget reached',
+  needs_info: 'Needs more information',
+};
+
+export interface TicketMetadata {
+  key: string;
+  summary: string;
+  url: string;
+  type: string;
+  status: string;
+  priority: string;
+  labels: string[];
+  reporter: string;
+  assignee: string | null;
+}
+
+export interface NotificationEvent {
+  type: NotificationEventType;
+  timestamp: string;
+  projectKey?: string;
+  ticketKey?: string;
+  ticketSummary?: string;
+  ticketUrl?: string;
+  branchName?: string;
+  prUrl?: string;
+  previewUrl?: string;
+  error?: string;
+  // Guardrail rules that matched, or questions for the reporter for needs_info
+  reasons?: string[];
+  message?: string;
+  // Full details for machine consumers such as the JSON webhook
+  ticket?: TicketMetadata;
+  result?: WorkResult;
+}
+
+export interface BackendConfig {
+  // Events this backend receives; falls back to notifications.events
+  events?: NotificationEventType[];
+}
+
+export interface NotificationsConfig {
+  slack?: SlackConfig;
+  discord?: DiscordConfig;
+  teams?: TeamsConfig;
+  webhook?: WebhookConfig;
+  events?: NotificationEventType[];  // all events when omitted
+  retries?: number;                  // extra attempts per delivery (default: 3)
+}
+
+/**
+ * A destination for notifications. `send` may throw; the Notifier retries
+ * and then logs the failure.
+ */
+export interface NotificationBackend {
+  name: string;
+  events?: NotificationEventType[];
+  send(event: NotificationEvent): Promise<void>;
+}
+
+export interface NotifierOptions {
+  events?: NotificationEventType[];
+  retries?: number;
+  retryDelayMs?: number;  // first backoff delay, doubled per attempt
+}
+
+/**
+ * Fans events out to every configured backend. Notifications are best
+ * effort: a failing backend never fails the ticket.
+ */
+export class Notifier {
+  private backends: NotificationBackend[];
+  private logger: Logger;
+  private events: NotificationEventType[] | undefined;
+  private retries: number;
+  private retryDelayMs: number;
+  private inFlight = new Set<Promise<void>>();
+
+  constructor(backends: NotificationBackend[], logger: Logger, options: NotifierOptions = {}) {
+    this.backends = backends;
+    this.logger = logger;
+    this.events = options.events;
+    this.retries = options.retries ?? 3;
+    this.retryDelayMs = options.retryDelayMs ?? 1000;
+  }
+
+  isEnabled(type: NotificationEventType): boolean {
+    return this.backends.some(b => this.accepts(b, type));
+  }
+
+  async notify(event: Omit<NotificationEvent, 'timestamp'>): Promise<void> {
+    const full: NotificationEvent = { ...event, timestamp: new Date().toISOString() };
+
+    await Promise.all(
+      this.backends
+        .filter(backend => this.accepts(backend, event.type))
+        .map(backend => this.deliver(backend, full))
+    );
+  }
+
+  /**
+   * Deliver an event without waiting for it, so slow backends and their
+   * retries never hold up a ticket. `flush` waits for what is in flight.
+   */
+  send(event: Omit<NotificationEvent, 'timestamp'>): void {
+    const delivery = this.notify(event);
+    this.inFlight.add(delivery);
+    delivery.finally(() => this.inFlight.delete(delivery));
+  }
+
+  async flush(): Promise<void> {
+    await Promise.all([...this.inFlight]);
+  }
+
+  private accepts(backend: NotificationBackend, type: NotificationEventType): boolean {
+    const events = backend.events || this.events;
+    return !events || events.length === 0 || events.includes(type);
+  }
+
+  private async deliver(backend: NotificationBackend, event: NotificationEvent): Promise<void> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await backend.send(event);
+        return;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (attempt >= this.retries || !isRetryable(error)) {
+          this.logger.warn(`Failed to send ${event.type} notification to ${backend.name}: ${message}`);
+          return;
+        }
+
+        const delay = this.retryDelayMs * 2 ** attempt;
+        this.logger.debug(`${backend.name} notification failed (${message}), retrying in ${delay}ms`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+}
+
+/**
+ * Network errors, rate limits and server errors are worth retrying; any
+ * other HTTP error means the request itself is wrong.
+ */
+function isRetryable(error: unknown): boolean {
+  if (axios.isAxiosError(error) && error.response) {
+    const status = error.response.status;
+    return status === 429 || status >= 500;
+  }
+  return true;
+}
+
+/**
+ * Build a Notifier from `notifications` in the global config. With nothing
+ * configured the Notifier does nothing.
+ */
+export function createNotifier(globalConfig: GlobalConfig, logger: Logger): Notifier {
+  const config = globalConfig.notifications || {};
+  const backends: NotificationBackend[] = [];
+
+  if (config.slack?.webhookUrl) {
+    backends.push(new SlackNotifier(config.slack));
+  }
+  if (config.discord?.webhookUrl) {
+    backends.push(new DiscordNotifier(config.discord));
+  }
+  if (config.teams?.webhookUrl) {
+    backends.push(new TeamsNotifier(config.teams));
+  }
+  if (config.webhook?.url) {
+    backends.push(new WebhookNotifier(config.webhook));
+  }
+
+  return new Notifier(backends, logger, { events: config.events, retries: config.retries });
+}
+
+export function validateNotificationsConfig(config: NotificationsConfig): string[] {
+  const errors: string[] = [];
+
+  if (config.events) {
+    errors.push(...validateNotificationEvents(config.events, 'notifications.events'));
+  }
+  for (const name of ['slack', 'discord', 'teams', 'webhook'] as const) {
+    const events = config[name]?.events;
+    if (events) {
+      errors.push(...validateNotificationEvents(events, `notifications.${name}.events`));
+    }
+  }
+  if (config.retries !== undefined && !(config.retries >= 0)) {
+    errors.push('notifications.retries must be 0 or more');
+  }
+
+  return errors;
+}
+
+function validateNotificationEvents(events: string[], label: string): string[] {
+  return events
+    .filter(e => !(NOTIFICATION_EVENTS as readonly string[]).includes(e))
+    .map(e => `${label}: unknown event "${e}" (expected one of ${NOTIFICATION_EVENTS.join(', ')})`);
+}
@@ -0,0 +1,114 @@
+import axios from 'axios';
+import {
+  BackendConfig,
+  EVENT_TITLES,
+  NotificationBackend,
+  NotificationEvent,
+  NotificationEventType,
+} from './index';
+
+export interface SlackConfig extends BackendConfig {
+  webhookUrl: string;
+  channel?: string;
+}
+
+const EMOJI: Record<NotificationEventType, string> = {
+  ticket_started: ':hammer_and_wrench:',
+  pr_created: ':white_check_mark:',
+  pr_updated: ':arrows_counterclockwise:',
+  ticket_failed: ':x:',
+  guardrail_triggered: ':warning:',
+  no_changes: ':zzz:',
+  daemon_stopped: ':octagonal_sign:',
+  budget_exceeded: ':money_with_wings:',
+  needs_info: ':question:',
+};
+
+/**
+ * Posts events to a Slack incoming webhook as Block Kit messages.
+ */
+export class SlackNotifier implements NotificationBackend {
+  name = 'slack';
+  events?: NotificationEventType[];
+  private config: SlackConfig;
+
+  constructor(config: SlackConfig) {
+    this.config = config;
+    this.events = config.events;
+  }
+
+  async send(event: NotificationEvent): Promise<void> {
+    await axios.post(this.config.webhookUrl, this.formatMessage(event), { timeout: 10000 });
+  }
+
+  formatMessage(event: NotificationEvent): Record<string, any> {
+    const emoji = EMOJI[event.type];
+    const title = EVENT_TITLES[event.type];
+    const ticket = event.ticketKey
+      ? (event.ticketUrl ? `<${event.ticketUrl}|${event.ticketKey}>` : event.ticketKey)
+      : '';
+    const headline = [ticket, event.ticketSummary].filter(Boolean).join(' ');
+
+    const blocks: any[] = [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `${emoji} *${title}*${headline ? `\n${headline}` : ''}`,
+        },
+      },
+    ];
+
+    const fields: string[] = [];
+    if (event.prUrl) fields.push(`*Pull request*\n<${event.prUrl}|${event.prUrl}>`);
+    if (event.previewUrl) fields.push(`*Preview*\n<${event.previewUrl}|${event.previewUrl}>`);
+    if (event.branchName && !event.prUrl) fields.push(`*Branch*\n\`${event.branchName}\``);
+    if (fields.length > 0) {
+      blocks.push({
+        type: 'section',
+        fields: fields.map(text => ({ type: 'mrkdwn', text })),
+      });
+    }
+
+    if (event.reasons && event.reasons.length > 0) {
+      blocks.push({
+        type: 'section',
+        text: { type: 'mrkdwn', text: event.reasons.map(r => `• ${r}`).join('\n') },
+      });
+    }
+
+    if (event.error) {
+      blocks.push({
+        type: 'section',
+        text: { type: 'mrkdwn', text: '```' + truncate(event.error, 2900) + '```' },
+      });
+    }
+
+    if (event.message) {
+      blocks.push({
+        type: 'section',
+        text: { type: 'mrkdwn', text: event.message },
+      });
+    }
+
+    const context = [event.projectKey, event.timestamp].filter(Boolean).join(' · ');
+    blocks.push({
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: context }],
+    });
+
+    const message: Record<string, any> = {
+      // Shown in push notifications and clients without Block Kit support
+      text: `${title}${event.ticketKey ? `: ${event.ticketKey}` : ''}`,
+      blocks,
+    };
+    if (this.config.channel) {
+      message.channel = this.config.channel;
+    }
+    return message;
+  }
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? text.substring(0, max - 1) + '…' : text;
+}
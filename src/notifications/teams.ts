@@ -0,0 +1,97 @@
+import axios from 'axios';
+import {
+  BackendConfig,
+  EVENT_TITLES,
+  NotificationBackend,
+  NotificationEvent,
+  NotificationEventType,
+} from './index';
+
+export interface TeamsConfig extends BackendConfig {
+  webhookUrl: string;
+}
+
+const STYLES: Record<NotificationEventType, string> = {
+  ticket_started: 'accent',
+  pr_created: 'good',
+  pr_updated: 'good',
+  ticket_failed: 'attention',
+  guardrail_triggered: 'warning',
+  no_changes: 'default',
+  daemon_stopped: 'default',
+  budget_exceeded: 'warning',
+  needs_info: 'warning',
+};
+
+/**
+ * Posts events to a Microsoft Teams incoming webhook (or Workflows trigger)
+ * as an Adaptive Card.
+ */
+export class TeamsNotifier implements NotificationBackend {
+  name = 'teams';
+  events?: NotificationEventType[];
+  private config: TeamsConfig;
+
+  constructor(config: TeamsConfig) {
+    this.config = config;
+    this.events = config.events;
+  }
+
+  async send(event: NotificationEvent): Promise<void> {
+    await axios.post(this.config.webhookUrl, this.formatMessage(event), { timeout: 10000 });
+  }
+
+  formatMessage(event: NotificationEvent): Record<string, any> {
+    const title = EVENT_TITLES[event.type];
+    const body: any[] = [
+      {
+        type: 'TextBlock',
+        text: event.ticketKey ? `${title}: ${event.ticketKey}` : title,
+        weight: 'Bolder',
+        size: 'Medium',
+        color: STYLES[event.type],
+      },
+    ];
+
+    if (event.ticketSummary) {
+      body.push({ type: 'TextBlock', text: event.ticketSummary, wrap: true });
+    }
+    if (event.message) {
+      body.push({ type: 'TextBlock', text: event.message, wrap: true });
+    }
+    if (event.reasons && event.reasons.length > 0) {
+      body.push({ type: 'TextBlock', text: event.reasons.map(r => `- ${r}`).join('\n'), wrap: true });
+    }
+    if (event.error) {
+      body.push({ type: 'TextBlock', text: event.error, wrap: true, fontType: 'Monospace', color: 'attention' });
+    }
+
+    const facts = [
+      event.projectKey ? { title: 'Project', value: event.projectKey } : null,
+      event.branchName ? { title: 'Branch', value: event.branchName } : null,
+    ].filter(Boolean);
+    if (facts.length > 0) {
+      body.push({ type: 'FactSet', facts });
+    }
+
+    const actions = [
+      event.ticketUrl ? { type: 'Action.OpenUrl', title: 'Open ticket', url: event.ticketUrl } : null,
+      event.prUrl ? { type: 'Action.OpenUrl', title: 'Open pull request', url: event.prUrl } : null,
+      event.previewUrl ? { type: 'Action.OpenUrl', title: 'Open preview', url: event.previewUrl } : null,
+    ].filter(Boolean);
+
+    return {
+      type: 'message',
+      attachments: [{
+        contentType: 'application/vnd.microsoft.card.adaptive',
+        content: {
+          $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+          type: 'AdaptiveCard',
+          version: '1.4',
+          body,
+          actions,
+        },
+      }],
+    };
+  }
+}
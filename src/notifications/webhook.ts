@@ -0,0 +1,50 @@
+import axios from 'axios';
+import * as crypto from 'crypto';
+import { BackendConfig, NotificationBackend, NotificationEvent, NotificationEventType } from './index';
+
+export interface WebhookConfig extends BackendConfig {
+  url: string;
+  secret?: string;                  // signs each body with HMAC-SHA256
+  headers?: Record<string, string>;
+}
+
+export const SIGNATURE_HEADER = 'X-Jira-Claude-Bot-Signature';
+export const EVENT_HEADER = 'X-Jira-Claude-Bot-Event';
+
+/**
+ * Posts the raw event as JSON, including the ticket metadata and full
+ * WorkResult, for dashboards and other systems.
+ */
+export class WebhookNotifier implements NotificationBackend {
+  name = 'webhook';
+  events?: NotificationEventType[];
+  private config: WebhookConfig;
+
+  constructor(config: WebhookConfig) {
+    this.config = config;
+    this.events = config.events;
+  }
+
+  async send(event: NotificationEvent): Promise<void> {
+    // Send the exact bytes that were signed
+    const body = JSON.stringify(event);
+    const headers: Record<string, string> = {
+      ...this.config.headers,
+      'Content-Type': 'application/json',
+      [EVENT_HEADER]: event.type,
+    };
+    if (this.config.secret) {
+      headers[SIGNATURE_HEADER] = signPayload(body, this.config.secret);
+    }
+
+    await axios.post(this.config.url, body, { headers, timeout: 10000 });
+  }
+}
+
+/**
+ * The signature header value for a body: `sha256=<hex HMAC>`. Receivers
+ * recompute it over the raw request body to verify the sender.
+ */
+export function signPayload(body: string, secret: string): string {
+  return 'sha256=' + crypto.createHmac('sha256', secret).update(body).digest('hex');
+}
@@ -0,0 +1,37 @@
+import { parseCodeowners, ownersFor } from '../codeowners';
+
+const rules = parseCodeowners(`
+# Default owners
+*                 @acme/web-team
+
+*.sql             @dba-dan          # database changes
+/docs             @writer jane@acme.com
+/src/billing/     @acme/payments @pat
+/README.md        @writer
+src/generated/
+`);
+
+describe('parseCodeowners', () => {
+  it('skips comments and drops email owners', () => {
+    expect(rules).toHaveLength(6);
+    expect(rules[2]).toEqual({ pattern: '/docs', owners: ['writer'] });
+    expect(rules[5]).toEqual({ pattern: 'src/generated/', owners: [] });
+  });
+});
+
+describe('ownersFor', () => {
+  it('uses the last matching rule for each file', () => {
+    expect(ownersFor(rules, ['src/app.ts'])).toEqual(['acme/web-team']);
+    expect(ownersFor(rules, ['db/migrations/001.sql'])).toEqual(['dba-dan']);
+    expect(ownersFor(rules, ['src/billing/invoice.ts', 'docs/setup.md'])).toEqual(['acme/payments', 'pat', 'writer']);
+  });
+
+  it('anchors patterns with a leading slash to the root', () => {
+    expect(ownersFor(rules, ['README.md'])).toEqual(['writer']);
+    expect(ownersFor(rules, ['packages/ui/README.md'])).toEqual(['acme/web-team']);
+  });
+
+  it('leaves files under a rule without owners unowned', () => {
+    expect(ownersFor(rules, ['src/generated/api.ts'])).toEqual([]);
+  });
+});
@@ -0,0 +1,27 @@
+import { detectRemote } from '../git-remote';
+
+describe('detectRemote', () => {
+  it('recognises the hosted services over HTTPS and SSH', () => {
+    expect(detectRemote('https://github.com/acme/web.git')).toEqual({ host: 'github', repo: 'acme/web' });
+    expect(detectRemote('git@bitbucket.org:acme/web.git')).toEqual({ host: 'bitbucket', repo: 'acme/web' });
+    expect(detectRemote('git@gitlab.com:acme/platform/web.git')).toEqual({ host: 'gitlab', repo: 'acme/platform/web' });
+  });
+
+  it('recognises self-hosted GitLab and keeps its URL', () => {
+    expect(detectRemote('ssh://git@gitlab.acme.com:2222/platform/web.git')).toEqual({
+      host: 'gitlab',
+      repo: 'platform/web',
+      hostUrl: 'https://gitlab.acme.com',
+    });
+    expect(detectRemote('https://gitlab.internal.acme.io/platform/web')).toEqual({
+      host: 'gitlab',
+      repo: 'platform/web',
+      hostUrl: 'https://gitlab.internal.acme.io',
+    });
+  });
+
+  it('returns null for unknown hosts and local paths', () => {
+    expect(detectRemote('git@git.acme.com:platform/web.git')).toBeNull();
+    expect(detectRemote('/srv/git/web.git')).toBeNull();
+  });
+});
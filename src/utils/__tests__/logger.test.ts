@@ -0,0 +1,26 @@
+import { Logger } from '../logger';
+
+describe('Logger', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('prints program output line by line under the prefix', () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    new Logger('info', 'PROJ').child('PROJ-1').output('▸ Read src/app.ts\n▸ Edit src/app.ts');
+
+    expect(log).toHaveBeenCalledTimes(2);
+    expect(log.mock.calls[0][0]).toContain('[PROJ:PROJ-1] ');
+    expect(log.mock.calls[0][0]).toMatch(/▸ Read src\/app\.ts$/);
+    expect(log.mock.calls[1][0]).toMatch(/\[PROJ:PROJ-1\] .*▸ Edit src\/app\.ts$/);
+  });
+
+  it('drops program output below its level', () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    new Logger('warn', 'PROJ-1').output('▸ Read src/app.ts');
+
+    expect(log).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,65 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { matchesGlob } from './glob';
+
+export interface CodeownersRule {
+  pattern: string;
+  owners: string[];  // as written, without the leading @
+}
+
+// Where GitHub looks for the file, in order
+const CODEOWNERS_PATHS = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS'];
+
+export function readCodeowners(repoDir: string): CodeownersRule[] {
+  for (const file of CODEOWNERS_PATHS) {
+    const filePath = path.join(repoDir, file);
+    if (fs.existsSync(filePath)) {
+      return parseCodeowners(fs.readFileSync(filePath, 'utf8'));
+    }
+  }
+  return [];
+}
+
+export function parseCodeowners(content: string): CodeownersRule[] {
+  const rules: CodeownersRule[] = [];
+  for (const raw of content.split('\n')) {
+    const line = raw.replace(/(^|\s)#.*$/, '').trim();
+    if (!line) continue;
+
+    const [pattern, ...owners] = line.split(/\s+/);
+    rules.push({
+      pattern,
+      // Email owners can't be requested as reviewers by login
+      owners: owners.filter(o => o.startsWith('@')).map(o => o.slice(1)),
+    });
+  }
+  return rules;
+}
+
+/**
+ * Owners of the given files. As on GitHub, the last matching rule wins for
+ * each file; a rule with no owners leaves the file unowned.
+ */
+export function ownersFor(rules: CodeownersRule[], files: string[]): string[] {
+  const owners = new Set<string>();
+  for (const file of files) {
+    const rule = [...rules].reverse().find(r => matchesCodeownersPattern(file, r.pattern));
+    rule?.owners.forEach(o => owners.add(o));
+  }
+  return [...owners];
+}
+
+function matchesCodeownersPattern(file: string, pattern: string): boolean {
+  if (pattern === '*') {
+    return true;
+  }
+  // A leading slash anchors to the root, which our globs already do for patterns with a slash
+  const glob = pattern.replace(/^\//, '');
+  const name = glob.replace(/\/$/, '');
+  if (pattern.startsWith('/') && !name.includes('/')) {
+    const [first, ...rest] = file.split('/');
+    return matchesGlob(first, name) && (rest.length > 0 || !glob.endsWith('/'));
+  }
+  // A directory without a trailing slash still owns everything under it
+  return matchesGlob(file, glob) || (!glob.endsWith('/') && matchesGlob(file, `${glob}/`));
+}
@@ -0,0 +1,56 @@
+export interface DetectedRemote {
+  host: 'github' | 'bitbucket' | 'gitlab';
+  repo: string;      // owner/repo, workspace/repo-slug or group/subgroup/project
+  hostUrl?: string;  // self-hosted GitLab only
+}
+
+/**
+ * Work out the git host and repo from a remote URL in HTTPS, SSH
+ * (`ssh://…`) or scp (`git@host:path`) form. Self-hosted servers are
+ * recognised as GitLab when their hostname mentions gitlab.
+ */
+export function detectRemote(remoteUrl: string): DetectedRemote | null {
+  const parsed = parseRemoteUrl(remoteUrl.trim());
+  if (!parsed) {
+    return null;
+  }
+
+  const { hostname, repo } = parsed;
+  if (hostname === 'github.com') {
+    return { host: 'github', repo };
+  }
+  if (hostname === 'bitbucket.org') {
+    return { host: 'bitbucket', repo };
+  }
+  if (hostname === 'gitlab.com') {
+    return { host: 'gitlab', repo };
+  }
+  if (hostname.split('.').some(part => part.startsWith('gitlab'))) {
+    return { host: 'gitlab', repo, hostUrl: `https://${hostname}` };
+  }
+  return null;
+}
+
+function parseRemoteUrl(remoteUrl: string): { hostname: string; repo: string } | null {
+  let hostname: string;
+  let repoPath: string;
+
+  const scp = remoteUrl.match(/^(?:[^@/]+@)?([^:/]+):(?!\/)(.+)$/);
+  if (scp) {
+    [, hostname, repoPath] = scp;
+  } else {
+    try {
+      const url = new URL(remoteUrl);
+      hostname = url.hostname;
+      repoPath = url.pathname;
+    } catch {
+      return null;
+    }
+  }
+
+  const repo = repoPath.replace(/^\/+/, '').replace(/\/+$/, '').replace(/\.git$/, '');
+  if (!repo.includes('/')) {
+    return null;
+  }
+  return { hostname: hostname.toLowerCase(), repo };
+}
@@ -0,0 +1,51 @@
+/**
+ * Minimal glob matching for repository paths.
+ *
+ * Supports `**` (any number of directories), `*` (anything but `/`) and `?`.
+ * A pattern without a `/` matches the file name at any depth, like
+ * .gitignore; a trailing `/` matches everything under a directory.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let glob = pattern.trim().replace(/^\.\//, '');
+
+  if (glob.endsWith('/')) {
+    glob += '**';
+  }
+  if (!glob.includes('/')) {
+    glob = '**/' + glob;
+  }
+
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // "**/" matches zero or more directories; a trailing "**" matches the rest
+        if (glob[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`, 'i');
+}
+
+export function matchesGlob(filePath: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(filePath.replace(/\\/g, '/'));
+}
+
+export function matchesAnyGlob(filePath: string, patterns: string[]): boolean {
+  return patterns.some(p => matchesGlob(filePath, p));
+}
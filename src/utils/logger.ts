@@ -58,6 +58,19 @@ export class Logger {
     }
   }
 
+  /**
+   * Program output, line by line under this logger's prefix and without
+   * timestamps, so the output of parallel runs can be told apart.
+   */
+  output(text: string): void {
+    if (this.shouldLog('info')) {
+      const prefix = this.prefix ? chalk.gray(`[${this.prefix}] `) : '';
+      for (const line of text.split('\n')) {
+        console.log(`${prefix}${line}`);
+      }
+    }
+  }
+
   child(prefix: string): Logger {
     const newPrefix = this.prefix ? `${this.prefix}:${prefix}` : prefix;
     return new Logger(this.level, newPrefix);